@@ -1,14 +1,90 @@
-import React, { useState, useRef, useEffect, MouseEvent } from 'react';
-import { AppState, Point, PixelCoords, RealCoords, Area } from './types';
-import { Upload, Ruler, Target, MapPin, X, Save, Trash2, RefreshCcw, MousePointerClick, Download, Pencil, Check, FileText, Shapes, DownloadCloud } from 'lucide-react';
-
-// Add TypeScript declaration for pdf.js and jsPDF libraries loaded via script tags
-declare global {
-    interface Window {
-        pdfjsLib: any;
-        jspdf: any;
-    }
-}
+import React, { useState, useRef, useEffect, useMemo, MouseEvent, PointerEvent } from 'react';
+import { AppState, Point, PixelCoords, RealCoords, Area, AreaDerivation, ViewTransform, ProjectData, ProjectHistory, ProjectSummary, Sheet, ReportSettings, Category, AttributeField, FeatureDetails, CoordinateEntry, Matrix3, CalibrationReference, CalibrationModel, Georeference, Measurement, MeasurementKind, TerrainSettings, CoordinateFrame } from './types';
+import { Upload, Ruler, Target, MapPin, X, Save, Trash2, RefreshCcw, MousePointerClick, Download, Pencil, Check, FileText, Shapes, DownloadCloud, ZoomIn, ZoomOut, Maximize, Copy, FolderOpen, CloudOff, Layers, ChevronDown, FileUp, Crosshair, Scan, ImageDown, Globe, MoveHorizontal, Spline, DraftingCompass, Undo2, Redo2, SquareDashed, AlertTriangle, SquaresUnite, SquaresIntersect, SquaresSubtract, Expand, Files, FilePlus, Magnet, Tags, ListPlus, ClipboardList, Compass, LocateFixed, Mountain, Grid3x3, Navigation } from 'lucide-react';
+import { fitTransform, zoomAt, rotateAt, anchorTransform, normalizeRotation, screenToImage, centerOn, clampZoom } from './utils/viewport';
+import { listProjects, loadProject, loadProjectHistory, saveProject, saveSheetData, saveSheet, deleteSheet, saveReportSettings, saveCategories, saveAttributeFields, savePhoto, saveProjectHistory, renameProject, duplicateProject, deleteProject, createThumbnail, dataUrlToBlob, blobToDataUrl, emptyProjectData } from './services/projectStore';
+import { isProjectFile, parseProjectFile, serializeProject, MAPPA_EXTENSION } from './services/projectFile';
+import { exportGeoJSON, exportKML, exportDXF, ExportFrame, TerrainExport } from './services/vectorExport';
+import { downloadBlob, downloadText } from './utils/download';
+import { createId } from './utils/id';
+import { withRealArea, computeAreaMetrics, validateNewRing, derivedAreaName, describeDerivation } from './utils/areaAnalytics';
+import { booleanOperation, bufferPolygon, unionAll, BooleanOperation, PolygonRings } from './utils/polygonBoolean';
+import { emptyHistory, pushHistory, undoHistory, redoHistory, isSameProjectData } from './utils/history';
+import { calculateDistance, calculatePolygonArea, closestPointOnSegment, pixelToReal, realToPixel, calculateDistanceAndBearing, localPixelsPerMeter, computeAxes, normalizeDegrees } from './utils/geometry';
+import { fitCalibration, scaleMatrix, scaleReference, isProjective, CalibrationFit } from './utils/calibration';
+import { renderRectifiedImage } from './utils/rectify';
+import { applyMatrix, invertMatrix } from './utils/linearAlgebra';
+import { CalibrationPanel, CalibrationTool, PendingCalibrationReference } from './components/CalibrationPanel';
+import { CsvImportDialog } from './components/CsvImportDialog';
+import { CoordinateEntryDialog } from './components/CoordinateEntryDialog';
+import { GeoreferenceDialog } from './components/GeoreferenceDialog';
+import { PdfPageDialog } from './components/PdfPageDialog';
+import { PdfScaleDialog } from './components/PdfScaleDialog';
+import { loadPdfDocument, renderPdfPage, extractPageVertices, dpiToScale, scaleToDpi, PDF_RESOLUTIONS } from './utils/pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { readPageMeasures, pixelsPerMeterAt, PdfMeasure } from './utils/pdfMeasure';
+import { ReportDialog } from './components/ReportDialog';
+import { createReportPdf, ReportLegendEntry, ReportTable } from './services/reportPdf';
+import { defaultReportSettings } from './utils/report';
+import { createSnapIndex, findSnapVertex, SnapIndex } from './utils/snap';
+import { sheetLabel, scaleProjectData, scaleProjectHistory } from './utils/sheets';
+import { getCrs } from './utils/projection';
+import { REQUIRED_VERTICES, MEASUREMENT_LABELS, summarizeMeasurement, segmentLengths, polylineLength } from './utils/measurement';
+import { localToProjected, localToWgs84, wgs84ToLocal, georeferenceScale, georeferenceFromOrigin, fitGeoreference, formatProjected, formatLatLon } from './utils/georeference';
+import { buildScene, uprightText, gpsShapes, compassShapes, cornerCompass, SCENE_COLORS, DragTarget, FeatureRef, SceneHandle, SceneInput } from './utils/scene';
+import { sceneToSvg, renderScenePng } from './services/sceneExport';
+import { SceneLayer } from './components/SceneLayer';
+import { Loupe } from './components/Loupe';
+import { GpsPanel, GpsSource } from './components/GpsPanel';
+import { LocationFix, LocationSource, deviceLocation, simulatedLocation, extendsTrack } from './services/location';
+import { CategoriesDialog } from './components/CategoriesDialog';
+import { findCategory, categoryName } from './utils/categories';
+import { AttributeFieldsDialog } from './components/AttributeFieldsDialog';
+import { FeatureDetailsPanel } from './components/FeatureDetailsPanel';
+import { emptyDetails, featureDetails, formatAttribute, preparePhoto } from './utils/attributes';
+import { registerServiceWorker } from './services/serviceWorker';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { TerrainDialog } from './components/TerrainDialog';
+import { buildTin, contourLines, cutFillVolume, elevationAt, defaultTerrainSettings, formatElevation } from './utils/terrain';
+import { CoordinateFrameDialog } from './components/CoordinateFrameDialog';
+import { COORDINATE_FRAME_LABELS, defaultCoordinateFrame, frameTransform, frameRotation, frameDescription, boundsInFrame, lineAzimuth } from './utils/coordinateFrame';
+import { parseLocaleNumber } from './utils/csv';
+
+const AUTOSAVE_DELAY_MS = 500;
+// Changes closer together than this become a single undo step (e.g. a calibration and
+// the recomputation of every feature that follows it)
+const HISTORY_COALESCE_MS = 300;
+// Screen distance within which clicks snap to the end points of a PDF drawing
+const SNAP_RADIUS = 10;
+// Resolution of the PNG export relative to the natural image size
+const PNG_EXPORT_PIXEL_RATIO = 2;
+
+const MEASURE_MODES: Record<MeasurementKind, AppState> = {
+    distance: AppState.MEASURE_DISTANCE,
+    polyline: AppState.MEASURE_POLYLINE,
+    angle: AppState.MEASURE_ANGLE,
+};
+
+const HANDLE_STYLE: React.CSSProperties = { pointerEvents: 'all', cursor: 'move' };
+// Screen radius of the hit area around markers on touch screens, for a target about a finger wide
+const TOUCH_HIT_RADIUS = 22;
+// A touch held still this long opens the loupe for precise placement
+const LONG_PRESS_MS = 450;
+// Two fingers must turn this many degrees before the view rotates, so pinch zooms stay straight
+const PINCH_ROTATE_THRESHOLD = 12;
+
+// Screen to restore after undoing or redoing to a given state of the mapping data
+const stateForData = (data: ProjectData): AppState => {
+    if (data.calibration && data.origin) return AppState.READY;
+    if (data.calibration) return AppState.SET_ORIGIN;
+    return data.calibrationPoints.length === 1 ? AppState.CALIBRATE_END : AppState.CALIBRATE_START;
+};
+
+// States in which undo/redo may replace the mapping data; in the others a flow is half done
+const UNDOABLE_STATES = [AppState.CALIBRATE_START, AppState.SET_ORIGIN, AppState.READY, AppState.DEFINING_AREA, AppState.MEASURE_DISTANCE, AppState.MEASURE_POLYLINE, AppState.MEASURE_ANGLE];
+
+// Vertices are named after their position, so they are renumbered after inserting or deleting one
+const renumberVertices = (vertices: Point[]) => vertices.map((v, i) => ({ ...v, name: `V${i + 1}` }));
 
 export const App: React.FC = () => {
     const [appState, setAppState] = useState<AppState>(AppState.UPLOAD_IMAGE);
@@ -17,19 +93,39 @@ export const App: React.FC = () => {
     const [areas, setAreas] = useState<Area[]>([]);
     
     const [calibrationPoints, setCalibrationPoints] = useState<PixelCoords[]>([]);
-    const [pixelsPerMeter, setPixelsPerMeter] = useState<number | null>(null);
+    const [calibration, setCalibration] = useState<Matrix3 | null>(null);
     const [origin, setOrigin] = useState<PixelCoords | null>(null);
     const [knownDistance, setKnownDistance] = useState<number>(10);
 
+    // Multi-point calibration state
+    const [calibrationReferences, setCalibrationReferences] = useState<CalibrationReference[]>([]);
+    const [calibrationModel, setCalibrationModel] = useState<CalibrationModel>('scale');
+    const [calibrationTool, setCalibrationTool] = useState<CalibrationTool>('segment');
+    const [pendingSegmentStart, setPendingSegmentStart] = useState<PixelCoords | null>(null);
+    const [pendingReference, setPendingReference] = useState<PendingCalibrationReference | null>(null);
+    const [stateBeforeCalibration, setStateBeforeCalibration] = useState<AppState>(AppState.CALIBRATE_START);
+
+    // Perspective rectification: four clicked corners of a rectangle of known size
+    const [rectifyCorners, setRectifyCorners] = useState<PixelCoords[]>([]);
+    const [rectifyWidth, setRectifyWidth] = useState<number>(10);
+    const [rectifyHeight, setRectifyHeight] = useState<number>(10);
+
     const [tempPoint, setTempPoint] = useState<PixelCoords | null>(null);
     const [newPointName, setNewPointName] = useState('');
+    // Elevation typed for the new point, empty when it has none
+    const [newPointElevation, setNewPointElevation] = useState('');
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
-    const [isPdfLibReady, setIsPdfLibReady] = useState<boolean>(false);
-    const [pdfLibError, setPdfLibError] = useState<string | null>(null);
     
     const [mouseRealCoords, setMouseRealCoords] = useState<RealCoords | null>(null);
     const [mousePixelCoords, setMousePixelCoords] = useState<PixelCoords | null>(null);
 
+    // Snapping to the end points of the vector drawing of PDF sheets
+    const [snapIndex, setSnapIndex] = useState<SnapIndex | null>(null);
+    const [isSnapEnabled, setIsSnapEnabled] = useState<boolean>(true);
+    const [snapVertex, setSnapVertex] = useState<PixelCoords | null>(null);
+    // Scales read from the active PDF page, shown in the PDF scale dialog
+    const [pdfMeasures, setPdfMeasures] = useState<PdfMeasure[]>([]);
+
     // Editing states
     const [editingIndex, setEditingIndex] = useState<number | null>(null);
     const [editingName, setEditingName] = useState<string>('');
@@ -39,23 +135,127 @@ export const App: React.FC = () => {
     // Area definition state
     const [currentAreaPoints, setCurrentAreaPoints] = useState<Point[]>([]);
     const [newAreaName, setNewAreaName] = useState('');
+    // Area receiving the ring being drawn as a hole, null when drawing a new area
+    const [holeTargetIndex, setHoleTargetIndex] = useState<number | null>(null);
+    // Areas ticked for boolean operations and buffers, in the order they were ticked
+    const [selectedAreaIndices, setSelectedAreaIndices] = useState<number[]>([]);
+    const [bufferDistance, setBufferDistance] = useState<number>(5);
+
+    // Measurement state
+    const [measurements, setMeasurements] = useState<Measurement[]>([]);
+    const [currentMeasurePoints, setCurrentMeasurePoints] = useState<Point[]>([]);
+    const [editingMeasurementIndex, setEditingMeasurementIndex] = useState<number | null>(null);
+    const [editingMeasurementName, setEditingMeasurementName] = useState<string>('');
     
-    const [activeTab, setActiveTab] = useState<'points' | 'areas'>('points');
+    const [activeTab, setActiveTab] = useState<'points' | 'areas' | 'measurements'>('points');
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState<boolean>(false);
+    const [activeDialog, setActiveDialog] = useState<'csv-import' | 'coordinates' | 'georeference' | 'pdf-scale' | 'report' | 'categories' | 'attribute-fields' | 'terrain' | 'frame' | null>(null);
 
     // Compass state
     const [northRotation, setNorthRotation] = useState<number>(0);
     const [isRotatingCompass, setIsRotatingCompass] = useState<boolean>(false);
+
+    // Placement of the local frame in a real coordinate reference system
+    const [georeference, setGeoreference] = useState<Georeference | null>(null);
+    // Terrain model built from the point elevations, null until set up
+    const [terrain, setTerrain] = useState<TerrainSettings | null>(null);
+    // Frame the coordinates are shown, typed and exported in
+    const [coordinateFrame, setCoordinateFrame] = useState<CoordinateFrame>(defaultCoordinateFrame);
+    // Two clicks along a line of known direction, setting north or the X axis of the grid
+    const [linePick, setLinePick] = useState<{ target: 'north' | 'grid', bearing: number, points: PixelCoords[] } | null>(null);
     
-    // State for responsive image dimensions
-    const [imageDimensions, setImageDimensions] = useState<{width: number, height: number} | null>(null);
+    // All stored PixelCoords live in the natural (intrinsic) pixel space of the image;
+    // the view transform is only used to convert pointer input and to draw the overlay.
+    const [naturalSize, setNaturalSize] = useState<{width: number, height: number} | null>(null);
+    const [viewportSize, setViewportSize] = useState<{width: number, height: number} | null>(null);
+    const [view, setView] = useState<ViewTransform>({ zoom: 1, panX: 0, panY: 0, rotation: 0 });
+    const [isPanning, setIsPanning] = useState<boolean>(false);
+    // Magnifier under a finger placing a point after a long press, or dragging a marker
+    const [loupe, setLoupe] = useState<{ pointerId: number, clientX: number, clientY: number } | null>(null);
+    // Live position on a georeferenced map
+    const [isGpsOn, setIsGpsOn] = useState<boolean>(false);
+    const [gpsSource, setGpsSource] = useState<GpsSource>('device');
+    const [gpsFix, setGpsFix] = useState<LocationFix | null>(null);
+    const [gpsError, setGpsError] = useState<string | null>(null);
+    const [isGpsFollowing, setIsGpsFollowing] = useState<boolean>(true);
+    // Fixes of the track being recorded, null when not recording
+    const [gpsTrack, setGpsTrack] = useState<LocationFix[] | null>(null);
+    // Tablets and phones get larger hit areas around the markers
+    const [isCoarsePointer, setIsCoarsePointer] = useState<boolean>(() => window.matchMedia('(any-pointer: coarse)').matches);
+    const [dragTarget, setDragTarget] = useState<DragTarget | null>(null);
     
+    // Project persistence state
+    const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+    const [projectName, setProjectName] = useState<string>('');
+    const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+    const [renamingProjectId, setRenamingProjectId] = useState<string | null>(null);
+    const [renamingProjectName, setRenamingProjectName] = useState<string>('');
+    const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+
+    // Sheets of the open project. The data of the active sheet lives in the mapping state
+    // above; it is copied back into `sheets` when switching sheet or exporting the project.
+    const [sheets, setSheets] = useState<Sheet[]>([]);
+    const [activeSheetId, setActiveSheetId] = useState<string | null>(null);
+    const [isSheetMenuOpen, setIsSheetMenuOpen] = useState<boolean>(false);
+    // PDF whose pages are being picked, for a new project or to add sheets to the open one
+    const [pdfPicker, setPdfPicker] = useState<{ pdf: PDFDocumentProxy; mode: 'new' | 'add'; file?: File; name?: string } | null>(null);
+    // Image of each sheet as a data URL, and the PDF the sheets were rendered from
+    const sheetImagesRef = useRef<Record<string, string>>({});
+    const sourcePdfRef = useRef<Blob | null>(null);
+    // `sourcePdfRef` loaded with PDF.js, once needed
+    const pdfDocumentRef = useRef<PDFDocumentProxy | null>(null);
+    // Undo/redo history of the sheets that are not shown
+    const sheetHistoriesRef = useRef<Record<string, ProjectHistory>>({});
+    const activeSheet = sheets.find(sheet => sheet.id === activeSheetId) ?? null;
+    // Layout of the PDF report of the project, null until first configured
+    const [reportSettings, setReportSettings] = useState<ReportSettings | null>(null);
+    // Categories (layers) of points and areas, shared by all sheets
+    const [categories, setCategories] = useState<Category[]>([]);
+    // Category given to new points and areas
+    const [activeCategoryId, setActiveCategoryId] = useState<string | null>(null);
+    // Rows shown in the points and areas tables: 'all', 'none' for the uncategorized ones, or a category id
+    const [categoryFilter, setCategoryFilter] = useState<string>('all');
+    // Attribute schema of points and areas, and their photos, shared by all sheets
+    const [attributeFields, setAttributeFields] = useState<AttributeField[]>([]);
+    const [photos, setPhotos] = useState<Record<string, Blob>>({});
+    // Point or area whose details are shown in the side panel
+    const [detailsFeature, setDetailsFeature] = useState<FeatureRef | null>(null);
+
+    // Undo/redo. The ref is the source of truth; the state only re-renders the buttons.
+    const [history, setHistory] = useState<ProjectHistory>(emptyHistory());
+    const historyRef = useRef<ProjectHistory>(history);
+    // Last state recorded in the history, the one an undo step would go back from
+    const committedDataRef = useRef<ProjectData | null>(null);
+    const latestDataRef = useRef<ProjectData | null>(null);
+    const historyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Set when the data is replaced wholesale (open, undo, redo): the change is not a new step
+    const skipHistoryRef = useRef<boolean>(false);
+
     // PWA install prompt state
     const [installPrompt, setInstallPrompt] = useState<any>(null);
+    // Activates the new release waiting in the service worker, when there is one
+    const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
 
 
     const imageRef = useRef<HTMLImageElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const compassRef = useRef<HTMLDivElement>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const hasFittedRef = useRef<boolean>(false);
+    // Drag/pinch bookkeeping. A drag that moves further than a few pixels pans the
+    // view and suppresses the click that would otherwise place a point. A touch held
+    // still turns into a loupe instead (`loupe`), placing the point when released.
+    const panStartRef = useRef<{ pointerId: number, pointerType: string, clientX: number, clientY: number, view: ViewTransform, moved: boolean, loupe: boolean } | null>(null);
+    const pinchStartRef = useRef<{ distance: number, angle: number, midX: number, midY: number, view: ViewTransform, rotating: boolean } | null>(null);
+    // Pointers down on the viewport, by id
+    const pointersRef = useRef<Map<number, { clientX: number, clientY: number }>>(new Map());
+    const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Type of the last pointer pressed, to tell a long touch from a right click
+    const pointerTypeRef = useRef<string>('mouse');
+    const suppressClickRef = useRef<boolean>(false);
+    const dragStartRef = useRef<{ pointerId: number, clientX: number, clientY: number, moved: boolean } | null>(null);
+    const viewRef = useRef<ViewTransform>(view);
 
     // Effect to listen for the PWA install prompt
     useEffect(() => {
@@ -71,50 +271,13 @@ export const App: React.FC = () => {
         };
     }, []);
 
-    // Effect to dynamically load and configure the PDF.js library.
     useEffect(() => {
-        const SCRIPT_URL = 'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.min.js';
-        const WORKER_URL = 'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
-
-        if (window.pdfjsLib) {
-            window.pdfjsLib.GlobalWorkerOptions.workerSrc = WORKER_URL;
-            setIsPdfLibReady(true);
-            return;
-        }
-
-        const script = document.createElement('script');
-        script.src = SCRIPT_URL;
-        script.async = true;
-
-        const handleLoad = () => {
-            if (window.pdfjsLib) {
-                window.pdfjsLib.GlobalWorkerOptions.workerSrc = WORKER_URL;
-                setIsPdfLibReady(true);
-            } else {
-                console.error('PDF.js script loaded but `window.pdfjsLib` is not defined.');
-                setPdfLibError('Impossibile inizializzare la libreria PDF. Potrebbe essere bloccata dalla tua rete o dalle impostazioni del browser.');
-            }
-        };
-
-        const handleError = () => {
-            console.error('Failed to load the PDF.js script.');
-            setPdfLibError('Impossibile caricare la libreria PDF. Controlla la tua connessione internet e gli ad-blocker, poi ricarica la pagina.');
-        };
-
-        script.addEventListener('load', handleLoad);
-        script.addEventListener('error', handleError);
-
-        document.body.appendChild(script);
-
-        return () => {
-            script.removeEventListener('load', handleLoad);
-            script.removeEventListener('error', handleError);
-        };
+        registerServiceWorker(apply => setApplyUpdate(() => apply));
     }, []);
-    
+
     // Effect for handling compass rotation
     useEffect(() => {
-        const handleMouseMove = (e: globalThis.MouseEvent) => {
+        const handlePointerMove = (e: globalThis.PointerEvent) => {
             if (!isRotatingCompass || !compassRef.current) return;
 
             const rect = compassRef.current.getBoundingClientRect();
@@ -123,128 +286,1086 @@ export const App: React.FC = () => {
             const angleRad = Math.atan2(e.clientY - centerY, e.clientX - centerX);
             const angleDeg = angleRad * (180 / Math.PI) + 90; // +90 to align with North up
 
-            setNorthRotation(angleDeg);
+            // The compass turns with the view, north is stored relative to the image
+            setNorthRotation(angleDeg - viewRef.current.rotation);
         };
-        const handleMouseUp = () => {
+        const handlePointerUp = () => {
              setIsRotatingCompass(false);
              document.body.style.cursor = 'default';
              document.body.style.userSelect = 'auto';
         };
 
         if (isRotatingCompass) {
-            window.addEventListener('mousemove', handleMouseMove);
-            window.addEventListener('mouseup', handleMouseUp);
+            window.addEventListener('pointermove', handlePointerMove);
+            window.addEventListener('pointerup', handlePointerUp);
+            window.addEventListener('pointercancel', handlePointerUp);
         }
 
         return () => {
-            window.removeEventListener('mousemove', handleMouseMove);
-            window.removeEventListener('mouseup', handleMouseUp);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
         };
     }, [isRotatingCompass]);
 
-    // Effect for handling window resize to keep SVG overlay aligned
     useEffect(() => {
-        const handleResize = () => {
-            if (imageRef.current) {
-                const { width, height } = imageRef.current.getBoundingClientRect();
-                setImageDimensions({ width, height });
+        const query = window.matchMedia('(any-pointer: coarse)');
+        const handleChange = () => setIsCoarsePointer(query.matches);
+        query.addEventListener('change', handleChange);
+        return () => query.removeEventListener('change', handleChange);
+    }, []);
+
+    useEffect(() => {
+        viewRef.current = view;
+    }, [view]);
+
+    // Track the size of the map viewport so fit-to-screen and the minimap stay accurate
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(entries => {
+            const { width, height } = entries[0].contentRect;
+            setViewportSize({ width, height });
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [imageSrc]); // The viewport only exists once an image is loaded
+
+    // Fit the image to the viewport the first time both sizes are known
+    useEffect(() => {
+        if (hasFittedRef.current || !naturalSize || !viewportSize) return;
+        setView(fitTransform(naturalSize.width, naturalSize.height, viewportSize.width, viewportSize.height));
+        hasFittedRef.current = true;
+    }, [naturalSize, viewportSize]);
+
+    // Mouse-wheel zoom around the cursor. Registered manually because React attaches wheel
+    // listeners as passive.
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+
+        // Panels over the map (e.g. feature details) scroll instead
+        const isOverPanel = (e: Event) => e.target instanceof Element && !!e.target.closest('[data-overlay-panel]');
+
+        const handleWheel = (e: WheelEvent) => {
+            if (isOverPanel(e)) return;
+            e.preventDefault();
+            const rect = element.getBoundingClientRect();
+            const factor = Math.exp(-e.deltaY * (e.deltaMode === 1 ? 0.05 : 0.0015));
+            setView(v => zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top));
+        };
+
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => element.removeEventListener('wheel', handleWheel);
+    }, [imageSrc]);
+
+    // Effect for drag-to-pan with one pointer and, with two fingers, pinch to zoom and turn
+    // the view. Moves are followed on the window so a drag may leave the viewport.
+    useEffect(() => {
+        if (!isPanning) return;
+        const handlePointerMove = (e: globalThis.PointerEvent) => {
+            const pointers = pointersRef.current;
+            if (!pointers.has(e.pointerId)) return;
+            pointers.set(e.pointerId, { clientX: e.clientX, clientY: e.clientY });
+
+            const pinchStart = pinchStartRef.current;
+            if (pinchStart && pointers.size === 2) {
+                const { distance, angle, midX, midY } = pinchGeometry();
+                let turn = normalizeRotation(angle - pinchStart.angle);
+                if (!pinchStart.rotating && Math.abs(turn) > PINCH_ROTATE_THRESHOLD) {
+                    pinchStart.rotating = true;
+                    pinchStart.angle = angle;
+                    turn = 0;
+                }
+                const zoom = clampZoom(pinchStart.view.zoom * (distance / pinchStart.distance));
+                const rotation = pinchStart.rotating ? normalizeRotation(pinchStart.view.rotation + turn) : pinchStart.view.rotation;
+                // Keep the image point that was under the initial midpoint under the current midpoint
+                const anchor = screenToImage(pinchStart.view, pinchStart.midX, pinchStart.midY);
+                setView(anchorTransform(zoom, rotation, anchor, midX, midY));
+                return;
+            }
+
+            const start = panStartRef.current;
+            if (!start || e.pointerId !== start.pointerId) return;
+            if (start.loupe) {
+                setLoupe({ pointerId: e.pointerId, clientX: e.clientX, clientY: e.clientY });
+                return;
+            }
+            const dx = e.clientX - start.clientX;
+            const dy = e.clientY - start.clientY;
+            if (!start.moved && Math.hypot(dx, dy) < (start.pointerType === 'mouse' ? 4 : 8)) return;
+            start.moved = true;
+            cancelLongPress();
+            setIsGpsFollowing(false);
+            setView({ ...start.view, panX: start.view.panX + dx, panY: start.view.panY + dy });
+        };
+        const handlePointerUp = (e: globalThis.PointerEvent) => {
+            const pointers = pointersRef.current;
+            pointers.delete(e.pointerId);
+            if (panStartRef.current?.pointerId === e.pointerId) {
+                if (panStartRef.current.moved || panStartRef.current.loupe) suppressClickRef.current = true;
+                panStartRef.current = null;
+            }
+            if (pinchStartRef.current && pointers.size < 2) {
+                pinchStartRef.current = null;
+                // The finger left on the screen carries on panning from where the pinch ended
+                const [pointerId, pointer] = [...pointers.entries()][0] ?? [];
+                if (pointer) panStartRef.current = { pointerId, pointerType: 'touch', ...pointer, view: viewRef.current, moved: true, loupe: false };
+            }
+            if (pointers.size === 0) {
+                cancelLongPress();
+                setLoupe(null);
+                setIsPanning(false);
             }
         };
 
-        // Set initial dimensions
-        if (imageSrc) {
-            handleResize();
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        window.addEventListener('pointercancel', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
+        };
+    }, [isPanning]);
+
+    // Reads the location source while the GPS is on. The simulated source walks around the
+    // middle of the map, and starts again around the new middle when the map is placed
+    // differently or another sheet is opened.
+    const canUseGps = !!(georeference && origin && calibration);
+    const simulatedCenter = useMemo(() => {
+        if (gpsSource !== 'simulated' || !georeference || !origin || !calibration || !naturalSize) return null;
+        return localToWgs84(georeference, pixelToReal({ x: naturalSize.width / 2, y: naturalSize.height / 2 }, origin, calibration));
+    }, [gpsSource, georeference, origin, calibration, naturalSize]);
+    useEffect(() => {
+        if (!isGpsOn || !canUseGps) return;
+        let source: LocationSource = deviceLocation;
+        if (gpsSource === 'simulated') {
+            if (!simulatedCenter) return;
+            source = simulatedLocation(simulatedCenter);
         }
+        setGpsError(null);
+        return source(
+            fix => {
+                setGpsFix(fix);
+                setGpsError(null);
+                setGpsTrack(track => track && extendsTrack(track, fix) ? [...track, fix] : track);
+            },
+            setGpsError
+        );
+    }, [isGpsOn, canUseGps, gpsSource, simulatedCenter]);
+
+    // Follow me: each new position is brought to the centre of the view
+    useEffect(() => {
+        if (!isGpsOn || !isGpsFollowing || !gpsFix || !viewportSize) return;
+        const position = gpsFixToPixel(gpsFix);
+        if (position) setView(v => centerOn(v, position.center, viewportSize.width, viewportSize.height));
+    }, [gpsFix, isGpsOn, isGpsFollowing]);
 
-        window.addEventListener('resize', handleResize);
-        return () => window.removeEventListener('resize', handleResize);
-    }, [imageSrc]); // Rerun this effect if the image source changes
+    // Effect for dragging points, vertices and the origin. Values are recomputed on every move.
+    useEffect(() => {
+        if (!dragTarget) return;
+        const handlePointerMove = (e: globalThis.PointerEvent) => {
+            const start = dragStartRef.current;
+            if (!start || e.pointerId !== start.pointerId) return;
+            if (!start.moved && Math.hypot(e.clientX - start.clientX, e.clientY - start.clientY) < 3) return;
+            start.moved = true;
+            const coords = getClickCoordinates(e);
+            if (coords) moveFeature(dragTarget, snapCoordinates(coords));
+            // A finger hides the marker it drags: show it magnified
+            if (e.pointerType !== 'mouse') setLoupe({ pointerId: e.pointerId, clientX: e.clientX, clientY: e.clientY });
+        };
+        const handlePointerUp = (e: globalThis.PointerEvent) => {
+            if (dragStartRef.current && e.pointerId !== dragStartRef.current.pointerId) return;
+            if (dragStartRef.current?.moved) suppressClickRef.current = true;
+            dragStartRef.current = null;
+            setDragTarget(null);
+            setLoupe(null);
+        };
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        window.addEventListener('pointercancel', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
+        };
+    }, [dragTarget]);
     
+    // Refresh the recent projects list whenever the upload screen is shown
+    useEffect(() => {
+        if (appState === AppState.UPLOAD_IMAGE) {
+            refreshRecentProjects();
+        }
+    }, [appState]);
+
+    // Vector end points of the active PDF sheet, for snapping
+    const activePageNumber = activeSheet?.pageNumber ?? null;
+    const activeRenderScale = activeSheet?.renderScale ?? null;
+    useEffect(() => {
+        setSnapIndex(null);
+        setSnapVertex(null);
+        if (activePageNumber === null || !activeRenderScale || !sourcePdfRef.current) return;
+        let cancelled = false;
+        loadSourcePdf()
+            .then(pdf => extractPageVertices(pdf, activePageNumber, activeRenderScale))
+            .then(vertices => {
+                if (!cancelled && vertices.length > 0) setSnapIndex(createSnapIndex(vertices));
+            })
+            .catch(error => console.warn("Could not read the vector drawing of the page:", error));
+        return () => { cancelled = true; };
+    }, [activeSheetId, activePageNumber, activeRenderScale]);
+
+    // Autosave the mapping data of the open sheet
+    useEffect(() => {
+        if (!currentProjectId || !activeSheetId) return;
+        setSaveStatus('saving');
+        const timeout = setTimeout(() => {
+            Promise.all([saveSheetData(currentProjectId, activeSheetId, buildProjectData()), saveProjectHistory(currentProjectId, activeSheetId, historyRef.current)])
+                .then(() => setSaveStatus('saved'))
+                .catch(error => {
+                    console.error("Autosave failed:", error);
+                    setSaveStatus('error');
+                });
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timeout);
+    }, [currentProjectId, activeSheetId, calibrationPoints, knownDistance, calibrationReferences, calibrationModel, calibration, origin, northRotation, georeference, points, areas, measurements, terrain, coordinateFrame, history]);
+
+    // Records an undo step once a burst of changes has settled. Drags and compass rotations
+    // are recorded when they end, as a single step.
+    useEffect(() => {
+        latestDataRef.current = buildProjectData();
+        if (dragTarget || isRotatingCompass) {
+            // Changes made just before the interaction are a step of their own
+            if (historyTimeoutRef.current) commitHistory();
+            return;
+        }
+        if (historyTimeoutRef.current) clearTimeout(historyTimeoutRef.current);
+        historyTimeoutRef.current = setTimeout(commitHistory, HISTORY_COALESCE_MS);
+    }, [calibrationPoints, knownDistance, calibrationReferences, calibrationModel, calibration, origin, northRotation, georeference, points, areas, measurements, terrain, coordinateFrame, dragTarget, isRotatingCompass]);
+
     // Recalculate bearings for all points when north rotation changes
     useEffect(() => {
-        if (points.length === 0 || !origin || !pixelsPerMeter) return;
+        if (points.length === 0 || !origin || !calibration) return;
         setPoints(currentPoints => currentPoints.map(p => {
              const { bearing } = calculateDistanceAndBearing(p.realCoords, northRotation);
              return { ...p, bearing };
         }));
-    }, [northRotation, origin, pixelsPerMeter]);
+    }, [northRotation, origin, calibration]);
+
+    // Control points of the georeference follow the saved points they were taken from,
+    // so moving them or recalibrating keeps the georeference consistent
+    useEffect(() => {
+        setGeoreference(current => {
+            const crs = current?.method === 'control-points' ? getCrs(current.crs) : undefined;
+            if (!crs) return current;
+            const controlPoints = current.controlPoints.map(c => {
+                const point = c.pointId ? points.find(p => p.id === c.pointId) : undefined;
+                return point ? { ...c, name: point.name, local: point.realCoords } : c;
+            });
+            if (controlPoints.every((c, i) => c.local === current.controlPoints[i].local && c.name === current.controlPoints[i].name)) return current;
+            const result = fitGeoreference(crs, controlPoints);
+            return 'fit' in result ? result.fit.georeference : current;
+        });
+    }, [points]);
+
+    // A georeference set from the origin takes its orientation from the compass
+    useEffect(() => {
+        setGeoreference(current => {
+            const crs = current?.method === 'origin-north' ? getCrs(current.crs) : undefined;
+            return crs ? georeferenceFromOrigin(crs, current.controlPoints[0].projected, northRotation) : current;
+        });
+    }, [northRotation]);
+
+    // Nominal scale of the calibration around the origin (or the image centre before it is set).
+    // Used for display purposes such as the axis tick spacing.
+    const pixelsPerMeter = calibration
+        ? localPixelsPerMeter(calibration, origin ?? { x: (naturalSize?.width ?? 0) / 2, y: (naturalSize?.height ?? 0) / 2 })
+        : null;
+
+    const calibrationFit = fitCalibration(calibrationReferences, calibrationModel);
+
+    const axes = origin && calibration && naturalSize && pixelsPerMeter
+        ? computeAxes(origin, calibration, naturalSize.width, naturalSize.height, 10, frameRotation(coordinateFrame, northRotation))
+        : null;
+
+    const georeferenceCrs = georeference ? getCrs(georeference.crs) : undefined;
+
+    const activeMeasureKind = (Object.keys(MEASURE_MODES) as MeasurementKind[]).find(kind => MEASURE_MODES[kind] === appState) ?? null;
+
+    // Conversion between the stored coordinates and the frame they are shown, typed and exported in
+    const { toFrame, fromFrame } = frameTransform(coordinateFrame, northRotation);
+    // Marks coordinate headings when they are not in the image frame
+    const frameSuffix = coordinateFrame.kind === 'image' ? '' : ` – ${COORDINATE_FRAME_LABELS[coordinateFrame.kind]}`;
+
+    // Frame of the vector exports: the georeferenced CRS when set, the coordinate frame of the
+    // sheet otherwise
+    const exportFrame: ExportFrame = georeference && georeferenceCrs
+        ? {
+            name: georeferenceCrs.name,
+            epsg: georeferenceCrs.epsg,
+            toProjected: (coords) => {
+                const { e, n } = localToProjected(georeference, coords);
+                return [e, n];
+            },
+            toLonLat: (coords) => {
+                const { lat, lon } = localToWgs84(georeference, coords);
+                return [lon, lat];
+            },
+            toLocal: toFrame,
+        }
+        : {
+            name: frameDescription(coordinateFrame),
+            toProjected: (coords) => {
+                const { x, y } = toFrame(coords);
+                return [x, y];
+            },
+            toLocal: toFrame,
+        };
+
+    // Terrain model of the sheet with its contour lines and the cut and fill of every area.
+    // Triangulating is quadratic in the points, so it is not redone on every pointer move.
+    const terrainModel = useMemo(() => {
+        if (!terrain) return null;
+        const tin = buildTin(points, terrain);
+        return {
+            tin,
+            contours: contourLines(tin, terrain.contourInterval),
+            volumes: areas.map(area => {
+                const volume = cutFillVolume(tin, area, terrain.referenceLevel);
+                return volume.coveredArea > 1e-9 ? volume : null;
+            }),
+        };
+    }, [points, areas, terrain]);
+
+    // Elevation of the model under the cursor, null outside it
+    const cursorElevation = terrainModel && mouseRealCoords ? elevationAt(terrainModel.tin, mouseRealCoords) : null;
+
+    const terrainExport: TerrainExport | null = terrain && terrainModel
+        ? { contours: terrainModel.contours, volumes: terrainModel.volumes, referenceLevel: terrain.referenceLevel }
+        : null;
+
+    const buildProjectData = (): ProjectData => ({
+        calibrationPoints,
+        knownDistance,
+        calibrationReferences,
+        calibrationModel,
+        calibration,
+        origin,
+        northRotation,
+        georeference,
+        points,
+        areas,
+        measurements,
+        terrain,
+        coordinateFrame,
+    });
+
+    const updateHistory = (next: ProjectHistory) => {
+        historyRef.current = next;
+        setHistory(next);
+    };
+
+    const commitHistory = () => {
+        if (historyTimeoutRef.current) clearTimeout(historyTimeoutRef.current);
+        historyTimeoutRef.current = null;
+        const latest = latestDataRef.current;
+        const committed = committedDataRef.current;
+        if (!latest) return;
+        if (committed && !skipHistoryRef.current && !isSameProjectData(committed, latest)) {
+            updateHistory(pushHistory(historyRef.current, committed));
+        }
+        committedDataRef.current = latest;
+        skipHistoryRef.current = false;
+    };
+
+    // Starts a history from the given history, ignoring the changes caused by loading its data
+    const resetHistory = (next: ProjectHistory) => {
+        if (historyTimeoutRef.current) clearTimeout(historyTimeoutRef.current);
+        historyTimeoutRef.current = null;
+        committedDataRef.current = null;
+        skipHistoryRef.current = false;
+        updateHistory(next);
+    };
+
+    const applyProjectData = (data: ProjectData) => {
+        setCalibrationPoints(data.calibrationPoints);
+        setKnownDistance(data.knownDistance);
+        setCalibrationReferences(data.calibrationReferences);
+        setCalibrationModel(data.calibrationModel);
+        setCalibration(data.calibration);
+        setOrigin(data.origin);
+        setNorthRotation(data.northRotation);
+        setGeoreference(data.georeference);
+        setPoints(data.points);
+        setAreas(data.areas);
+        setMeasurements(data.measurements);
+        setTerrain(data.terrain);
+        setCoordinateFrame(data.coordinateFrame);
+    };
+
+    const restoreSnapshot = (snapshot: ProjectData, next: ProjectHistory) => {
+        updateHistory(next);
+        committedDataRef.current = snapshot;
+        skipHistoryRef.current = true;
+        applyProjectData(snapshot);
+        setCurrentAreaPoints([]);
+        setHoleTargetIndex(null);
+        setSelectedAreaIndices([]);
+        setCurrentMeasurePoints([]);
+        setEditingIndex(null);
+        setEditingAreaIndex(null);
+        setEditingMeasurementIndex(null);
+        setAppState(stateForData(snapshot));
+    };
+
+    const canUndoRedo = UNDOABLE_STATES.includes(appState) && activeDialog === null;
+
+    const handleUndo = () => {
+        if (!canUndoRedo) return;
+        commitHistory();
+        const result = committedDataRef.current && undoHistory(historyRef.current, committedDataRef.current);
+        if (result) restoreSnapshot(result.snapshot, result.history);
+    };
+
+    const handleRedo = () => {
+        if (!canUndoRedo) return;
+        commitHistory();
+        const result = committedDataRef.current && redoHistory(historyRef.current, committedDataRef.current);
+        if (result) restoreSnapshot(result.snapshot, result.history);
+    };
+
+    // While drawing an area or a measurement, removes the vertex placed last
+    const handleRemoveLastVertex = () => {
+        if (appState === AppState.DEFINING_AREA) setCurrentAreaPoints(prev => prev.slice(0, -1));
+        else if (activeMeasureKind) setCurrentMeasurePoints(prev => prev.slice(0, -1));
+    };
+
+    // Keyboard shortcuts: Ctrl/Cmd+Z undoes (or removes the last vertex while drawing),
+    // Ctrl/Cmd+Shift+Z and Ctrl+Y redo, Backspace removes the last vertex while drawing
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+            const hasPendingVertices = currentAreaPoints.length > 0 || currentMeasurePoints.length > 0;
+            const key = e.key.toLowerCase();
+            if ((e.ctrlKey || e.metaKey) && key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                if (hasPendingVertices) handleRemoveLastVertex();
+                else handleUndo();
+            } else if ((e.ctrlKey || e.metaKey) && (key === 'y' || key === 'z')) {
+                e.preventDefault();
+                handleRedo();
+            } else if (e.key === 'Backspace' && hasPendingVertices) {
+                e.preventDefault();
+                handleRemoveLastVertex();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [appState, activeDialog, currentAreaPoints, currentMeasurePoints]);
+
+    const refreshRecentProjects = () => {
+        listProjects()
+            .then(setRecentProjects)
+            .catch(error => console.error("Failed to list projects:", error));
+    };
+
+    // Shows freshly loaded images (an image, or the chosen pages of a PDF) and stores them
+    // as a new project, one sheet each
+    const startNewProject = async (pages: { sheet: Sheet; image: string }[], name: string, sourcePdf?: Blob) => {
+        const [first] = pages;
+        sheetImagesRef.current = Object.fromEntries(pages.map(page => [page.sheet.id, page.image]));
+        sheetHistoriesRef.current = {};
+        sourcePdfRef.current = sourcePdf ?? null;
+        pdfDocumentRef.current = null;
+        setSheets(pages.map(page => page.sheet));
+        setActiveSheetId(first.sheet.id);
+        setReportSettings(null);
+        setCategories([]);
+        setActiveCategoryId(null);
+        setCategoryFilter('all');
+        setAttributeFields([]);
+        setPhotos({});
+        setDetailsFeature(null);
+        applyProjectData(first.sheet.data);
+        resetHistory(emptyHistory());
+        setImageSrc(first.image);
+        setProjectName(name);
+        setAppState(stateForData(first.sheet.data));
+        try {
+            const now = Date.now();
+            const id = createId();
+            const [images, thumbnail] = await Promise.all([
+                Promise.all(pages.map(page => dataUrlToBlob(page.image))),
+                createThumbnail(first.image),
+            ]);
+            await saveProject({
+                id, name, createdAt: now, updatedAt: now, thumbnail,
+                sheets: pages.map(page => page.sheet),
+                activeSheetId: first.sheet.id,
+                images: Object.fromEntries(pages.map((page, i) => [page.sheet.id, images[i]])),
+                sourcePdf,
+                reportSettings: null,
+                categories: [],
+                attributeFields: [],
+                photos: {},
+            });
+            // Setting the id enables autosave, which also stores anything mapped in the meantime
+            setCurrentProjectId(id);
+        } catch (error) {
+            console.error("Failed to create project:", error);
+            setSaveStatus('error');
+        }
+    };
+
+    const handleOpenProject = async (id: string) => {
+        setIsProcessing(true);
+        try {
+            const project = await loadProject(id);
+            if (!project) throw new Error("Progetto non trovato.");
+            const sheet = project.sheets.find(s => s.id === project.activeSheetId) ?? project.sheets[0];
+            const [savedHistory, ...imageUrls] = await Promise.all([
+                loadProjectHistory(id, sheet.id),
+                ...project.sheets.map(s => blobToDataUrl(project.images[s.id])),
+            ]);
+            const { data } = sheet;
+
+            sheetImagesRef.current = Object.fromEntries(project.sheets.map((s, i) => [s.id, imageUrls[i]]));
+            sheetHistoriesRef.current = {};
+            sourcePdfRef.current = project.sourcePdf ?? null;
+            pdfDocumentRef.current = null;
+            setSheets(project.sheets);
+            setActiveSheetId(sheet.id);
+            setReportSettings(project.reportSettings);
+            setCategories(project.categories);
+            setActiveCategoryId(null);
+            setCategoryFilter('all');
+            setAttributeFields(project.attributeFields);
+            setPhotos(project.photos);
+            setDetailsFeature(null);
+            applyProjectData(data);
+            resetHistory(savedHistory);
+            setProjectName(project.name);
+            setImageSrc(sheetImagesRef.current[sheet.id]);
+            setCurrentProjectId(project.id);
+
+            setAppState(stateForData(data));
+        } catch (error) {
+            console.error("Failed to open project:", error);
+            alert("Impossibile aprire il progetto. I dati salvati potrebbero essere danneggiati.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    // Sheets with the data of the active one brought up to date
+    const currentSheets = () => sheets.map(sheet => sheet.id === activeSheetId ? { ...sheet, data: buildProjectData() } : sheet);
+
+    // Clears what belongs to the sheet being left: points being placed, edits and selections
+    const clearSheetInteraction = () => {
+        setDetailsFeature(null);
+        setCurrentAreaPoints([]);
+        setHoleTargetIndex(null);
+        setSelectedAreaIndices([]);
+        setCurrentMeasurePoints([]);
+        setPendingSegmentStart(null);
+        setPendingReference(null);
+        setRectifyCorners([]);
+        setLinePick(null);
+        setTempPoint(null);
+        setEditingIndex(null);
+        setEditingAreaIndex(null);
+        setEditingMeasurementIndex(null);
+    };
+
+    const handleSwitchSheet = async (sheetId: string, available: Sheet[] = sheets) => {
+        setIsSheetMenuOpen(false);
+        if (sheetId === activeSheetId || !activeSheetId) return;
+        const target = available.find(sheet => sheet.id === sheetId);
+        if (!target) return;
+
+        // Keep what was done on the sheet being left, with its undo history
+        commitHistory();
+        const data = buildProjectData();
+        sheetHistoriesRef.current[activeSheetId] = historyRef.current;
+        const updated = available.map(sheet => sheet.id === activeSheetId ? { ...sheet, data } : sheet);
+        if (currentProjectId) {
+            try {
+                await Promise.all([saveSheetData(currentProjectId, activeSheetId, data), saveProjectHistory(currentProjectId, activeSheetId, historyRef.current)]);
+            } catch (error) {
+                console.error("Failed to save sheet:", error);
+                setSaveStatus('error');
+            }
+        }
+
+        let targetHistory = sheetHistoriesRef.current[sheetId];
+        if (!targetHistory && currentProjectId) {
+            targetHistory = await loadProjectHistory(currentProjectId, sheetId).catch(() => emptyHistory());
+        }
+
+        clearSheetInteraction();
+        setSheets(updated);
+        setActiveSheetId(sheetId);
+        applyProjectData(target.data);
+        resetHistory(targetHistory ?? emptyHistory());
+        setNaturalSize(null);
+        hasFittedRef.current = false;
+        setImageSrc(sheetImagesRef.current[sheetId]);
+        setAppState(stateForData(target.data));
+    };
+
+    const loadSourcePdf = async () => {
+        if (!pdfDocumentRef.current && sourcePdfRef.current) {
+            pdfDocumentRef.current = await loadPdfDocument(sourcePdfRef.current);
+        }
+        return pdfDocumentRef.current;
+    };
+
+    // Data of a new PDF sheet. Pages with a single scale in their measure dictionaries start
+    // calibrated, waiting for the origin.
+    const pdfSheetData = async (pdf: PDFDocumentProxy, source: ArrayBuffer, pageNumber: number, scale: number, width: number, height: number): Promise<ProjectData> => {
+        const data = emptyProjectData();
+        const measures = await readPageMeasures(pdf, source, pageNumber).catch(error => {
+            console.warn("Unreadable PDF measure dictionaries:", error);
+            return [];
+        });
+        const scales = [...new Set(measures.map(measure => measure.metresPerUnit.toPrecision(9)))];
+        if (scales.length !== 1) return data;
+        const pixelsPerMeter = pixelsPerMeterAt(measures[0].metresPerUnit, scale);
+        return {
+            ...data,
+            calibrationReferences: [scaleReference(pixelsPerMeter, width, height)],
+            calibrationModel: 'scale',
+            calibration: scaleMatrix(pixelsPerMeter),
+        };
+    };
+
+    // Renders the chosen pages of the PDF in the picker, as a new project or as new sheets
+    const handleConfirmPdfPages = async (pageNumbers: number[], dpi: number) => {
+        if (!pdfPicker) return;
+        const { pdf, mode, file, name } = pdfPicker;
+        setPdfPicker(null);
+        setIsProcessing(true);
+        try {
+            const source = await (file ?? sourcePdfRef.current)?.arrayBuffer();
+            const pages: { sheet: Sheet; image: string }[] = [];
+            for (const pageNumber of pageNumbers) {
+                const { dataUrl, scale, width, height } = await renderPdfPage(pdf, pageNumber, dpiToScale(dpi));
+                const data = source ? await pdfSheetData(pdf, source, pageNumber, scale, width, height) : emptyProjectData();
+                pages.push({
+                    sheet: { id: createId(), name: sheetLabel(pageNumber, 0), pageNumber, renderScale: scale, data },
+                    image: dataUrl,
+                });
+            }
+
+            if (mode === 'new') {
+                await startNewProject(pages, name ?? 'Progetto senza nome', file);
+                pdfDocumentRef.current = pdf;
+                return;
+            }
+
+            for (const page of pages) {
+                sheetImagesRef.current[page.sheet.id] = page.image;
+                if (currentProjectId) await saveSheet(currentProjectId, page.sheet, await dataUrlToBlob(page.image));
+            }
+            await handleSwitchSheet(pages[0].sheet.id, [...sheets, ...pages.map(page => page.sheet)]);
+        } catch (error) {
+            console.error("Error rendering PDF pages:", error);
+            alert("Impossibile elaborare le pagine del PDF.");
+            if (mode === 'new') handleReset();
+        } finally {
+            setIsProcessing(false);
+        }
+    };
 
+    const handleAddPdfPages = async () => {
+        setIsSheetMenuOpen(false);
+        if (!sourcePdfRef.current) return;
+        setIsProcessing(true);
+        try {
+            const pdf = await loadSourcePdf();
+            setPdfPicker({ pdf, mode: 'add' });
+        } catch (error) {
+            console.error("Failed to load the project PDF:", error);
+            alert("Impossibile caricare il PDF del progetto.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    // Renders the active PDF page again at another resolution. Everything placed on the
+    // sheet, undo history included, is rescaled to the new pixels; the view keeps its framing.
+    const handleChangeSheetResolution = async (dpi: number) => {
+        setIsSheetMenuOpen(false);
+        if (!activeSheet || activeSheet.pageNumber === null || !activeSheet.renderScale || !sourcePdfRef.current) return;
+        setIsProcessing(true);
+        try {
+            const pdf = await loadSourcePdf();
+            const { dataUrl, scale } = await renderPdfPage(pdf, activeSheet.pageNumber, dpiToScale(dpi));
+            const factor = scale / activeSheet.renderScale;
+            if (Math.abs(factor - 1) < 1e-9) return;
+
+            commitHistory();
+            const data = scaleProjectData(buildProjectData(), factor);
+            const sheet: Sheet = { ...activeSheet, renderScale: scale, data };
+            clearSheetInteraction();
+            applyProjectData(data);
+            resetHistory(scaleProjectHistory(historyRef.current, factor));
+            setView(v => ({ ...v, zoom: v.zoom / factor }));
+            sheetImagesRef.current[sheet.id] = dataUrl;
+            setSheets(prev => prev.map(s => s.id === sheet.id ? sheet : s));
+            setImageSrc(dataUrl);
+            if (currentProjectId) await saveSheet(currentProjectId, sheet, await dataUrlToBlob(dataUrl));
+        } catch (error) {
+            console.error("Failed to render the page again:", error);
+            alert("Impossibile cambiare la risoluzione della pagina.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleDeleteSheet = async (sheetId: string) => {
+        const sheet = sheets.find(s => s.id === sheetId);
+        if (!sheet || sheets.length < 2) return;
+        if (!window.confirm(`Eliminare il foglio "${sheet.name}" con tutto ciò che contiene?`)) return;
+        const remaining = sheets.filter(s => s.id !== sheetId);
+        if (sheetId === activeSheetId) {
+            await handleSwitchSheet(remaining[0].id);
+        }
+        setSheets(prev => prev.filter(s => s.id !== sheetId));
+        delete sheetImagesRef.current[sheetId];
+        delete sheetHistoriesRef.current[sheetId];
+        if (currentProjectId) {
+            deleteSheet(currentProjectId, sheetId).catch(error => console.error("Failed to delete sheet:", error));
+        }
+    };
+
+    const handleStartRenamingProject = (project: ProjectSummary) => {
+        setRenamingProjectId(project.id);
+        setRenamingProjectName(project.name);
+    };
+
+    const handleSaveProjectName = async () => {
+        if (!renamingProjectId || !renamingProjectName.trim()) return;
+        try {
+            await renameProject(renamingProjectId, renamingProjectName.trim());
+        } catch (error) {
+            console.error("Failed to rename project:", error);
+        }
+        setRenamingProjectId(null);
+        setRenamingProjectName('');
+        refreshRecentProjects();
+    };
+
+    const handleDuplicateProject = async (id: string) => {
+        try {
+            await duplicateProject(id);
+        } catch (error) {
+            console.error("Failed to duplicate project:", error);
+            alert("Impossibile duplicare il progetto.");
+        }
+        refreshRecentProjects();
+    };
+
+    const handleDeleteProject = async (project: ProjectSummary) => {
+        if (!confirm(`Eliminare definitivamente il progetto "${project.name}"?`)) return;
+        try {
+            await deleteProject(project.id);
+        } catch (error) {
+            console.error("Failed to delete project:", error);
+            alert("Impossibile eliminare il progetto.");
+        }
+        refreshRecentProjects();
+    };
+
+    const handleImportProjectFile = async (file: File) => {
+        setIsProcessing(true);
+        try {
+            const project = await parseProjectFile(file);
+            await saveProject(project);
+            await handleOpenProject(project.id);
+        } catch (error) {
+            console.error("Failed to import project file:", error);
+            alert(error instanceof Error ? error.message : "Impossibile importare il progetto.");
+            if (fileInputRef.current) fileInputRef.current.value = "";
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleExportProjectFile = async () => {
+        if (!imageSrc || !activeSheetId) return;
+        setIsProcessing(true);
+        try {
+            const stored = currentProjectId ? await loadProject(currentProjectId) : null;
+            const now = Date.now();
+            const projectSheets = currentSheets();
+            const images = await Promise.all(projectSheets.map(sheet => dataUrlToBlob(sheetImagesRef.current[sheet.id])));
+            const blob = await serializeProject({
+                id: currentProjectId ?? createId(),
+                name: projectName || 'Progetto',
+                createdAt: stored?.createdAt ?? now,
+                updatedAt: now,
+                thumbnail: stored?.thumbnail ?? '',
+                sheets: projectSheets,
+                activeSheetId,
+                images: Object.fromEntries(projectSheets.map((sheet, i) => [sheet.id, images[i]])),
+                sourcePdf: sourcePdfRef.current ?? undefined,
+                reportSettings,
+                categories,
+                attributeFields,
+                photos,
+            });
+            downloadBlob(blob, `${projectName || 'progetto'}${MAPPA_EXTENSION}`);
+        } catch (error) {
+            console.error("Failed to export project file:", error);
+            alert("Impossibile esportare il progetto.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
 
-    const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
-        if (!file) return;
+        if (file) handleFile(file);
+    };
+
+    const handleUploadDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDraggingFile(true);
+    };
+
+    const handleUploadDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        const file = e.dataTransfer.files?.[0];
+        if (file && !isProcessing) handleFile(file);
+    };
+
+    const handleFile = async (file: File) => {
+        // Handle .mappa project files
+        if (isProjectFile(file)) {
+            await handleImportProjectFile(file);
+            return;
+        }
+
+        const name = file.name.replace(/\.[^.]+$/, '') || 'Progetto senza nome';
 
         // Handle Image files
         if (file.type.startsWith('image/')) {
             const reader = new FileReader();
             reader.onload = (e) => {
-                setImageSrc(e.target?.result as string);
-                setAppState(AppState.CALIBRATE_START);
+                const sheet: Sheet = { id: createId(), name: sheetLabel(null, 0), pageNumber: null, renderScale: null, data: emptyProjectData() };
+                startNewProject([{ sheet, image: e.target?.result as string }], name);
             };
             reader.readAsDataURL(file);
             return;
         }
 
-        // Handle PDF files
+        // Handle PDF files: the pages to map are picked in a dialog
         if (file.type === 'application/pdf') {
             setIsProcessing(true);
-            const reader = new FileReader();
-            reader.onload = async (e) => {
-                try {
-                    if (!window.pdfjsLib) {
-                       throw new Error("PDF.js library is not loaded.");
-                    }
-
-                    const arrayBuffer = e.target?.result as ArrayBuffer;
-                    const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-                    const page = await pdf.getPage(1); // Render the first page
-
-                    const scale = 2.5; // Render at high resolution for clarity
-                    const viewport = page.getViewport({ scale });
-                    
-                    const canvas = document.createElement('canvas');
-                    const context = canvas.getContext('2d');
-                    if (!context) throw new Error("Could not get canvas context.");
-                    
-                    canvas.height = viewport.height;
-                    canvas.width = viewport.width;
-
-                    await page.render({ canvasContext: context, viewport: viewport }).promise;
-                    
-                    setImageSrc(canvas.toDataURL('image/png'));
-                    setAppState(AppState.CALIBRATE_START);
-                } catch (error) {
-                    console.error("Error processing PDF:", error);
-                    alert("Impossibile caricare il PDF. Il file potrebbe essere corrotto o non supportato.");
-                    handleReset();
-                } finally {
-                    setIsProcessing(false);
-                }
-            };
-            reader.readAsArrayBuffer(file);
+            try {
+                const pdf = await loadPdfDocument(file);
+                setPdfPicker({ pdf, mode: 'new', file, name });
+            } catch (error) {
+                console.error("Error processing PDF:", error);
+                alert("Impossibile caricare il PDF. Il file potrebbe essere corrotto o non supportato.");
+                handleReset();
+            } finally {
+                setIsProcessing(false);
+            }
             return;
         }
         
-        alert("Tipo di file non supportato. Carica un'immagine o un PDF.");
+        alert(`Tipo di file non supportato. Carica un'immagine, un PDF o un progetto ${MAPPA_EXTENSION}.`);
     };
 
-    const getClickCoordinates = (e: MouseEvent<HTMLDivElement>): PixelCoords | null => {
-        if (!imageRef.current) return null;
-        const rect = imageRef.current.getBoundingClientRect();
+    // Screen pixels per natural image pixel. Used to keep overlay strokes, markers and
+    // labels at a constant on-screen size at every zoom level.
+    const displayScale = view.zoom;
+    const px = (screenPixels: number) => screenPixels / displayScale;
+
+    // Overlay content shared by the screen and the exports, with sizes in screen pixels of `unit` image pixels
+    const sceneInput = (unit: number, compass: SceneInput['compass']): SceneInput => ({
+        appState,
+        unit,
+        points,
+        areas,
+        measurements,
+        northRotation,
+        origin,
+        axes,
+        toPixel: calculatePixelCoords,
+        selectedAreaIndices,
+        currentAreaPoints,
+        currentMeasurePoints,
+        calibrationPoints,
+        calibrationReferences,
+        pendingSegmentStart,
+        pendingReference,
+        rectifyCorners,
+        linePickStart: linePick?.points[0] ?? null,
+        tempPoint,
+        snapVertex,
+        mousePixelCoords,
+        hitRadius: isCoarsePointer ? TOUCH_HIT_RADIUS : 0,
+        categories,
+        terrain: terrain && terrainModel ? { tin: terrain.showTin ? terrainModel.tin : null, contours: terrain.showContours ? terrainModel.contours : [] } : null,
+        compass,
+    });
+
+    // Distance, angle in degrees and midpoint in the viewport of the two fingers of a pinch
+    const pinchGeometry = () => {
+        const rect = viewportRef.current!.getBoundingClientRect();
+        const [a, b] = [...pointersRef.current.values()];
         return {
-            x: e.clientX - rect.left,
-            y: e.clientY - rect.top,
+            distance: Math.hypot(b.clientX - a.clientX, b.clientY - a.clientY) || 1,
+            angle: Math.atan2(b.clientY - a.clientY, b.clientX - a.clientX) * 180 / Math.PI,
+            midX: (a.clientX + b.clientX) / 2 - rect.left,
+            midY: (a.clientY + b.clientY) / 2 - rect.top,
         };
     };
 
-    const calculateDistance = (p1: PixelCoords, p2: PixelCoords) => {
-        return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+    const cancelLongPress = () => {
+        if (longPressRef.current) clearTimeout(longPressRef.current);
+        longPressRef.current = null;
+    };
+
+    // One pointer pans the view: left or middle mouse button, a finger or a pen. A second
+    // finger turns the gesture into a pinch, a finger held still opens the loupe.
+    const handleViewportPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        if (e.pointerType === 'mouse' && e.button !== 0 && e.button !== 1) return;
+        if (e.button === 1) e.preventDefault();
+        if (dragTarget) return;
+        pointerTypeRef.current = e.pointerType;
+        const pointers = pointersRef.current;
+        pointers.set(e.pointerId, { clientX: e.clientX, clientY: e.clientY });
+        if (pointers.size === 1) {
+            suppressClickRef.current = false;
+            const start = { pointerId: e.pointerId, pointerType: e.pointerType, clientX: e.clientX, clientY: e.clientY, view, moved: false, loupe: false };
+            panStartRef.current = start;
+            if (e.pointerType !== 'mouse') {
+                longPressRef.current = setTimeout(() => {
+                    longPressRef.current = null;
+                    if (panStartRef.current !== start || start.moved) return;
+                    start.loupe = true;
+                    setLoupe({ pointerId: start.pointerId, ...pointersRef.current.get(start.pointerId)! });
+                    navigator.vibrate?.(10);
+                }, LONG_PRESS_MS);
+            }
+        } else if (pointers.size === 2) {
+            cancelLongPress();
+            setLoupe(null);
+            panStartRef.current = null;
+            suppressClickRef.current = true;
+            pinchStartRef.current = { ...pinchGeometry(), view, rotating: false };
+        }
+        setIsPanning(true);
+    };
+
+    // Lifting the finger from the loupe places the point under its crosshair, like a click there
+    const handleViewportPointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        const start = panStartRef.current;
+        if (!start?.loupe || start.pointerId !== e.pointerId || !naturalSize) return;
+        const pointer = getClickCoordinates(e);
+        if (!pointer || pointer.x < 0 || pointer.y < 0 || pointer.x > naturalSize.width || pointer.y > naturalSize.height) return;
+        placeAt(snapCoordinates(pointer));
+    };
+
+    // A long touch would open the browser menu over the map
+    const handleViewportContextMenu = (e: MouseEvent<HTMLDivElement>) => {
+        if (pointerTypeRef.current !== 'mouse') e.preventDefault();
+    };
+
+    const handleZoomBy = (factor: number) => {
+        if (!viewportSize) return;
+        setView(v => zoomAt(v, factor, viewportSize.width / 2, viewportSize.height / 2));
+    };
+
+    const handleFitToScreen = () => {
+        if (!naturalSize || !viewportSize) return;
+        setView(fitTransform(naturalSize.width, naturalSize.height, viewportSize.width, viewportSize.height));
+    };
+
+    const handleActualSize = () => {
+        if (!viewportSize) return;
+        setView(v => zoomAt(v, 1 / v.zoom, viewportSize.width / 2, viewportSize.height / 2));
+    };
+
+    const handleToggleGps = () => {
+        if (isGpsOn) {
+            if (gpsTrack) handleToggleGpsTrack();
+            setGpsFix(null);
+            setGpsError(null);
+        } else {
+            setIsGpsFollowing(true);
+        }
+        setIsGpsOn(!isGpsOn);
+    };
+
+    const handleChangeGpsSource = (source: GpsSource) => {
+        setGpsFix(null);
+        setGpsSource(source);
+    };
+
+    // Adds a point at the GPS position through the usual naming step
+    const handleRecordGpsPoint = () => {
+        const position = gpsFix && gpsFixToPixel(gpsFix);
+        if (!position || appState !== AppState.READY) return;
+        setTempPoint(position.center);
+        setNewPointName(`Punto ${points.length + 1}`);
+        setAppState(AppState.NAMING_POINT);
+    };
+
+    // Starts recording a track, or ends it and saves it as a polyline measurement
+    const handleToggleGpsTrack = () => {
+        if (!gpsTrack) {
+            setGpsTrack(gpsFix ? [gpsFix] : []);
+            return;
+        }
+        const vertices = gpsTrack.flatMap(fix => {
+            const position = gpsFixToPixel(fix);
+            return position ? [{ name: '', pixelCoords: position.center, ...calculatePointData(position.center) }] : [];
+        });
+        setGpsTrack(null);
+        if (vertices.length < 2) return;
+        saveMeasurement('polyline', renumberVertices(vertices), `Traccia GPS ${measurements.filter(m => m.name.startsWith('Traccia GPS')).length + 1}`);
+    };
+
+    const handleResetRotation = () => {
+        if (!viewportSize) return;
+        setView(v => rotateAt(v, 0, viewportSize.width / 2, viewportSize.height / 2));
+    };
+
+    // Converts a pointer position to natural image pixel coordinates.
+    const getClickCoordinates = (e: { clientX: number, clientY: number }): PixelCoords | null => {
+        const img = imageRef.current;
+        const viewport = viewportRef.current;
+        if (!img || !viewport || !img.naturalWidth || !img.naturalHeight) return null;
+        const rect = viewport.getBoundingClientRect();
+        return screenToImage(viewRef.current, e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    // Moves a position onto the nearest end point of the PDF drawing, if one is close on screen
+    const snapCoordinates = (coords: PixelCoords): PixelCoords => {
+        if (!snapIndex || !isSnapEnabled) return coords;
+        return findSnapVertex(snapIndex, coords, SNAP_RADIUS / view.zoom) ?? coords;
     };
 
     const handleImageClick = (e: MouseEvent<HTMLDivElement>) => {
-        const coords = getClickCoordinates(e);
-        if (!coords) return;
+        if (suppressClickRef.current) {
+            suppressClickRef.current = false;
+            return;
+        }
+        const clicked = getClickCoordinates(e);
+        if (clicked) placeAt(snapCoordinates(clicked));
+    };
 
+    // What a click on the map does at `coords` in the current step
+    const placeAt = (coords: PixelCoords) => {
         switch (appState) {
             case AppState.CALIBRATE_START:
                 setCalibrationPoints([coords]);
@@ -254,12 +1375,31 @@ export const App: React.FC = () => {
                 const secondPoint = coords;
                 const firstPoint = calibrationPoints[0];
                 const pixelDistance = calculateDistance(firstPoint, secondPoint);
-                setPixelsPerMeter(pixelDistance / knownDistance);
+                setCalibration(scaleMatrix(pixelDistance / knownDistance));
                 setCalibrationPoints(prev => [...prev, secondPoint]);
+                // Keep the quick calibration as the first reference of the advanced mode
+                setCalibrationReferences([{ kind: 'segment', id: createId(), start: firstPoint, end: secondPoint, length: knownDistance, enabled: true }]);
+                setCalibrationModel('scale');
                 setAppState(AppState.SET_ORIGIN);
                 break;
+            case AppState.RECTIFY:
+                if (rectifyCorners.length < 4) setRectifyCorners(prev => [...prev, coords]);
+                break;
+            case AppState.CALIBRATE_MULTI:
+                if (pendingReference) break;
+                if (calibrationTool === 'control') {
+                    setPendingReference({ kind: 'control', pixel: coords });
+                } else if (!pendingSegmentStart) {
+                    setPendingSegmentStart(coords);
+                } else {
+                    setPendingReference({ kind: 'segment', start: pendingSegmentStart, end: coords });
+                    setPendingSegmentStart(null);
+                }
+                break;
             case AppState.SET_ORIGIN:
                 setOrigin(coords);
+                // Features mapped before a recalibration are measured again from the new origin
+                if (calibration) recalculateFeatures(calibration, coords);
                 setAppState(AppState.READY);
                 break;
             case AppState.READY:
@@ -278,89 +1418,601 @@ export const App: React.FC = () => {
                 };
                 setCurrentAreaPoints(prev => [...prev, newAreaPoint]);
                 break;
+            case AppState.PICK_LINE: {
+                if (!linePick || !origin || !calibration) break;
+                if (linePick.points.length === 0) {
+                    setLinePick({ ...linePick, points: [coords] });
+                    break;
+                }
+                const azimuth = lineAzimuth(linePick.points[0], coords, origin, calibration);
+                if (azimuth === null) break;
+                if (linePick.target === 'north') {
+                    setNorthRotation(normalizeDegrees(azimuth - linePick.bearing));
+                } else {
+                    // The line is the X axis of the grid, whose Y axis is 90° counter-clockwise from it
+                    const rotation = normalizeDegrees(azimuth - northRotation - 90);
+                    setCoordinateFrame(frame => frame.kind === 'grid' ? { ...frame, rotation } : { kind: 'grid', rotation, originX: 0, originY: 0 });
+                }
+                setLinePick(null);
+                setAppState(AppState.READY);
+                setActiveDialog('frame');
+                break;
+            }
+            case AppState.MEASURE_DISTANCE:
+            case AppState.MEASURE_POLYLINE:
+            case AppState.MEASURE_ANGLE: {
+                const vertex: Point = { name: `V${currentMeasurePoints.length + 1}`, pixelCoords: coords, ...calculatePointData(coords) };
+                const vertices = [...currentMeasurePoints, vertex];
+                if (vertices.length === REQUIRED_VERTICES[activeMeasureKind]) saveMeasurement(activeMeasureKind, vertices);
+                else setCurrentMeasurePoints(vertices);
+                break;
+            }
+        }
+    };
+    
+    const calculateRealCoords = (clickPos: PixelCoords): RealCoords => {
+        if (!origin || !calibration) return { x: 0, y: 0 };
+        return pixelToReal(clickPos, origin, calibration);
+    };
+
+    const calculatePixelCoords = (realCoords: RealCoords): PixelCoords | null => {
+        if (!origin || !calibration) return null;
+        return realToPixel(realCoords, origin, calibration);
+    };
+
+    // Image position of a GPS fix through the georeference and the calibration, with its
+    // accuracy as a radius in image pixels
+    const gpsFixToPixel = (fix: LocationFix): { center: PixelCoords, radius: number } | null => {
+        if (!georeference) return null;
+        const local = wgs84ToLocal(georeference, fix.position);
+        const center = local && calculatePixelCoords(local);
+        if (!local || !center) return null;
+        const edge = calculatePixelCoords({ x: local.x + fix.accuracy / georeferenceScale(georeference), y: local.y });
+        return { center, radius: edge ? Math.hypot(edge.x - center.x, edge.y - center.y) : 0 };
+    };
+
+    const gpsPosition = isGpsOn && gpsFix ? gpsFixToPixel(gpsFix) : null;
+    const gpsTrackPixels = (gpsTrack ?? []).flatMap(fix => gpsFixToPixel(fix)?.center ?? []);
+
+    // Recomputes the metric values of every saved feature for a new calibration or origin
+    const recalculateFeatures = (newCalibration: Matrix3, newOrigin: PixelCoords) => {
+        const recalculatePoint = (p: Point): Point => {
+            const realCoords = pixelToReal(p.pixelCoords, newOrigin, newCalibration);
+            const { distance, bearing } = calculateDistanceAndBearing(realCoords, northRotation);
+            return { ...p, realCoords, distance, bearing };
+        };
+        setPoints(prev => prev.map(recalculatePoint));
+        setAreas(prev => prev.map(area => withRealArea({ ...area, points: area.points.map(recalculatePoint), holes: area.holes.map(hole => hole.map(recalculatePoint)) })));
+        setMeasurements(prev => prev.map(m => ({ ...m, points: m.points.map(recalculatePoint) })));
+    };
+
+    const handleStartMultiCalibration = () => {
+        setStateBeforeCalibration(appState);
+        setPendingSegmentStart(null);
+        setPendingReference(null);
+        setAppState(AppState.CALIBRATE_MULTI);
+    };
+
+    const handleCancelMultiCalibration = () => {
+        setPendingSegmentStart(null);
+        setPendingReference(null);
+        setAppState(stateBeforeCalibration === AppState.CALIBRATE_END ? AppState.CALIBRATE_START : stateBeforeCalibration);
+    };
+
+    const handleAddCalibrationReference = (value: { length: number } | { x: number; y: number }) => {
+        if (!pendingReference) return;
+        const id = createId();
+        const reference: CalibrationReference = pendingReference.kind === 'segment' && 'length' in value
+            ? { kind: 'segment', id, start: pendingReference.start, end: pendingReference.end, length: value.length, enabled: true }
+            : { kind: 'control', id, pixel: (pendingReference as { pixel: PixelCoords }).pixel, real: value as RealCoords, enabled: true };
+        setCalibrationReferences(prev => [...prev, reference]);
+        setPendingReference(null);
+    };
+
+    const handleApplyMultiCalibration = () => {
+        if (!calibrationFit.ok) return;
+        applyCalibrationFit(calibrationFit.fit);
+    };
+
+    const handleOpenPdfScale = async () => {
+        if (!activeSheet || activeSheet.pageNumber === null || !sourcePdfRef.current) return;
+        setIsProcessing(true);
+        try {
+            const pdf = await loadSourcePdf();
+            setPdfMeasures(await readPageMeasures(pdf, await sourcePdfRef.current.arrayBuffer(), activeSheet.pageNumber));
+        } catch (error) {
+            console.warn("Unreadable PDF measure dictionaries:", error);
+            setPdfMeasures([]);
+        } finally {
+            setIsProcessing(false);
+        }
+        setActiveDialog('pdf-scale');
+    };
+
+    // Calibrates the active PDF sheet from a scale read from the file or typed in
+    const handleApplyPdfScale = (metresPerUnit: number) => {
+        if (!activeSheet?.renderScale || !naturalSize) return;
+        const reference = scaleReference(pixelsPerMeterAt(metresPerUnit, activeSheet.renderScale), naturalSize.width, naturalSize.height);
+        const result = fitCalibration([reference], 'scale');
+        if ('error' in result) {
+            alert(result.error);
+            return;
+        }
+        setActiveDialog(null);
+        setCalibrationReferences([reference]);
+        setCalibrationModel('scale');
+        applyCalibrationFit(result.fit);
+    };
+
+    const handleStartRectify = () => {
+        setStateBeforeCalibration(appState);
+        setRectifyCorners([]);
+        setAppState(AppState.RECTIFY);
+    };
+
+    const handleCancelRectify = () => {
+        setRectifyCorners([]);
+        setAppState(stateBeforeCalibration === AppState.CALIBRATE_END ? AppState.CALIBRATE_START : stateBeforeCalibration);
+    };
+
+    // The corners are clicked counter-clockwise from the bottom left, matching a rectangle
+    // from (0, 0) to (width, height) with the Y axis pointing up
+    const handleApplyRectify = () => {
+        if (rectifyCorners.length !== 4 || rectifyWidth <= 0 || rectifyHeight <= 0) return;
+        const known: RealCoords[] = [
+            { x: 0, y: 0 },
+            { x: rectifyWidth, y: 0 },
+            { x: rectifyWidth, y: rectifyHeight },
+            { x: 0, y: rectifyHeight },
+        ];
+        const references: CalibrationReference[] = rectifyCorners.map((pixel, i) => ({ kind: 'control', id: createId(), pixel, real: known[i], enabled: true }));
+        const result = fitCalibration(references, 'projective');
+        if ('error' in result) {
+            alert(result.error);
+            return;
+        }
+        setCalibrationReferences(references);
+        setCalibrationModel('projective');
+        setRectifyCorners([]);
+        applyCalibrationFit(result.fit);
+    };
+
+    const handleExportRectifiedImage = async () => {
+        if (!imageSrc || !calibration || !naturalSize || !pixelsPerMeter) return;
+        // Export the region covered by the control points, or the whole image without them
+        const controls = calibrationReferences.filter(r => r.kind === 'control' && r.enabled).map(r => (r as { real: RealCoords }).real);
+        const plane = controls.length >= 2
+            ? controls
+            : [{ x: 0, y: 0 }, { x: naturalSize.width, y: 0 }, { x: 0, y: naturalSize.height }, { x: naturalSize.width, y: naturalSize.height }].map(c => applyMatrix(calibration, c));
+        const min = { x: Math.min(...plane.map(p => p.x)), y: Math.min(...plane.map(p => p.y)) };
+        const max = { x: Math.max(...plane.map(p => p.x)), y: Math.max(...plane.map(p => p.y)) };
+        setIsProcessing(true);
+        try {
+            const blob = await renderRectifiedImage(imageSrc, calibration, min, max, pixelsPerMeter);
+            downloadBlob(blob, `${getExportBaseName()}_rettificata.png`);
+        } catch (error) {
+            console.error("Failed to export rectified image:", error);
+            alert(error instanceof Error ? error.message : "Impossibile esportare l'immagine rettificata.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const applyCalibrationFit = (fit: CalibrationFit) => {
+        const { matrix, hasControlPoints } = fit;
+        // With control points the surveyed coordinates define the frame, so the origin is their (0, 0)
+        const inverse = invertMatrix(matrix);
+        const newOrigin = hasControlPoints && inverse ? applyMatrix(inverse, { x: 0, y: 0 }) : origin;
+        setCalibration(matrix);
+        setCalibrationPoints([]);
+        setPendingSegmentStart(null);
+        setPendingReference(null);
+        if (newOrigin) {
+            setOrigin(newOrigin);
+            recalculateFeatures(matrix, newOrigin);
+            setAppState(AppState.READY);
+        } else {
+            setAppState(AppState.SET_ORIGIN);
+        }
+    };
+
+    const calculatePointData = (pixelCoords: PixelCoords) => {
+        const realCoords = calculateRealCoords(pixelCoords);
+        const { distance, bearing } = calculateDistanceAndBearing(realCoords, northRotation);
+        return { realCoords, distance, bearing };
+    };
+    
+    const handleSavePoint = () => {
+        if (!tempPoint || !newPointName.trim()) return;
+        const { realCoords, distance, bearing } = calculatePointData(tempPoint);
+        const z = parseLocaleNumber(newPointElevation);
+        const newPoint: Point = {
+            id: createId(),
+            name: newPointName.trim(),
+            pixelCoords: tempPoint,
+            realCoords,
+            distance,
+            bearing,
+            ...(z === null ? {} : { z }),
+            categoryId: activeCategoryId,
+            details: emptyDetails(),
+        };
+        setPoints([...points, newPoint]);
+        handleCancelNaming();
+    };
+
+    // Places a point given by typed or imported coordinates, keeping the exact metric values
+    const createPointFromEntry = (entry: CoordinateEntry): Point | null => {
+        const realCoords = fromFrame(entry.realCoords);
+        const pixelCoords = calculatePixelCoords(realCoords);
+        if (!pixelCoords) return null;
+        const { distance, bearing } = calculateDistanceAndBearing(realCoords, northRotation);
+        return { name: entry.name, pixelCoords, realCoords, distance, bearing, ...(entry.z === undefined ? {} : { z: entry.z }) };
+    };
+
+    const isOutsideImage = (p: Point) =>
+        !!naturalSize && (p.pixelCoords.x < 0 || p.pixelCoords.y < 0 || p.pixelCoords.x > naturalSize.width || p.pixelCoords.y > naturalSize.height);
+
+    const handleAddCoordinatePoint = (entry: CoordinateEntry) => {
+        const placed = createPointFromEntry(entry);
+        if (!placed) return;
+        const newPoint = { ...placed, id: createId(), categoryId: activeCategoryId, details: emptyDetails() };
+        setPoints(prev => [...prev, newPoint]);
+        setActiveDialog(null);
+        if (isOutsideImage(newPoint)) {
+            alert(`Il punto "${newPoint.name}" cade fuori dall'immagine.`);
         }
     };
-    
-    const calculateRealCoords = (clickPos: PixelCoords): RealCoords => {
-        if (!origin || !pixelsPerMeter) return { x: 0, y: 0 };
-        const x_pixels = clickPos.x - origin.x;
-        const y_pixels = origin.y - clickPos.y; // Y is inverted in screen coordinates
-        return {
-            x: x_pixels / pixelsPerMeter,
-            y: y_pixels / pixelsPerMeter,
-        };
+
+    const handleImportCoordinatePoints = (entries: CoordinateEntry[]) => {
+        const newPoints = entries.map(createPointFromEntry).filter((p): p is Point => p !== null).map(p => ({ ...p, id: createId(), categoryId: activeCategoryId, details: emptyDetails() }));
+        setPoints(prev => [...prev, ...newPoints]);
+        setActiveDialog(null);
+        setActiveTab('points');
+        const outside = newPoints.filter(isOutsideImage).length;
+        if (outside > 0) {
+            alert(`${newPoints.length} punti importati, di cui ${outside} fuori dall'immagine.`);
+        }
+    };
+
+    const handleCancelNaming = () => {
+        setTempPoint(null);
+        setNewPointName('');
+        setNewPointElevation('');
+        setNewAreaName('');
+        if (appState === AppState.NAMING_POINT) {
+            setAppState(AppState.READY);
+        }
+        if(appState === AppState.NAMING_AREA) {
+            // Don't discard points, just go back to defining
+            setAppState(AppState.DEFINING_AREA);
+        }
+    };
+    
+    // Locked categories protect their points and areas from edits and deletion
+    const isLocked = (feature: { categoryId?: string | null }) => findCategory(categories, feature.categoryId)?.locked ?? false;
+    const matchesCategoryFilter = (feature: { categoryId?: string | null }) =>
+        categoryFilter === 'all' || (categoryFilter === 'none' ? !findCategory(categories, feature.categoryId) : feature.categoryId === categoryFilter);
+
+    // Categories are shared by every sheet and saved at once, outside the undo history
+    const handleChangeCategories = (next: Category[]) => {
+        setCategories(next);
+        if (currentProjectId) {
+            saveCategories(currentProjectId, next).catch(error => console.error("Failed to save categories:", error));
+        }
+        const ids = new Set(next.map(c => c.id));
+        const orphan = (id: string | null | undefined) => !!id && !ids.has(id);
+        if (points.some(p => orphan(p.categoryId))) setPoints(prev => prev.map(p => orphan(p.categoryId) ? { ...p, categoryId: null } : p));
+        if (areas.some(a => orphan(a.categoryId))) setAreas(prev => prev.map(a => orphan(a.categoryId) ? { ...a, categoryId: null } : a));
+        if (orphan(activeCategoryId)) setActiveCategoryId(null);
+        if (categoryFilter !== 'all' && categoryFilter !== 'none' && orphan(categoryFilter)) setCategoryFilter('all');
+    };
+
+    const handleSetPointCategory = (index: number, categoryId: string | null) => {
+        setPoints(points.map((p, i) => i === index ? { ...p, categoryId } : p));
+    };
+
+    // The model is set up with the default settings the first time the dialog is opened
+    // Closes the frame dialog until the two points of the line are clicked
+    const handleStartLinePick = (target: 'north' | 'grid', bearing: number) => {
+        setLinePick({ target, bearing, points: [] });
+        setActiveDialog(null);
+        setAppState(AppState.PICK_LINE);
+    };
+
+    const handleCancelLinePick = () => {
+        setLinePick(null);
+        setAppState(AppState.READY);
+        setActiveDialog('frame');
+    };
+
+    const handleOpenTerrain = () => {
+        if (!terrain) setTerrain(defaultTerrainSettings());
+        setActiveDialog('terrain');
+    };
+
+    // Spot height of a point, null to clear it
+    const handleSetPointElevation = (index: number, z: number | null) => {
+        setPoints(points.map((p, i) => {
+            if (i !== index) return p;
+            const { z: _previous, ...rest } = p;
+            return z === null ? rest : { ...rest, z };
+        }));
+    };
+
+    const handleSetAreaCategory = (index: number, categoryId: string | null) => {
+        setAreas(areas.map((a, i) => i === index ? { ...a, categoryId } : a));
+    };
+
+    // Keeps the details panel on the same feature when an earlier one of its kind is deleted
+    const shiftDetailsFeature = (kind: FeatureRef['kind'], deleted: number) => {
+        setDetailsFeature(prev => {
+            if (!prev || prev.kind !== kind || prev.index < deleted) return prev;
+            return prev.index === deleted ? null : { kind, index: prev.index - 1 };
+        });
+    };
+
+    // Attribute fields are shared by every sheet and saved at once, outside the undo history.
+    // Values of deleted fields are dropped from the open sheet; other sheets ignore them.
+    const handleChangeAttributeFields = (next: AttributeField[]) => {
+        setAttributeFields(next);
+        if (currentProjectId) {
+            saveAttributeFields(currentProjectId, next).catch(error => console.error("Failed to save attribute fields:", error));
+        }
+        const ids = new Set(next.map(f => f.id));
+        const prune = <T extends { details?: FeatureDetails }>(feature: T): T => {
+            if (!feature.details || Object.keys(feature.details.attributes).every(id => ids.has(id))) return feature;
+            const attributes = Object.fromEntries(Object.entries(feature.details.attributes).filter(([id]) => ids.has(id)));
+            return { ...feature, details: { ...feature.details, attributes } };
+        };
+        if (attributeFields.some(f => !ids.has(f.id))) {
+            setPoints(prev => prev.map(prune));
+            setAreas(prev => prev.map(prune));
+        }
+    };
+
+    const updateDetails = (feature: FeatureRef, update: (details: FeatureDetails) => FeatureDetails) => {
+        if (feature.kind === 'point') {
+            setPoints(prev => prev.map((p, i) => i === feature.index ? { ...p, details: update(featureDetails(p)) } : p));
+        } else {
+            setAreas(prev => prev.map((a, i) => i === feature.index ? { ...a, details: update(featureDetails(a)) } : a));
+        }
+    };
+
+    // Photos are stored with the project as soon as they are attached
+    const handleAddPhotos = async (feature: FeatureRef, files: File[]) => {
+        setIsProcessing(true);
+        try {
+            const added: Record<string, Blob> = {};
+            for (const file of files) {
+                const photoId = createId();
+                added[photoId] = await preparePhoto(file);
+                if (currentProjectId) await savePhoto(currentProjectId, photoId, added[photoId]);
+            }
+            setPhotos(prev => ({ ...prev, ...added }));
+            updateDetails(feature, details => ({ ...details, photoIds: [...details.photoIds, ...Object.keys(added)] }));
+        } catch (error) {
+            console.error("Failed to attach photos:", error);
+            alert(error instanceof Error ? error.message : "Impossibile aggiungere la foto.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleDeletePoint = (index: number) => {
+        setPoints(points.filter((_, i) => i !== index));
+        shiftDetailsFeature('point', index);
+    };
+    
+    const handleDeleteArea = (index: number) => {
+        setAreas(areas.filter((_, i) => i !== index));
+        shiftDetailsFeature('area', index);
+        setSelectedAreaIndices(prev => prev.filter(i => i !== index).map(i => i > index ? i - 1 : i));
+        // The hole being drawn would end up on the wrong area
+        if (holeTargetIndex !== null) handleCancelAreaMode();
+    };
+
+    const handleStartMeasuring = (kind: MeasurementKind) => {
+        setCurrentMeasurePoints([]);
+        setAppState(MEASURE_MODES[kind]);
+    };
+
+    const handleStopMeasuring = () => {
+        setCurrentMeasurePoints([]);
+        setAppState(AppState.READY);
     };
 
-    const calculateDistanceAndBearing = (realCoords: RealCoords, rotation: number) => {
-        const distance = Math.sqrt(realCoords.x ** 2 + realCoords.y ** 2);
-        
-        // Calculate bearing in degrees from North (positive Y axis)
-        const angleRad = Math.atan2(realCoords.x, realCoords.y);
-        let angleDeg = angleRad * (180 / Math.PI);
-        
-        // Adjust for compass rotation and normalize to 0-360
-        let bearing = (angleDeg - rotation + 360) % 360;
+    // Saves a completed measurement with a default name; the tool stays active for the next one
+    const saveMeasurement = (kind: MeasurementKind, vertices: Point[], name?: string) => {
+        setMeasurements(prev => [...prev, {
+            name: name ?? `${MEASUREMENT_LABELS[kind]} ${prev.filter(m => m.kind === kind).length + 1}`,
+            kind,
+            points: vertices,
+        }]);
+        setCurrentMeasurePoints([]);
+        setActiveTab('measurements');
+    };
 
-        return { distance, bearing };
+    const handleFinishPolyline = () => {
+        if (currentMeasurePoints.length < 2) return;
+        saveMeasurement('polyline', currentMeasurePoints);
     };
 
-    const calculatePointData = (pixelCoords: PixelCoords) => {
-        const realCoords = calculateRealCoords(pixelCoords);
-        const { distance, bearing } = calculateDistanceAndBearing(realCoords, northRotation);
-        return { realCoords, distance, bearing };
+    const handleDeleteMeasurement = (index: number) => {
+        setMeasurements(measurements.filter((_, i) => i !== index));
     };
-    
-    const handleSavePoint = () => {
-        if (!tempPoint || !newPointName.trim()) return;
-        const { realCoords, distance, bearing } = calculatePointData(tempPoint);
-        const newPoint: Point = {
-            name: newPointName.trim(),
-            pixelCoords: tempPoint,
-            realCoords,
-            distance,
-            bearing,
-        };
-        setPoints([...points, newPoint]);
-        handleCancelNaming();
+
+    const startDrag = (target: DragTarget) => (e: React.PointerEvent) => {
+        if (appState !== AppState.READY || e.button !== 0 || pointersRef.current.size > 0) return;
+        // Keep the viewport from starting a pan
+        e.stopPropagation();
+        pointerTypeRef.current = e.pointerType;
+        suppressClickRef.current = false;
+        dragStartRef.current = { pointerId: e.pointerId, clientX: e.clientX, clientY: e.clientY, moved: false };
+        setDragTarget(target);
     };
 
-    const handleCancelNaming = () => {
-        setTempPoint(null);
-        setNewPointName('');
-        setNewAreaName('');
-        if (appState === AppState.NAMING_POINT) {
-            setAppState(AppState.READY);
+    // A click on a handle must not also place a new point. A point clicked without
+    // dragging it shows its details.
+    const handleHandleClick = (target: DragTarget) => (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (!suppressClickRef.current && target.kind === 'point') setDetailsFeature({ kind: 'point', index: target.index });
+        suppressClickRef.current = false;
+    };
+
+    const handleFeatureClick = (feature: FeatureRef) => (e: React.MouseEvent) => {
+        if (appState !== AppState.READY || suppressClickRef.current) return;
+        e.stopPropagation();
+        setDetailsFeature(feature);
+    };
+
+    const moveFeature = (target: DragTarget, coords: PixelCoords) => {
+        if (target.kind === 'origin') {
+            setOrigin(coords);
+            if (calibration) recalculateFeatures(calibration, coords);
+            return;
         }
-        if(appState === AppState.NAMING_AREA) {
-            // Don't discard points, just go back to defining
-            setAppState(AppState.DEFINING_AREA);
+        const moved = (p: Point): Point => ({ ...p, pixelCoords: coords, ...calculatePointData(coords) });
+        if (target.kind === 'point') {
+            setPoints(prev => prev.map((p, i) => i === target.index ? moved(p) : p));
+        } else if (target.kind === 'area-vertex') {
+            const moveIn = (ring: Point[]) => ring.map((v, j) => j === target.vertex ? moved(v) : v);
+            setAreas(prev => prev.map((area, i) => {
+                if (i !== target.index) return area;
+                return withRealArea(target.hole === undefined
+                    ? { ...area, points: moveIn(area.points) }
+                    : { ...area, holes: area.holes.map((hole, h) => h === target.hole ? moveIn(hole) : hole) });
+            }));
+        } else {
+            setMeasurements(prev => prev.map((m, i) => i === target.index
+                ? { ...m, points: m.points.map((v, j) => j === target.vertex ? moved(v) : v) }
+                : m));
         }
     };
-    
-    const handleDeletePoint = (index: number) => {
-        setPoints(points.filter((_, i) => i !== index));
+
+    // Clicking an area edge inserts a vertex on it, at the point nearest to the click
+    const handleAreaEdgeClick = (areaIndex: number, edgeIndex: number) => (e: React.MouseEvent) => {
+        if (appState !== AppState.READY || suppressClickRef.current) return;
+        e.stopPropagation();
+        const coords = getClickCoordinates(e);
+        if (!coords) return;
+        setAreas(prev => prev.map((area, i) => {
+            if (i !== areaIndex) return area;
+            const a = area.points[edgeIndex].pixelCoords;
+            const b = area.points[(edgeIndex + 1) % area.points.length].pixelCoords;
+            const onEdge = closestPointOnSegment(coords, a, b);
+            const vertex: Point = { name: '', pixelCoords: onEdge, ...calculatePointData(onEdge) };
+            const vertices = renumberVertices([...area.points.slice(0, edgeIndex + 1), vertex, ...area.points.slice(edgeIndex + 1)]);
+            return withRealArea({ ...area, points: vertices });
+        }));
     };
-    
-    const handleDeleteArea = (index: number) => {
-        setAreas(areas.filter((_, i) => i !== index));
+
+    // Events of the overlay handles: drag to move, click an edge to insert a vertex,
+    // double or right click a vertex to delete it, click a feature to see its details
+    const overlayHandleProps = (handle: SceneHandle): React.SVGProps<SVGElement> => {
+        if (handle.kind === 'edge') {
+            return { style: { pointerEvents: 'stroke', cursor: 'copy' }, onClick: handleAreaEdgeClick(handle.area, handle.edge) };
+        }
+        if (handle.kind === 'select') {
+            return {
+                style: appState === AppState.READY ? { pointerEvents: handle.feature.kind === 'area' ? 'fill' : 'all', cursor: 'pointer' } : undefined,
+                onClick: handleFeatureClick(handle.feature),
+            };
+        }
+        const { target } = handle;
+        return {
+            style: appState === AppState.READY ? HANDLE_STYLE : undefined,
+            onPointerDown: startDrag(target),
+            onClick: handleHandleClick(target),
+            ...(target.kind === 'area-vertex' || target.kind === 'measurement-vertex'
+                ? { onDoubleClick: handleDeleteVertex(target), onContextMenu: handleDeleteVertex(target) }
+                : {}),
+        };
+    };
+
+    // Double click or right click on a vertex removes it, as long as the shape stays valid.
+    // On touch screens only a double tap does: a long touch is the start of a drag.
+    const handleDeleteVertex = (target: Extract<DragTarget, { vertex: number }>) => (e: React.MouseEvent) => {
+        if (appState !== AppState.READY) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.type === 'contextmenu' && pointerTypeRef.current !== 'mouse') return;
+        if (target.kind === 'area-vertex') {
+            const removeFrom = (ring: Point[]) => ring.length <= 3 ? ring : renumberVertices(ring.filter((_, j) => j !== target.vertex));
+            setAreas(prev => prev.map((area, i) => {
+                if (i !== target.index) return area;
+                return withRealArea(target.hole === undefined
+                    ? { ...area, points: removeFrom(area.points) }
+                    : { ...area, holes: area.holes.map((hole, h) => h === target.hole ? removeFrom(hole) : hole) });
+            }));
+        } else {
+            setMeasurements(prev => prev.map((m, i) => i === target.index && m.kind === 'polyline' && m.points.length > 2
+                ? { ...m, points: renumberVertices(m.points.filter((_, j) => j !== target.vertex)) }
+                : m));
+        }
     };
 
+    // Closes the current project and returns to the upload screen. The project itself
+    // stays in the local store and can be reopened from the recent projects list.
     const handleReset = () => {
+        if (currentProjectId && activeSheetId) {
+            Promise.all([saveSheetData(currentProjectId, activeSheetId, buildProjectData()), saveProjectHistory(currentProjectId, activeSheetId, historyRef.current)])
+                .catch(error => console.error("Failed to save project before closing:", error))
+                .finally(refreshRecentProjects);
+        }
+        resetHistory(emptyHistory());
+        setIsGpsOn(false);
+        setGpsFix(null);
+        setGpsTrack(null);
+        setCurrentProjectId(null);
+        setProjectName('');
+        setSaveStatus('idle');
         setImageSrc(null);
+        setSheets([]);
+        setActiveSheetId(null);
+        setReportSettings(null);
+        setIsSheetMenuOpen(false);
+        setPdfPicker(null);
+        sheetImagesRef.current = {};
+        sheetHistoriesRef.current = {};
+        sourcePdfRef.current = null;
+        pdfDocumentRef.current = null;
         setPoints([]);
         setAreas([]);
+        setMeasurements([]);
+        setTerrain(null);
+        setCoordinateFrame(defaultCoordinateFrame());
+        setLinePick(null);
+        setCurrentMeasurePoints([]);
         setCalibrationPoints([]);
-        setPixelsPerMeter(null);
+        setCalibration(null);
+        setCalibrationReferences([]);
+        setCalibrationModel('scale');
+        setPendingSegmentStart(null);
+        setPendingReference(null);
+        setRectifyCorners([]);
         setOrigin(null);
         setTempPoint(null);
         setNewPointName('');
         setNewAreaName('');
         setCurrentAreaPoints([]);
+        setHoleTargetIndex(null);
+        setSelectedAreaIndices([]);
+        setCategories([]);
+        setActiveCategoryId(null);
+        setCategoryFilter('all');
+        setAttributeFields([]);
+        setPhotos({});
+        setDetailsFeature(null);
         setKnownDistance(10);
         setEditingIndex(null);
         setEditingAreaIndex(null);
+        setEditingMeasurementIndex(null);
         setNorthRotation(0);
-        setImageDimensions(null);
+        setGeoreference(null);
+        setNaturalSize(null);
+        setView({ zoom: 1, panX: 0, panY: 0, rotation: 0 });
+        hasFittedRef.current = false;
         if (fileInputRef.current) {
             fileInputRef.current.value = "";
         }
@@ -378,23 +2030,50 @@ export const App: React.FC = () => {
             case AppState.SET_ORIGIN:
                 return { icon: <Target size={20} />, title: "Passo 2: Imposta Origine", description: "Clicca sulla mappa per definire il punto di origine (0, 0)." };
             case AppState.READY:
-                return { icon: <MapPin size={20} />, title: "Passo 3: Mappa e Orienta", description: "Clicca per marcare un punto, crea un'area o regola la bussola per impostare il Nord." };
+                return { icon: <MapPin size={20} />, title: "Passo 3: Mappa e Orienta", description: "Clicca per marcare un punto, crea un'area o regola la bussola per impostare il Nord. Trascina punti e vertici per spostarli, clicca il lato di un'area per aggiungere un vertice, doppio clic per eliminarlo." };
             case AppState.NAMING_POINT:
                 return { icon: <MapPin size={20} />, title: "Salva Punto", description: "Inserisci un nome per il tuo nuovo punto e salvalo." };
             case AppState.DEFINING_AREA:
+                if (holeTargetIndex !== null) {
+                    return { icon: <Shapes size={20} />, title: "Aggiungi Foro", description: `Disegna il foro all'interno di "${areas[holeTargetIndex]?.name}". Minimo 3 vertici.` };
+                }
                 return { icon: <Shapes size={20} />, title: "Crea Area", description: "Clicca per aggiungere vertici. Minimo 3 per salvare." };
             case AppState.NAMING_AREA:
                  return { icon: <Shapes size={20} />, title: "Salva Area", description: "Inserisci un nome per la tua nuova area e salvala." };
+            case AppState.RECTIFY:
+                return { icon: <Scan size={20} />, title: "Correzione Prospettica", description: rectifyCorners.length < 4
+                    ? `Clicca l'angolo ${['in basso a sinistra', 'in basso a destra', 'in alto a destra', 'in alto a sinistra'][rectifyCorners.length]} di un rettangolo di dimensioni note.`
+                    : "Inserisci larghezza e altezza del rettangolo e applica." };
+            case AppState.MEASURE_DISTANCE:
+                return { icon: <MoveHorizontal size={20} />, title: "Misura Distanza", description: currentMeasurePoints.length === 0 ? "Clicca il punto INIZIALE." : "Clicca il punto FINALE." };
+            case AppState.MEASURE_POLYLINE:
+                return { icon: <Spline size={20} />, title: "Misura Polilinea", description: currentMeasurePoints.length < 2
+                    ? "Clicca per aggiungere vertici, poi premi Termina."
+                    : `Lunghezza attuale: ${polylineLength(currentMeasurePoints.map(p => p.realCoords)).toFixed(2)} m. Premi Termina per salvare.` };
+            case AppState.MEASURE_ANGLE:
+                return { icon: <DraftingCompass size={20} />, title: "Misura Angolo", description: ["Clicca un punto sul PRIMO lato.", "Clicca il VERTICE dell'angolo.", "Clicca un punto sul SECONDO lato."][currentMeasurePoints.length] };
+            case AppState.PICK_LINE:
+                return { icon: <Navigation size={20} />, title: linePick?.target === 'grid' ? "Asse X della Griglia" : "Nord da una Linea", description: linePick?.points.length
+                    ? "Clicca il SECONDO punto della linea."
+                    : linePick?.target === 'grid'
+                        ? "Clicca il PRIMO punto di una linea parallela all'asse X della griglia, nel verso positivo."
+                        : `Clicca il PRIMO punto di una linea con azimut noto di ${linePick?.bearing ?? 0}°.` };
+            case AppState.CALIBRATE_MULTI:
+                return { icon: <Ruler size={20} />, title: "Calibrazione Avanzata", description: calibrationTool === 'segment'
+                    ? (pendingSegmentStart ? "Clicca l'estremo FINALE del segmento." : "Clicca l'estremo INIZIALE di un segmento di lunghezza nota.")
+                    : "Clicca un punto di controllo di cui conosci le coordinate." };
             default:
                 return { icon: <MousePointerClick size={20} />, title: "Caricamento...", description: "" };
         }
     };
 
-    const handleImageMouseMove = (e: MouseEvent<HTMLDivElement>) => {
-        const coords = getClickCoordinates(e);
+    const handleViewportPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        const pointer = getClickCoordinates(e);
+        const coords = pointer && snapCoordinates(pointer);
         setMousePixelCoords(coords);
+        setSnapVertex(coords !== pointer ? coords : null);
 
-        if (appState < AppState.READY) {
+        if (!origin || !calibration) {
              setMouseRealCoords(null);
              return;
         }
@@ -404,24 +2083,21 @@ export const App: React.FC = () => {
         }
     };
     
-    const calculatePolygonArea = (coords: RealCoords[]): number => {
-        let area = 0;
-        const n = coords.length;
-        if (n < 3) return 0;
-        for (let i = 0; i < n; i++) {
-            const j = (i + 1) % n;
-            area += coords[i].x * coords[j].y;
-            area -= coords[j].x * coords[i].y;
-        }
-        return Math.abs(area / 2);
+    const handleStartAreaMode = () => {
+        setHoleTargetIndex(null);
+        setAppState(AppState.DEFINING_AREA);
+        setCurrentAreaPoints([]);
     };
 
-    const handleStartAreaMode = () => {
+    // Draws an inner ring (hole) for an existing area, reusing the area drawing mode
+    const handleStartHoleMode = (areaIndex: number) => {
+        setHoleTargetIndex(areaIndex);
         setAppState(AppState.DEFINING_AREA);
         setCurrentAreaPoints([]);
     };
 
     const handleCancelAreaMode = () => {
+        setHoleTargetIndex(null);
         setAppState(AppState.READY);
         setCurrentAreaPoints([]);
     };
@@ -431,21 +2107,113 @@ export const App: React.FC = () => {
             alert("Sono necessari almeno 3 punti per definire un'area.");
             return;
         }
+        const target = holeTargetIndex !== null ? areas[holeTargetIndex] : undefined;
+        const error = validateNewRing(currentAreaPoints, target?.points, target?.holes);
+        if (error) {
+            alert(error);
+            return;
+        }
+        if (holeTargetIndex !== null) {
+            setAreas(prev => prev.map((area, i) => i === holeTargetIndex ? withRealArea({ ...area, holes: [...area.holes, [...currentAreaPoints]] }) : area));
+            handleCancelAreaMode();
+            return;
+        }
         setNewAreaName(`Area ${areas.length + 1}`);
         setAppState(AppState.NAMING_AREA);
     };
 
+    const handleDeleteHole = (areaIndex: number, holeIndex: number) => {
+        setAreas(prev => prev.map((area, i) => i === areaIndex ? withRealArea({ ...area, holes: area.holes.filter((_, h) => h !== holeIndex) }) : area));
+    };
+
+    const toggleAreaSelection = (index: number) => {
+        setSelectedAreaIndices(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+    };
+
+    const areaToPolygon = (area: Area): PolygonRings => ({
+        outer: area.points.map(p => p.realCoords),
+        holes: area.holes.map(hole => hole.map(p => p.realCoords)),
+    });
+
+    // Turns the polygons computed in metres into areas, placing their vertices on the image.
+    // They keep the category of the sources when all of them share one.
+    const polygonsToAreas = (polygons: PolygonRings[], derivation: AreaDerivation, sources: Area[]): Area[] => {
+        const categoryId = sources.every(a => a.categoryId === sources[0].categoryId) ? sources[0].categoryId : null;
+        const baseName = derivedAreaName(derivation);
+        const toVertices = (ring: RealCoords[]) => ring.map((realCoords, i) => createPointFromEntry({ name: `V${i + 1}`, realCoords }));
+        return polygons.flatMap((polygon, index) => {
+            const points = toVertices(polygon.outer);
+            const holes = polygon.holes.map(toVertices);
+            if ([points, ...holes].some(ring => ring.some(p => p === null))) return [];
+            return [withRealArea({
+                name: polygons.length > 1 ? `${baseName} #${index + 1}` : baseName,
+                points: points as Point[],
+                holes: holes as Point[][],
+                realArea: 0,
+                derivation,
+                categoryId,
+                details: emptyDetails(),
+            })];
+        });
+    };
+
+    // Operations need valid rings: crossing sides leave inside and outside undefined
+    const selectedAreasForOperation = (): Area[] | null => {
+        const selected = selectedAreaIndices.map(i => areas[i]).filter(Boolean);
+        const invalid = selected.find(area => computeAreaMetrics(area).crossings > 0);
+        if (invalid) {
+            alert(`L'area "${invalid.name}" ha lati che si intersecano: correggila prima di usarla in un'operazione.`);
+            return null;
+        }
+        return selected;
+    };
+
+    const addDerivedAreas = (results: Area[]) => {
+        if (results.length === 0) {
+            alert("Il risultato dell'operazione è vuoto.");
+            return;
+        }
+        setAreas(prev => [...prev, ...results]);
+        setSelectedAreaIndices([]);
+    };
+
+    // Union and intersection of all the selected areas; difference removes the areas
+    // selected after the first one from it
+    const handleAreaOperation = (operation: BooleanOperation) => {
+        const selected = selectedAreasForOperation();
+        if (!selected || selected.length < 2) return;
+        const polygons = selected.map(areaToPolygon);
+        let result: PolygonRings[];
+        if (operation === 'union') {
+            result = unionAll(polygons.map(p => [p]));
+        } else if (operation === 'intersection') {
+            result = polygons.slice(1).reduce((acc, p) => booleanOperation(acc, [p], 'intersection'), [polygons[0]]);
+        } else {
+            result = booleanOperation([polygons[0]], unionAll(polygons.slice(1).map(p => [p])), 'difference');
+        }
+        addDerivedAreas(polygonsToAreas(result, { operation, sources: selected.map(a => a.name) }, selected));
+    };
+
+    const handleBufferAreas = () => {
+        const selected = selectedAreasForOperation();
+        if (!selected || selected.length === 0 || !bufferDistance) return;
+        addDerivedAreas(selected.flatMap(area =>
+            polygonsToAreas(bufferPolygon(areaToPolygon(area), bufferDistance), { operation: 'buffer', sources: [area.name], distance: bufferDistance }, [area])
+        ));
+    };
+
     const handleSaveArea = () => {
         if (!newAreaName.trim() || currentAreaPoints.length < 3) return;
 
-        const realCoordsForArea = currentAreaPoints.map(p => p.realCoords);
-        const calculatedArea = calculatePolygonArea(realCoordsForArea);
-
-        const newArea: Area = {
+        const newArea: Area = withRealArea({
             name: newAreaName.trim(),
             points: [...currentAreaPoints],
-            realArea: calculatedArea,
-        };
+            holes: [],
+            derivation: null,
+            categoryId: activeCategoryId,
+            details: emptyDetails(),
+            realArea: 0,
+        });
         setAreas(prev => [...prev, newArea]);
         
         setCurrentAreaPoints([]);
@@ -454,293 +2222,234 @@ export const App: React.FC = () => {
     };
 
     const handleExportCSV = () => {
-        let csvContent = "data:text/csv;charset=utf-8,Nome,Distanza (m),Azimut (°)\n";
+        // Quote names so commas or quotes in them don't break the columns
+        const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        const hasElevations = points.some(p => typeof p.z === 'number');
+        let csvContent = `Nome,Categoria,X (m)${frameSuffix},Y (m)${frameSuffix},${hasElevations ? 'Quota (m),' : ''}Distanza (m),Azimut (°)`;
+        if (georeference) csvContent += `,Est (m),Nord (m),Latitudine (°),Longitudine (°),${csvField(`Sistema: ${georeferenceCrs?.name ?? georeference.crs}`)}`;
+        // Attribute fields, notes and number of photos close every row
+        const detailsHead = [...attributeFields.map(f => csvField(f.name)), 'Note', 'Foto'].join(',');
+        const detailsRow = (feature: Point | Area) => {
+            const details = featureDetails(feature);
+            return [...attributeFields.map(f => csvField(formatAttribute(f, details))), csvField(details.notes), details.photoIds.length].join(',');
+        };
+        csvContent += `,${detailsHead}\n`;
         points.forEach(p => {
-            const row = `${p.name},${p.distance.toFixed(2)},${p.bearing.toFixed(2)}`;
-            csvContent += row + "\n";
+            const elevation = hasElevations ? `${typeof p.z === 'number' ? p.z.toFixed(3) : ''},` : '';
+            let row = `${csvField(p.name)},${csvField(categoryName(categories, p.categoryId))},${toFrame(p.realCoords).x.toFixed(2)},${toFrame(p.realCoords).y.toFixed(2)},${elevation}${p.distance.toFixed(2)},${p.bearing.toFixed(2)}`;
+            if (georeference) {
+                const { e, n } = localToProjected(georeference, p.realCoords);
+                const wgs84 = localToWgs84(georeference, p.realCoords);
+                row += `,${e.toFixed(3)},${n.toFixed(3)},${wgs84?.lat.toFixed(8) ?? ''},${wgs84?.lon.toFixed(8) ?? ''},`;
+            }
+            csvContent += `${row},${detailsRow(p)}\n`;
         });
-        const encodedUri = encodeURI(csvContent);
-        const link = document.createElement("a");
-        link.setAttribute("href", encodedUri);
-        link.setAttribute("download", "punti_mappati.csv");
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    };
-    
-    const handleExportPDF = async () => {
-        if (points.length === 0 && areas.length === 0 || !imageSrc) {
-            alert("Per favore, mappa alcuni punti o aree prima di esportare.");
-            return;
-        }
-        
-        setIsProcessing(true);
-
-        try {
-            const { jsPDF } = window.jspdf;
-            const doc = new jsPDF({
-                orientation: 'p',
-                unit: 'pt',
-                format: 'a4'
+        if (areas.length > 0) {
+            // Cut and fill against the reference level, empty for areas outside the terrain model
+            const volumesHead = terrainExport ? `${csvField(`Sterro (m³) a ${formatElevation(terrainExport.referenceLevel)}`)},Riporto (m³),Superficie coperta dal modello (m²),` : '';
+            csvContent += `\nArea,Categoria,Superficie (m²),Perimetro (m),Centroide X (m)${frameSuffix},Centroide Y (m)${frameSuffix},Fori,Superficie fori (m²),${volumesHead}${detailsHead}\n`;
+            areas.forEach((a, index) => {
+                const metrics = computeAreaMetrics(a);
+                const centroid = toFrame(metrics.centroid);
+                const volume = terrainExport?.volumes[index];
+                const volumes = terrainExport ? (volume ? `${volume.cut.toFixed(2)},${volume.fill.toFixed(2)},${volume.coveredArea.toFixed(2)},` : ',,,') : '';
+                csvContent += `${csvField(a.name)},${csvField(categoryName(categories, a.categoryId))},${a.realArea.toFixed(2)},${metrics.perimeter.toFixed(2)},${centroid.x.toFixed(2)},${centroid.y.toFixed(2)},${a.holes.length},${metrics.holesArea.toFixed(2)},${volumes}${detailsRow(a)}\n`;
             });
+        }
+        downloadText(csvContent, "punti_mappati.csv", "text/csv");
+    };
 
-            // --- Create a new canvas with all overlays drawn on it ---
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            const displayedImg = imageRef.current;
-            if (!ctx || !displayedImg) {
-                throw new Error("Canvas context or image ref is not available for PDF export.");
-            }
+    // Exports cover the active sheet, so its name is part of the file name when there are several
+    const getExportBaseName = () => {
+        const base = sheets.length > 1 && activeSheet ? `${projectName || 'mappatura'} - ${activeSheet.name}` : (projectName || 'mappatura');
+        return base.replace(/[\\/:*?"<>|]/g, '_');
+    };
 
-            const img = new Image();
-            img.src = imageSrc;
-            await new Promise((resolve, reject) => { 
-                img.onload = resolve;
-                img.onerror = (err) => {
-                    console.error("Image failed to load for PDF export.", err);
-                    reject(new Error("L'immagine della mappa non può essere caricata per l'esportazione PDF."));
-                }
-            });
+    const handleExportGeoJSON = () => {
+        downloadText(exportGeoJSON(points, areas, categories, exportFrame, terrainExport), `${getExportBaseName()}.geojson`, 'application/geo+json');
+    };
 
-            const scale = img.naturalWidth / displayedImg.width;
-            canvas.width = img.naturalWidth;
-            canvas.height = img.naturalHeight;
-            
-            // Helper to scale values from display size to natural image size
-            const s = (value: number) => value * scale;
-
-            // 1. Draw original image
-            ctx.drawImage(img, 0, 0);
-
-            // 2. Draw Areas
-            areas.forEach(area => {
-                ctx.fillStyle = 'rgba(0, 255, 255, 0.2)';
-                ctx.strokeStyle = '#00FFFF';
-                ctx.lineWidth = s(2);
-                ctx.beginPath();
-                area.points.forEach((p, i) => {
-                    const x = s(p.pixelCoords.x);
-                    const y = s(p.pixelCoords.y);
-                    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
-                });
-                ctx.closePath();
-                ctx.fill();
-                ctx.stroke();
-            });
+    const handleExportKML = () => {
+        downloadText(exportKML(points, areas, categories, projectName || 'Mappatura', exportFrame, terrainExport), `${getExportBaseName()}.kml`, 'application/vnd.google-earth.kml+xml');
+    };
 
-            // 3. Draw Origin and Cartesian Axes
-            if (origin) {
-                const ox = s(origin.x);
-                const oy = s(origin.y);
-                ctx.strokeStyle = '#FF00FF';
-                ctx.lineWidth = s(1);
-
-                // Axes
-                ctx.beginPath();
-                ctx.moveTo(0, oy); ctx.lineTo(canvas.width, oy); // X-axis
-                ctx.moveTo(ox, 0); ctx.lineTo(ox, canvas.height); // Y-axis
-                ctx.stroke();
-
-                // Origin symbol
-                ctx.lineWidth = s(2);
-                ctx.beginPath();
-                ctx.arc(ox, oy, s(8), 0, 2 * Math.PI);
-                ctx.moveTo(ox - s(15), oy);
-                ctx.lineTo(ox + s(15), oy);
-                ctx.moveTo(ox, oy - s(15));
-                ctx.lineTo(ox, oy + s(15));
-                ctx.stroke();
-
-                ctx.fillStyle = '#FF00FF';
-                ctx.font = `bold ${s(14)}px sans-serif`;
-                ctx.shadowColor = 'black';
-                ctx.shadowBlur = s(6);
-                ctx.fillText('PUNTO DI RIFERIMENTO', ox + s(18), oy + s(20));
-                
-                // Axis Labels
-                ctx.fillText('X', canvas.width - s(15), oy - s(10));
-                ctx.fillText('Y', ox + s(10), s(15));
-                ctx.shadowBlur = 0;
-            }
+    const handleExportDXF = () => {
+        downloadText(exportDXF(points, areas, categories, exportFrame, terrainExport), `${getExportBaseName()}.dxf`, 'application/dxf');
+    };
 
-            // 4. Draw Points
-            points.forEach(p => {
-                const px = s(p.pixelCoords.x);
-                const py = s(p.pixelCoords.y);
-                
-                ctx.beginPath();
-                ctx.arc(px, py, s(5), 0, 2 * Math.PI);
-                ctx.fillStyle = '#FF00FF';
-                ctx.fill();
-                ctx.strokeStyle = 'white';
-                ctx.lineWidth = s(1);
-                ctx.stroke();
-
-                ctx.fillStyle = '#FF00FF';
-                ctx.font = `bold ${s(12)}px sans-serif`;
-                ctx.shadowColor = 'black';
-                ctx.shadowBlur = s(6);
-                ctx.fillText(p.name, px + s(8), py + s(4));
-                ctx.shadowBlur = 0;
-            });
-            
-            // 5. Draw Compass
-             if (appState >= AppState.READY) {
-                const compassRadius = 64; // 128px diameter from w-32, so radius is 64
-                const compassMargin = 32; // from bottom-8/right-8
-                
-                const compassCenterX = displayedImg.width - compassRadius - compassMargin;
-                const compassCenterY = displayedImg.height - compassRadius - compassMargin;
-
-                const scx = s(compassCenterX);
-                const scy = s(compassCenterY);
-                const scr = s(compassRadius); // This is our '50' unit from the SVG viewBox
-                
-                ctx.save();
-                ctx.translate(scx, scy);
-                ctx.rotate(northRotation * Math.PI / 180);
-
-                // --- Start new compass drawing logic based on SVG ---
-                
-                // Base circles
-                ctx.beginPath();
-                ctx.arc(0, 0, scr, 0, 2 * Math.PI);
-                ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
-                ctx.fill();
-
-                ctx.strokeStyle = '#4b5563';
-                ctx.lineWidth = s(1);
-                ctx.beginPath();
-                ctx.arc(0, 0, scr * 0.92, 0, 2 * Math.PI); // r=46
-                ctx.stroke();
-
-                // Intercardinal pointers
-                ctx.fillStyle = '#9ca3af';
-                // inter-pointer points="50,22 54,45 46,45"
-                const interPoints = [
-                    {x: 0, y: -0.56 * scr}, // 50,22 -> 0, -28 -> -28/50 = -0.56
-                    {x: 0.08 * scr, y: -0.1 * scr}, // 54,45 -> 4, -5 -> 4/50=0.08, -5/50=-0.1
-                    {x: -0.08 * scr, y: -0.1 * scr} // 46,45 -> -4, -5 -> -4/50=-0.08, -5/50=-0.1
-                ];
-                for (let i = 0; i < 4; i++) {
-                    ctx.save();
-                    ctx.rotate((45 + i * 90) * Math.PI / 180);
-                    ctx.beginPath();
-                    ctx.moveTo(interPoints[0].x, interPoints[0].y);
-                    ctx.lineTo(interPoints[1].x, interPoints[1].y);
-                    ctx.lineTo(interPoints[2].x, interPoints[2].y);
-                    ctx.closePath();
-                    ctx.fill();
-                    ctx.restore();
-                }
+    const loadMapImage = (errorMessage: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+        if (!imageSrc) return reject(new Error(errorMessage));
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => {
+            console.error("Image failed to load for export.", err);
+            reject(new Error(errorMessage));
+        };
+        img.src = imageSrc;
+    });
+
+    // Overlay of the exports. Sizes are chosen as if the whole image were fitted to the viewport,
+    // so the export looks the same regardless of the current zoom level.
+    const exportScene = (width: number, height: number) => {
+        const unit = viewportSize ? 1 / fitTransform(width, height, viewportSize.width, viewportSize.height).zoom : 1;
+        return buildScene(sceneInput(unit, origin && calibration ? cornerCompass(width, height, unit) : null));
+    };
 
-                // Cardinal pointers
-                // main-pointer points="50,12 57,45 50,38 43,45"
-                const mainPoints = [
-                    {x: 0, y: -0.76 * scr},          // 50,12 -> 0,-38 -> -38/50 = -0.76
-                    {x: 0.14 * scr, y: -0.1 * scr}, // 57,45 -> 7,-5 -> 7/50=0.14, -5/50=-0.1
-                    {x: 0, y: -0.24 * scr},          // 50,38 -> 0,-12 -> -12/50 = -0.24
-                    {x: -0.14 * scr, y: -0.1 * scr} // 43,45 -> -7,-5 -> -7/50=-0.14, -5/50=-0.1
-                ];
-                for (let i = 0; i < 4; i++) {
-                    ctx.save();
-                    ctx.rotate((i * 90) * Math.PI / 180);
-                    ctx.fillStyle = i === 0 ? '#ef4444' : '#f9fafb';
-                    ctx.beginPath();
-                    ctx.moveTo(mainPoints[0].x, mainPoints[0].y);
-                    ctx.lineTo(mainPoints[1].x, mainPoints[1].y);
-                    ctx.lineTo(mainPoints[2].x, mainPoints[2].y);
-                    ctx.lineTo(mainPoints[3].x, mainPoints[3].y);
-                    ctx.closePath();
-                    ctx.fill();
-                    ctx.restore();
-                }
+    const handleExportSVG = async () => {
+        if (!imageSrc) return;
+        setIsProcessing(true);
+        try {
+            const img = await loadMapImage("L'immagine della mappa non può essere caricata per l'esportazione SVG.");
+            // The image is embedded, so the file stands alone
+            const href = imageSrc.startsWith('data:') ? imageSrc : await blobToDataUrl(await (await fetch(imageSrc)).blob());
+            const svg = sceneToSvg(exportScene(img.naturalWidth, img.naturalHeight), { href, width: img.naturalWidth, height: img.naturalHeight });
+            downloadText(svg, `${getExportBaseName()}.svg`, 'image/svg+xml');
+        } catch (error) {
+            console.error("Failed to export SVG:", error);
+            alert(error instanceof Error ? error.message : "Impossibile esportare la mappa in SVG.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
 
-                // Center circle
-                ctx.fillStyle = '#111827';
-                ctx.strokeStyle = '#4b5563';
-                ctx.lineWidth = s(1);
-                ctx.beginPath();
-                ctx.arc(0, 0, scr * 0.12, 0, 2 * Math.PI); // r=6
-                ctx.fill();
-                ctx.stroke();
-
-                // Labels
-                const fontSize = scr * 0.2; // 10px in a 50px radius world
-                ctx.font = `bold ${fontSize}px sans-serif`;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'middle';
-
-                ctx.fillStyle = '#ef4444';
-                ctx.fillText('N', 0, -scr * 0.8); // y=10 -> -40 -> -40/50 = -0.8
-                
-                ctx.fillStyle = '#f9fafb';
-                ctx.fillText('E', scr * 0.84, scr * 0.08); // x=92 -> 42 -> 0.84, y=54 -> 4 -> 0.08
-                ctx.fillText('S', 0, scr * 0.88); // y=94 -> 44 -> 0.88
-                ctx.fillText('W', -scr * 0.84, scr * 0.08); // x=8 -> -42 -> -0.84, y=54 -> 4 -> 0.08
-
-                // --- End new compass drawing logic ---
-
-                ctx.restore(); // Restore to before compass drawing
-            }
+    const handleExportPNG = async () => {
+        if (!imageSrc) return;
+        setIsProcessing(true);
+        try {
+            const img = await loadMapImage("L'immagine della mappa non può essere caricata per l'esportazione PNG.");
+            const blob = await renderScenePng(img, exportScene(img.naturalWidth, img.naturalHeight), PNG_EXPORT_PIXEL_RATIO);
+            downloadBlob(blob, `${getExportBaseName()}.png`);
+        } catch (error) {
+            console.error("Failed to export PNG:", error);
+            alert(error instanceof Error ? error.message : "Impossibile esportare la mappa in PNG.");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+    
+    const handleOpenReportDialog = () => {
+        if (points.length === 0 && areas.length === 0 && measurements.length === 0 || !imageSrc) {
+            alert("Per favore, mappa alcuni punti, aree o misure prima di esportare.");
+            return;
+        }
+        setActiveDialog('report');
+    };
 
-            const annotatedImage = canvas.toDataURL('image/png');
-            // --- End of canvas creation ---
-            
-            doc.text("Immagine Mappa Calibrata", 20, 30);
-            
-            const pageWidth = doc.internal.pageSize.getWidth();
-            const pageHeight = doc.internal.pageSize.getHeight();
-            const margin = 40;
-            const availableWidth = pageWidth - margin * 2;
-            let availableHeight = pageHeight - margin * 2;
-             // Adjust available height for title
-            availableHeight -= 30;
-
-            const imgRatio = canvas.width / canvas.height;
-            const pageRatio = availableWidth / availableHeight;
-            let finalWidth, finalHeight;
-
-            if (imgRatio > pageRatio) {
-                finalWidth = availableWidth;
-                finalHeight = finalWidth / imgRatio;
-            } else {
-                finalHeight = availableHeight;
-                finalWidth = finalHeight * imgRatio;
-            }
+    // Scale of the map for the report: only calibrations without perspective have one
+    const reportPixelsPerMeter = calibration && !isProjective(calibration) ? pixelsPerMeter : null;
 
-            const x = (pageWidth - finalWidth) / 2;
-            const y = ((pageHeight - finalHeight) / 2) + 20;
-            doc.addImage(annotatedImage, 'PNG', x, y, finalWidth, finalHeight);
+    const handleExportPDF = async (settings: ReportSettings) => {
+        if (!imageSrc) return;
+        setActiveDialog(null);
+        setReportSettings(settings);
+        if (currentProjectId) {
+            saveReportSettings(currentProjectId, settings).catch(error => console.error("Failed to save report settings:", error));
+        }
+        setIsProcessing(true);
 
-            if (points.length > 0) {
-                doc.addPage();
-                doc.text("Punti Mappati", 20, 30);
-                (doc as any).autoTable({
-                    head: [["Nome", "Distanza dal Punto di Riferimento (m)", "Coordinate (X, Y)", "Azimut (°)"]],
+        try {
+            const img = await loadMapImage("L'immagine della mappa non può essere caricata per l'esportazione PDF.");
+            const shapes = exportScene(img.naturalWidth, img.naturalHeight);
+
+            const tables: ReportTable[] = [];
+            const attributeHead = attributeFields.map(f => f.name);
+            const attributeCells = (feature: Point | Area) => attributeFields.map(f => formatAttribute(f, feature.details));
+            const hasElevations = points.some(p => typeof p.z === 'number');
+            if (settings.pointsTable && points.length > 0) {
+                tables.push({
+                    title: "Punti Mappati",
+                    head: ["Nome", ...(categories.length > 0 ? ["Categoria"] : []), "Distanza dal Punto di Riferimento (m)", `Coordinate (X, Y)${frameSuffix}`, ...(hasElevations ? ["Quota (m)"] : []), "Azimut (°)", ...(georeference ? [georeferenceCrs?.name ?? georeference.crs, "Lat, Lon (WGS84)"] : []), ...attributeHead],
                     body: points.map(p => [
-                        p.name, 
-                        p.distance.toFixed(2), 
-                        `(${p.realCoords.x.toFixed(2)}, ${p.realCoords.y.toFixed(2)})`,
-                        p.bearing.toFixed(2)
+                        p.name,
+                        ...(categories.length > 0 ? [categoryName(categories, p.categoryId)] : []),
+                        p.distance.toFixed(2),
+                        `(${toFrame(p.realCoords).x.toFixed(2)}, ${toFrame(p.realCoords).y.toFixed(2)})`,
+                        ...(hasElevations ? [typeof p.z === 'number' ? p.z.toFixed(2) : ''] : []),
+                        p.bearing.toFixed(2),
+                        ...(georeference ? [formatProjected(localToProjected(georeference, p.realCoords)), formatLatLon(localToWgs84(georeference, p.realCoords))] : []),
+                        ...attributeCells(p),
                     ]),
-                    startY: 40,
-                    margin: { left: 20, right: 20 },
                 });
             }
-            
-            if (areas.length > 0) {
-                 doc.addPage();
-                 doc.text("Aree Mappate", 20, 30);
-                 (doc as any).autoTable({
-                    head: [["Nome", "Area (m²)"]],
-                    body: areas.map(a => [a.name, a.realArea.toFixed(2)]),
-                    startY: 40,
-                    margin: { left: 20, right: 20 },
+            if (settings.areasTable && areas.length > 0) {
+                tables.push({
+                    title: "Aree Mappate",
+                    head: [
+                        "Nome", ...(categories.length > 0 ? ["Categoria"] : []), "Area (m²)", "Perimetro (m)", `Centroide (X, Y)${frameSuffix}`, "Ingombro (m)",
+                        ...(terrainExport ? [`Sterro (m³) a ${formatElevation(terrainExport.referenceLevel)}`, "Riporto (m³)"] : []), "Note", ...attributeHead,
+                    ],
+                    body: areas.map((a, index) => {
+                        const volume = terrainExport?.volumes[index];
+                        const metrics = computeAreaMetrics(a);
+                        const bounds = boundsInFrame(a.points.map(p => p.realCoords), toFrame);
+                        const notes = [
+                            a.derivation ? describeDerivation(a.derivation) : '',
+                            a.holes.length > 0 ? `${a.holes.length} ${a.holes.length === 1 ? 'foro' : 'fori'} (${metrics.holesArea.toFixed(2)} m²)` : '',
+                            metrics.crossings > 0 ? 'Lati che si intersecano' : '',
+                            volume && volume.coveredArea < a.realArea * 0.999 ? `Volumi sul ${(volume.coveredArea / a.realArea * 100).toFixed(0)}% coperto dal modello del terreno` : '',
+                        ].filter(Boolean).join('; ');
+                        return [
+                            a.name,
+                            ...(categories.length > 0 ? [categoryName(categories, a.categoryId)] : []),
+                            a.realArea.toFixed(2),
+                            metrics.perimeter.toFixed(2),
+                            `(${toFrame(metrics.centroid).x.toFixed(2)}, ${toFrame(metrics.centroid).y.toFixed(2)})`,
+                            `${(bounds.max.x - bounds.min.x).toFixed(2)} × ${(bounds.max.y - bounds.min.y).toFixed(2)}`,
+                            ...(terrainExport ? (volume ? [volume.cut.toFixed(2), volume.fill.toFixed(2)] : ['', '']) : []),
+                            notes,
+                            ...attributeCells(a),
+                        ];
+                    }),
+                });
+            }
+            if (settings.measurementsTable && measurements.length > 0) {
+                tables.push({
+                    title: "Misure",
+                    head: ["Nome", "Tipo", "Valore", "Segmenti (m)"],
+                    body: measurements.map(m => [
+                        m.name,
+                        MEASUREMENT_LABELS[m.kind],
+                        summarizeMeasurement(m, northRotation),
+                        m.kind === 'polyline' ? segmentLengths(m.points.map(p => p.realCoords)).map(l => l.toFixed(2)).join(', ') : '',
+                    ]),
                 });
             }
 
-            doc.save('report_mappatura.pdf');
+            // Features without a category keep the default colours; each category shown on the map has its own entry
+            const uncategorizedPoints = points.filter(p => !findCategory(categories, p.categoryId));
+            const uncategorizedAreas = areas.filter(a => !findCategory(categories, a.categoryId));
+            const legend: ReportLegendEntry[] = [
+                ...(uncategorizedPoints.length > 0 ? [{ label: 'Punti', color: SCENE_COLORS.point, symbol: 'point' as const }] : []),
+                ...(uncategorizedAreas.some(a => !a.derivation) ? [{ label: 'Aree', color: SCENE_COLORS.area, symbol: 'area' as const }] : []),
+                ...(uncategorizedAreas.some(a => a.derivation) ? [{ label: 'Aree derivate', color: SCENE_COLORS.derivedArea, symbol: 'area' as const }] : []),
+                ...categories.filter(c => c.visible).flatMap((c): ReportLegendEntry[] => {
+                    if (points.some(p => p.categoryId === c.id)) return [{ label: c.name, color: c.color, symbol: 'point', pointSymbol: c.symbol }];
+                    if (areas.some(a => a.categoryId === c.id)) return [{ label: c.name, color: c.color, symbol: 'area' }];
+                    return [];
+                }),
+                ...(measurements.length > 0 ? [{ label: 'Misure', color: SCENE_COLORS.measurement, symbol: 'line' as const }] : []),
+                ...(terrain?.showContours && terrainModel && terrainModel.contours.length > 0 ? [{ label: `Curve di livello ogni ${formatElevation(terrain.contourInterval)}`, color: SCENE_COLORS.contour, symbol: 'line' as const }] : []),
+                ...(terrain?.showTin && terrainModel && terrainModel.tin.triangles.length > 0 ? [{ label: 'Triangolazione del terreno', color: SCENE_COLORS.tin, symbol: 'line' as const }] : []),
+            ];
+
+            // A true-scale map larger than the sheet is centred on the mapped features
+            const featurePixels = [...points, ...areas.flatMap(a => a.points), ...measurements.flatMap(m => m.points)].map(p => p.pixelCoords);
+            const focus = featurePixels.length > 0
+                ? {
+                    x: (Math.min(...featurePixels.map(p => p.x)) + Math.max(...featurePixels.map(p => p.x))) / 2,
+                    y: (Math.min(...featurePixels.map(p => p.y)) + Math.max(...featurePixels.map(p => p.y))) / 2,
+                }
+                : { x: img.naturalWidth / 2, y: img.naturalHeight / 2 };
+
+            const doc = createReportPdf({
+                settings,
+                projectName: projectName || 'Progetto',
+                sheetName: sheets.length > 1 && activeSheet ? activeSheet.name : null,
+                map: { image: img, shapes, pixelsPerMeter: reportPixelsPerMeter, focus },
+                legend,
+                tables,
+            });
+            doc.save(`${getExportBaseName()}_report.pdf`);
         } catch (error) {
             console.error("Failed to generate PDF:", error);
             alert(`Si è verificato un errore durante la creazione del PDF. Controlla la console per i dettagli.\n\nErrore: ${error instanceof Error ? error.message : String(error)}`);
@@ -749,8 +2458,10 @@ export const App: React.FC = () => {
         }
     };
     
-    const handleCompassMouseDown = (e: React.MouseEvent) => {
+    const handleCompassPointerDown = (e: React.PointerEvent) => {
+        if (e.button !== 0) return;
         e.preventDefault();
+        e.stopPropagation(); // Don't start panning the map
         setIsRotatingCompass(true);
         document.body.style.cursor = 'grabbing';
         document.body.style.userSelect = 'none';
@@ -768,9 +2479,7 @@ export const App: React.FC = () => {
 
     const handleSaveEdit = () => {
         if (editingIndex === null || !editingName.trim()) return;
-        const updatedPoints = [...points];
-        updatedPoints[editingIndex].name = editingName.trim();
-        setPoints(updatedPoints);
+        setPoints(prev => prev.map((p, i) => i === editingIndex ? { ...p, name: editingName.trim() } : p));
         setEditingIndex(null);
         setEditingName('');
     };
@@ -787,13 +2496,28 @@ export const App: React.FC = () => {
 
     const handleSaveEditArea = () => {
         if (editingAreaIndex === null || !editingAreaName.trim()) return;
-        const updatedAreas = [...areas];
-        updatedAreas[editingAreaIndex].name = editingAreaName.trim();
-        setAreas(updatedAreas);
+        setAreas(prev => prev.map((a, i) => i === editingAreaIndex ? { ...a, name: editingAreaName.trim() } : a));
         setEditingAreaIndex(null);
         setEditingAreaName('');
     };
 
+    const handleStartEditingMeasurement = (index: number) => {
+        setEditingMeasurementIndex(index);
+        setEditingMeasurementName(measurements[index].name);
+    };
+
+    const handleCancelEditingMeasurement = () => {
+        setEditingMeasurementIndex(null);
+        setEditingMeasurementName('');
+    };
+
+    const handleSaveEditMeasurement = () => {
+        if (editingMeasurementIndex === null || !editingMeasurementName.trim()) return;
+        setMeasurements(prev => prev.map((m, i) => i === editingMeasurementIndex ? { ...m, name: editingMeasurementName.trim() } : m));
+        setEditingMeasurementIndex(null);
+        setEditingMeasurementName('');
+    };
+
     const handleInstallClick = () => {
         if (installPrompt) {
             installPrompt.prompt();
@@ -823,7 +2547,7 @@ export const App: React.FC = () => {
         const onCancel = isNamingPoint ? handleCancelNaming : () => setAppState(AppState.DEFINING_AREA);
 
         return (
-            <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30" onClick={onCancel}>
+            <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30" onClick={onCancel} onPointerDown={e => e.stopPropagation()}>
                 <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-sm" onClick={e => e.stopPropagation()}>
                     <h3 className="text-xl font-bold mb-4 text-center text-blue-300">{title}</h3>
                     <input
@@ -835,6 +2559,29 @@ export const App: React.FC = () => {
                         autoFocus
                         onKeyDown={(e) => e.key === 'Enter' && onSave()}
                     />
+                    {isNamingPoint && (
+                        <>
+                            <label className="block text-sm text-gray-300 mb-1">Quota (m, facoltativa)</label>
+                            <input
+                                type="text"
+                                inputMode="decimal"
+                                value={newPointElevation}
+                                onChange={(e) => setNewPointElevation(e.target.value)}
+                                placeholder="es. 125,40"
+                                className="w-full bg-gray-900 border border-gray-700 rounded-md p-2 mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"
+                                onKeyDown={(e) => e.key === 'Enter' && onSave()}
+                            />
+                        </>
+                    )}
+                    {categories.length > 0 && (
+                        <>
+                            <label className="block text-sm text-gray-300 mb-1">Categoria</label>
+                            <select value={activeCategoryId ?? ''} onChange={(e) => setActiveCategoryId(e.target.value || null)} className="w-full bg-gray-900 border border-gray-700 rounded-md p-2 mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white">
+                                <option value="">Nessuna</option>
+                                {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                        </>
+                    )}
                     <div className="flex justify-end gap-3">
                         <button onClick={onCancel} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
                             <X size={16} /> Annulla
@@ -848,37 +2595,235 @@ export const App: React.FC = () => {
         );
     }
     
-    const renderUploadScreen = () => {
-        const getButtonText = () => {
-            if (isProcessing) return 'In elaborazione...';
-            if (pdfLibError) return 'Lettore PDF Fallito';
-            if (!isPdfLibReady) return 'Inizializzazione Lettore PDF...';
-            return 'Carica Immagine o PDF';
+    // Category of a point or area, changed in place unless it is locked
+    const renderCategorySelect = (categoryId: string | null | undefined, onChange: (categoryId: string | null) => void) => {
+        const category = findCategory(categories, categoryId);
+        return (
+            <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category?.color ?? 'transparent', border: category ? 'none' : '1px solid #6B7280' }} />
+                <select value={category?.id ?? ''} disabled={category?.locked} onChange={(e) => onChange(e.target.value || null)} className="bg-gray-900 border border-gray-600 rounded-md p-1 text-sm disabled:opacity-50">
+                    <option value="">Nessuna</option>
+                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            </div>
+        );
+    };
+
+    // Filter of the points and areas tables, with access to the categories and attribute fields
+    const renderFeatureBar = () => (
+        <div className="flex flex-wrap items-center gap-2 mb-3 flex-shrink-0 text-sm">
+            <button onClick={() => setActiveDialog('categories')} className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-1" title="Categorie di punti e aree: simbolo, colore, visibilità e blocco"><Tags size={16} />Categorie</button>
+            <button onClick={() => setActiveDialog('attribute-fields')} className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-1" title="Campi degli attributi rilevati per punti e aree"><ListPlus size={16} />Campi</button>
+            {categories.length > 0 && (
+                <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-md p-1.5 text-white" title="Mostra nella tabella solo una categoria">
+                    <option value="all">Tutte le categorie</option>
+                    <option value="none">Senza categoria</option>
+                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}{c.visible ? '' : ' (nascosta)'}</option>)}
+                </select>
+            )}
+        </div>
+    );
+
+    const renderDetailsPanel = () => {
+        if (!detailsFeature) return null;
+        const { kind, index } = detailsFeature;
+        const point = kind === 'point' ? points[index] : undefined;
+        const area = kind === 'area' ? areas[index] : undefined;
+        const feature = point ?? area;
+        if (!feature) return null;
+        const summary = point
+            ? [
+                `X ${toFrame(point.realCoords).x.toFixed(2)} m, Y ${toFrame(point.realCoords).y.toFixed(2)} m${typeof point.z === 'number' ? `, quota ${formatElevation(point.z)}` : ''}`,
+                `Distanza ${point.distance.toFixed(2)} m, azimut ${point.bearing.toFixed(2)}°`,
+            ]
+            : [`Superficie ${area!.realArea.toFixed(2)} m²`, `Perimetro ${computeAreaMetrics(area!).perimeter.toFixed(2)} m`];
+        return (
+            <FeatureDetailsPanel
+                key={`${kind}-${index}`}
+                kind={kind}
+                name={feature.name}
+                summary={summary}
+                category={findCategory(categories, feature.categoryId)}
+                details={featureDetails(feature)}
+                fields={attributeFields}
+                photos={photos}
+                onChange={(details) => updateDetails(detailsFeature, () => details)}
+                onAddPhotos={(files) => handleAddPhotos(detailsFeature, files)}
+                onEditFields={() => setActiveDialog('attribute-fields')}
+                onClose={() => setDetailsFeature(null)}
+            />
+        );
+    };
+
+    const renderZoomControls = () => {
+        if (!naturalSize) return null;
+        const buttonClass = "p-2 rounded-md hover:bg-gray-700 transition-colors text-gray-200";
+        return (
+            <div className="absolute top-4 left-4 z-10 flex items-center gap-1 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg p-1" onPointerDown={e => e.stopPropagation()} onClick={e => e.stopPropagation()}>
+                <button onClick={() => handleZoomBy(1 / 1.5)} className={buttonClass} title="Riduci"><ZoomOut size={18} /></button>
+                <span className="w-14 text-center font-mono text-xs text-gray-300">{Math.round(view.zoom * 100)}%</span>
+                <button onClick={() => handleZoomBy(1.5)} className={buttonClass} title="Ingrandisci"><ZoomIn size={18} /></button>
+                <button onClick={handleFitToScreen} className={buttonClass} title="Adatta allo schermo"><Maximize size={18} /></button>
+                <button onClick={handleActualSize} className={`${buttonClass} font-mono text-xs font-bold`} title="Dimensione reale (1 pixel immagine = 1 pixel schermo)">1:1</button>
+                {canUseGps && (
+                    <button onClick={handleToggleGps} className={`${buttonClass} ${isGpsOn ? 'text-blue-400' : ''}`} title={isGpsOn ? "Spegni il GPS" : "Mostra la tua posizione GPS sulla mappa"}><LocateFixed size={18} /></button>
+                )}
+                {view.rotation !== 0 && (
+                    <button onClick={handleResetRotation} className={buttonClass} title={`Vista ruotata di ${Math.round(view.rotation)}°: raddrizza`}><Compass size={18} style={{ transform: `rotate(${view.rotation - 45}deg)` }} /></button>
+                )}
+                {snapIndex && (
+                    <button onClick={() => setIsSnapEnabled(enabled => !enabled)} className={`${buttonClass} ${isSnapEnabled ? 'text-yellow-300' : ''}`} title={isSnapEnabled ? "Aggancio ai vertici del disegno PDF attivo" : "Aggancio ai vertici del disegno PDF disattivato"}><Magnet size={18} /></button>
+                )}
+            </div>
+        );
+    };
+
+    const renderGpsPanel = () => {
+        if (!isGpsOn || !canUseGps || !naturalSize) return null;
+        const isOnMap = !!gpsPosition && gpsPosition.center.x >= 0 && gpsPosition.center.y >= 0 && gpsPosition.center.x <= naturalSize.width && gpsPosition.center.y <= naturalSize.height;
+        return (
+            <GpsPanel
+                fix={gpsFix}
+                error={gpsError}
+                isOnMap={isOnMap}
+                source={gpsSource}
+                isFollowing={isGpsFollowing}
+                track={gpsTrack}
+                canRecordPoint={appState === AppState.READY}
+                onChangeSource={handleChangeGpsSource}
+                onToggleFollow={() => setIsGpsFollowing(following => !following)}
+                onRecordPoint={handleRecordGpsPoint}
+                onToggleTrack={handleToggleGpsTrack}
+                onClose={handleToggleGps}
+            />
+        );
+    };
+
+    const renderLoupe = () => {
+        if (!loupe || !naturalSize || !imageSrc || !viewportRef.current) return null;
+        const point = getClickCoordinates(loupe);
+        if (!point) return null;
+        const rect = viewportRef.current.getBoundingClientRect();
+        return (
+            <Loupe
+                imageSrc={imageSrc}
+                naturalSize={naturalSize}
+                view={view}
+                point={point}
+                anchor={{ x: loupe.clientX - rect.left, y: loupe.clientY - rect.top }}
+                shapes={unit => uprightText(buildScene(sceneInput(unit, null)), view.rotation)}
+            />
+        );
+    };
+
+    const renderMinimap = () => {
+        if (!naturalSize || !viewportSize || !imageSrc) return null;
+        const MINIMAP_SIZE = 160;
+        const minimapScale = MINIMAP_SIZE / Math.max(naturalSize.width, naturalSize.height);
+        const width = naturalSize.width * minimapScale;
+        const height = naturalSize.height * minimapScale;
+
+        // Visible image region, turned with the view; the minimap clips it to the image bounds
+        const visible = [[0, 0], [viewportSize.width, 0], [viewportSize.width, viewportSize.height], [0, viewportSize.height]]
+            .map(([x, y]) => screenToImage(view, x, y))
+            .map(p => `${p.x * minimapScale},${p.y * minimapScale}`)
+            .join(' ');
+
+        const handleMinimapPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+            e.stopPropagation();
+            if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+            else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+            const rect = e.currentTarget.getBoundingClientRect();
+            const target = {
+                x: (e.clientX - rect.left) / minimapScale,
+                y: (e.clientY - rect.top) / minimapScale,
+            };
+            setView(v => centerOn(v, target, viewportSize.width, viewportSize.height));
         };
 
         return (
-            <div className="w-full h-full flex flex-col items-center justify-center bg-gray-800 p-8 text-center relative">
+            <div
+                className="absolute bottom-4 left-4 z-10 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg p-1 cursor-pointer"
+                onClick={e => e.stopPropagation()}
+                onPointerDown={e => e.stopPropagation()}
+                onPointerMove={e => e.stopPropagation()}
+            >
+                <div className="relative overflow-hidden touch-none" style={{ width, height }} onPointerDown={handleMinimapPointer} onPointerMove={handleMinimapPointer}>
+                    <img src={imageSrc} alt="Minimappa" draggable={false} className="block w-full h-full select-none opacity-80" />
+                    <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                        <polygon points={visible} fill="rgba(250, 204, 21, 0.1)" stroke="#facc15" strokeWidth={2} />
+                    </svg>
+                </div>
+            </div>
+        );
+    };
+
+    const renderUploadScreen = () => {
+        return (
+            <div
+                className={`w-full min-h-screen max-h-screen overflow-auto flex flex-col items-center justify-center bg-gray-800 p-8 text-center relative ${isDraggingFile ? 'ring-4 ring-inset ring-blue-500' : ''}`}
+                onDragOver={handleUploadDragOver}
+                onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+                onDrop={handleUploadDrop}
+            >
                 {isProcessing && (
                     <div className="absolute inset-0 bg-gray-900/70 backdrop-blur-sm flex flex-col items-center justify-center z-10">
                         <svg className="animate-spin h-10 w-10 text-blue-400 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        <p className="text-lg font-semibold text-gray-200">Elaborazione PDF in corso, attendere...</p>
-                        <p className="text-sm text-gray-400">Sto rendendo la prima pagina come immagine.</p>
+                        <p className="text-lg font-semibold text-gray-200">Elaborazione in corso, attendere...</p>
+                        <p className="text-sm text-gray-400">Sto preparando la mappa.</p>
                     </div>
                 )}
                 <h1 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300 mb-4">Mappatore e Calibratore di Immagini</h1>
-                <p className="max-w-xl mb-8 text-gray-300">Carica un'immagine o un PDF (verrà usata la prima pagina) con una scala nota per misurare e registrare coordinate con precisione.</p>
-                <input type="file" accept="image/*,application/pdf" onChange={handleFileUpload} className="hidden" ref={fileInputRef} />
+                <p className="max-w-xl mb-8 text-gray-300">Carica un'immagine o un PDF con una scala nota per misurare e registrare coordinate con precisione. Di un PDF puoi scegliere le pagine da importare, ognuna come un foglio. Puoi anche trascinare qui un file o aprire un progetto {MAPPA_EXTENSION}.</p>
+                <input type="file" accept={`image/*,application/pdf,${MAPPA_EXTENSION}`} onChange={handleFileUpload} className="hidden" ref={fileInputRef} />
                 <button 
                     onClick={() => fileInputRef.current?.click()} 
-                    className="px-6 py-3 rounded-md bg-blue-600 hover:bg-blue-500 transition-all transform hover:scale-105 text-lg font-semibold flex items-center gap-3 disabled:bg-gray-600 disabled:cursor-wait disabled:scale-100 disabled:bg-red-800" 
-                    disabled={isProcessing || !isPdfLibReady || !!pdfLibError}
+                    className="px-6 py-3 rounded-md bg-blue-600 hover:bg-blue-500 transition-all transform hover:scale-105 text-lg font-semibold flex items-center gap-3 disabled:bg-gray-600 disabled:cursor-wait disabled:scale-100" 
+                    disabled={isProcessing}
                 >
-                    <Upload size={22} /> {getButtonText()}
+                    <Upload size={22} /> {isProcessing ? 'In elaborazione...' : 'Carica Immagine o PDF'}
                 </button>
-                 {pdfLibError && <p className="text-red-400 mt-4 text-sm max-w-md">{pdfLibError}</p>}
+                {renderRecentProjects()}
+            </div>
+        );
+    };
+
+    const renderRecentProjects = () => {
+        if (recentProjects.length === 0) return null;
+        return (
+            <div className="w-full max-w-4xl mt-10 text-left">
+                <h2 className="text-xl font-bold text-blue-300 mb-4 flex items-center gap-2"><FolderOpen size={20} /> Progetti Recenti</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                    {recentProjects.map(project => (
+                        <div key={project.id} className="bg-gray-900 rounded-lg overflow-hidden shadow-lg border border-gray-700 hover:border-blue-500 transition-colors flex flex-col">
+                            <button onClick={() => handleOpenProject(project.id)} className="block h-32 bg-gray-950 overflow-hidden" title="Apri progetto" disabled={isProcessing}>
+                                <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+                            </button>
+                            <div className="p-3 flex flex-col gap-2">
+                                {renamingProjectId === project.id ? (
+                                    <div className="flex gap-2 items-center">
+                                        <input type="text" value={renamingProjectName} onChange={(e) => setRenamingProjectName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSaveProjectName()} className="bg-gray-800 border border-gray-600 rounded-md p-1 w-full text-sm" autoFocus />
+                                        <button onClick={handleSaveProjectName} className="text-green-400 hover:text-green-300 p-1 rounded-full hover:bg-green-500/20"><Check size={16} /></button>
+                                        <button onClick={() => setRenamingProjectId(null)} className="text-gray-400 hover:text-gray-300 p-1 rounded-full hover:bg-gray-500/20"><X size={16} /></button>
+                                    </div>
+                                ) : (
+                                    <p className="font-semibold truncate" title={project.name}>{project.name}</p>
+                                )}
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs text-gray-400">{new Date(project.updatedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                    <div className="flex gap-1">
+                                        <button onClick={() => handleStartRenamingProject(project)} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20" title="Rinomina"><Pencil size={16} /></button>
+                                        <button onClick={() => handleDuplicateProject(project.id)} className="text-teal-400 hover:text-teal-300 p-1 rounded-full hover:bg-teal-500/20" title="Duplica"><Copy size={16} /></button>
+                                        <button onClick={() => handleDeleteProject(project)} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20" title="Elimina"><Trash2 size={16} /></button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
             </div>
         );
     };
@@ -888,161 +2833,196 @@ export const App: React.FC = () => {
             {!imageSrc ? renderUploadScreen() : (
                 <>
                     <header className="flex justify-between items-center p-4 bg-gray-900/80 backdrop-blur-sm z-20 flex-shrink-0">
-                        <h1 className="text-2xl md:text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300">Mappatore Immagini</h1>
+                        <div className="flex items-baseline gap-4 min-w-0">
+                            <h1 className="text-2xl md:text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300 flex-shrink-0">Mappatore Immagini</h1>
+                            {projectName && <span className="text-gray-300 font-semibold truncate" title={projectName}>{projectName}</span>}
+                            {activeSheet && (sheets.length > 1 || sourcePdfRef.current) && (
+                                <div className="relative self-center flex-shrink-0">
+                                    <button onClick={() => setIsSheetMenuOpen(open => !open)} disabled={!canUndoRedo || isProcessing} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed" title="Fogli del progetto">
+                                        <Files size={16} /> {activeSheet.name} <ChevronDown size={14} />
+                                    </button>
+                                    {isSheetMenuOpen && (
+                                        <div className="absolute left-0 mt-1 w-60 bg-gray-900 border border-gray-700 rounded-md shadow-xl z-30 py-1" onMouseLeave={() => setIsSheetMenuOpen(false)}>
+                                            {sheets.map(sheet => (
+                                                <div key={sheet.id} className={`flex items-center hover:bg-gray-700 transition-colors ${sheet.id === activeSheetId ? 'text-blue-300' : ''}`}>
+                                                    <button onClick={() => handleSwitchSheet(sheet.id)} className="flex-grow text-left px-3 py-2 text-sm flex items-center gap-2">
+                                                        {sheet.id === activeSheetId ? <Check size={14} /> : <span className="w-[14px]" />}
+                                                        {sheet.name}
+                                                        {sheet.data.calibration && <span className="text-xs text-gray-500">calibrato</span>}
+                                                    </button>
+                                                    {sheets.length > 1 && (
+                                                        <button onClick={() => handleDeleteSheet(sheet.id)} className="text-gray-500 hover:text-red-400 p-2" title="Elimina foglio"><Trash2 size={14} /></button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                            {sourcePdfRef.current && (
+                                                <>
+                                                    <div className="border-t border-gray-700 my-1" />
+                                                    <button onClick={handleAddPdfPages} className="w-full text-left px-3 py-2 text-sm hover:bg-gray-700 transition-colors flex items-center gap-2"><FilePlus size={14} /> Aggiungi pagine del PDF</button>
+                                                </>
+                                            )}
+                                            {activeSheet.pageNumber !== null && activeSheet.renderScale && (
+                                                <>
+                                                    <div className="border-t border-gray-700 my-1" />
+                                                    <div className="px-3 py-1 text-xs text-gray-400">Risoluzione di {activeSheet.name}</div>
+                                                    {PDF_RESOLUTIONS.map(resolution => (
+                                                        <button key={resolution.dpi} onClick={() => handleChangeSheetResolution(resolution.dpi)} className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-700 transition-colors ${scaleToDpi(activeSheet.renderScale!) === resolution.dpi ? 'text-blue-300' : ''}`}>{resolution.label}</button>
+                                                    ))}
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            {saveStatus === 'saving' && <span className="text-xs text-gray-400">Salvataggio...</span>}
+                            {saveStatus === 'saved' && <span className="text-xs text-gray-400 flex items-center gap-1"><Check size={12} /> Salvato</span>}
+                            {saveStatus === 'error' && <span className="text-xs text-red-400 flex items-center gap-1" title="Il progetto non può essere salvato in questo browser."><CloudOff size={12} /> Non salvato</span>}
+                        </div>
                         <div className="flex items-center gap-2">
                              {installPrompt && (
                                 <button onClick={handleInstallClick} className="px-4 py-2 text-sm rounded-md bg-indigo-600 hover:bg-indigo-500 transition-colors flex items-center gap-2">
                                     <DownloadCloud size={16} /> Installa App
                                 </button>
                             )}
+                            <button onClick={handleUndo} disabled={!canUndoRedo || history.past.length === 0} className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed" title="Annulla (Ctrl+Z)">
+                                <Undo2 size={16} />
+                            </button>
+                            <button onClick={handleRedo} disabled={!canUndoRedo || history.future.length === 0} className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed" title="Ripeti (Ctrl+Shift+Z)">
+                                <Redo2 size={16} />
+                            </button>
+                            <button onClick={handleExportProjectFile} disabled={isProcessing} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:cursor-wait" title="Esporta il progetto come file unico da condividere">
+                                <Download size={16} /> Esporta {MAPPA_EXTENSION}
+                            </button>
                             <button onClick={handleReset} className="px-4 py-2 text-sm rounded-md bg-red-600 hover:bg-red-500 transition-colors flex items-center gap-2">
-                                <RefreshCcw size={16} /> Ricomincia
+                                <RefreshCcw size={16} /> Chiudi Progetto
                             </button>
                         </div>
                     </header>
                     <main className="flex-grow flex flex-col lg:flex-row relative min-h-0">
                         <div className="flex-grow flex flex-col min-h-0">
-                            <div className="relative flex-grow bg-gray-800 flex items-center justify-center overflow-auto" onMouseMove={handleImageMouseMove} onMouseLeave={() => {setMouseRealCoords(null); setMousePixelCoords(null)}}>
-                                <div className="relative cursor-crosshair" onClick={handleImageClick}>
-                                    <img ref={imageRef} src={imageSrc} alt="Map for calibration" className="max-w-full max-h-full object-contain" onLoad={() => { if (imageRef.current) { const { width, height } = imageRef.current.getBoundingClientRect(); setImageDimensions({width, height})}}}/>
-                                    <svg className="absolute top-0 left-0 w-full h-full pointer-events-none">
-                                        {areas.map((area, index) => (
-                                            <polygon key={`area-${index}`} points={area.points.map(p => `${p.pixelCoords.x},${p.pixelCoords.y}`).join(' ')} fill="rgba(0, 255, 255, 0.2)" stroke="#00FFFF" strokeWidth="2" />
-                                        ))}
-
-                                        {currentAreaPoints.map((p, i) => (
-                                            <React.Fragment key={`current-area-point-${i}`}>
-                                                <circle cx={p.pixelCoords.x} cy={p.pixelCoords.y} r="4" fill="#00FFFF" />
-                                                {i > 0 && ( <line x1={currentAreaPoints[i-1].pixelCoords.x} y1={currentAreaPoints[i-1].pixelCoords.y} x2={p.pixelCoords.x} y2={p.pixelCoords.y} stroke="#00FFFF" strokeWidth="2" /> )}
-                                            </React.Fragment>
-                                        ))}
-                                        {appState === AppState.DEFINING_AREA && currentAreaPoints.length > 0 && mousePixelCoords && (
-                                            <line x1={currentAreaPoints[currentAreaPoints.length - 1].pixelCoords.x} y1={currentAreaPoints[currentAreaPoints.length - 1].pixelCoords.y} x2={mousePixelCoords.x} y2={mousePixelCoords.y} stroke="#00FFFF" strokeWidth="2" strokeDasharray="5,5" />
-                                        )}
-                                        
-                                        {calibrationPoints.length > 0 && <circle cx={calibrationPoints[0].x} cy={calibrationPoints[0].y} r="5" fill="none" stroke="#FFD700" strokeWidth="2" />}
-                                        {calibrationPoints.length > 1 && <>
-                                            <circle cx={calibrationPoints[1].x} cy={calibrationPoints[1].y} r="5" fill="none" stroke="#FFD700" strokeWidth="2" />
-                                            <line x1={calibrationPoints[0].x} y1={calibrationPoints[0].y} x2={calibrationPoints[1].x} y2={calibrationPoints[1].y} stroke="#FFD700" strokeWidth="2" strokeDasharray="5,5" />
-                                        </>}
-
-                                        {origin && pixelsPerMeter && imageDimensions && (
-                                            <g id="cartesian-grid" stroke="#FF00FF" strokeWidth="1">
-                                                {(() => {
-                                                    const ticks = [];
-                                                    const tickSize = 5; // length of the tick mark in pixels
-                                                    const tickInterval = 10 * pixelsPerMeter;
-                                                    const { width, height } = imageDimensions;
-
-                                                    // Main Axes
-                                                    ticks.push(<line key="x-axis" x1="0" y1={origin.y} x2={width} y2={origin.y} />);
-                                                    ticks.push(<line key="y-axis" x1={origin.x} y1="0" x2={origin.x} y2={height} />);
-                                                    
-                                                    // Ticks on positive X-axis
-                                                    for (let i = origin.x + tickInterval; i < width; i += tickInterval) {
-                                                        ticks.push(<line key={`tick-x-pos-${i}`} x1={i} y1={origin.y - tickSize} x2={i} y2={origin.y + tickSize} />);
-                                                    }
-                                                    // Ticks on negative X-axis
-                                                    for (let i = origin.x - tickInterval; i > 0; i -= tickInterval) {
-                                                        ticks.push(<line key={`tick-x-neg-${i}`} x1={i} y1={origin.y - tickSize} x2={i} y2={origin.y + tickSize} />);
-                                                    }
-                                                    // Ticks on positive Y-axis (upwards)
-                                                    for (let i = origin.y - tickInterval; i > 0; i -= tickInterval) {
-                                                        ticks.push(<line key={`tick-y-pos-${i}`} x1={origin.x - tickSize} y1={i} x2={origin.x + tickSize} y2={i} />);
-                                                    }
-                                                    // Ticks on negative Y-axis (downwards)
-                                                    for (let i = origin.y + tickInterval; i < height; i += tickInterval) {
-                                                        ticks.push(<line key={`tick-y-neg-${i}`} x1={origin.x - tickSize} y1={i} x2={origin.x + tickSize} y2={i} />);
-                                                    }
-                                                    
-                                                    // Axis Labels
-                                                    ticks.push(<text key="x-label" x={width - 15} y={origin.y - 10} fill="#FF00FF" fontSize="14" fontWeight="bold">X</text>);
-                                                    ticks.push(<text key="y-label" x={origin.x + 10} y={15} fill="#FF00FF" fontSize="14" fontWeight="bold">Y</text>);
-
-                                                    return ticks;
-                                                })()}
-                                            </g>
-                                        )}
-                                        
-                                        {origin && (
-                                            <g>
-                                                <circle cx={origin.x} cy={origin.y} r="8" fill="none" stroke="#FF00FF" strokeWidth="2" />
-                                                <line x1={origin.x - 15} y1={origin.y} x2={origin.x + 15} y2={origin.y} stroke="#FF00FF" strokeWidth="2" />
-                                                <line x1={origin.x} y1={origin.y - 15} x2={origin.x} y2={origin.y + 15} stroke="#FF00FF" strokeWidth="2" />
-                                                <text x={origin.x + 18} y={origin.y + 20} fill="#FF00FF" fontSize="14" fontWeight="bold" style={{ textShadow: '0 0 3px black, 0 0 3px black' }}>PUNTO DI RIFERIMENTO</text>
-                                            </g>
-                                        )}
-                                        
-                                        {points.map((p, i) => (
-                                            <g key={`point-group-${i}`}>
-                                                <circle cx={p.pixelCoords.x} cy={p.pixelCoords.y} r="5" fill="#FF00FF" stroke="white" strokeWidth="1"/>
-                                                <text x={p.pixelCoords.x + 8} y={p.pixelCoords.y + 4} fill="#FF00FF" fontSize="12" fontWeight="bold" style={{ textShadow: '0 0 3px black, 0 0 3px black' }} >{p.name}</text>
-                                            </g>
-                                        ))}
-                                        
-                                        {tempPoint && <circle cx={tempPoint.x} cy={tempPoint.y} r="6" fill="none" stroke="#00FFFF" strokeWidth="2" />}
+                            <div
+                                ref={viewportRef}
+                                className="relative flex-grow bg-gray-800 overflow-hidden touch-none select-none [-webkit-touch-callout:none]"
+                                onPointerDown={handleViewportPointerDown}
+                                onPointerMove={handleViewportPointerMove}
+                                onPointerUp={handleViewportPointerUp}
+                                onPointerLeave={() => {setMouseRealCoords(null); setMousePixelCoords(null); setSnapVertex(null)}}
+                                onContextMenu={handleViewportContextMenu}
+                            >
+                                <div
+                                    className={`absolute top-0 left-0 ${isPanning && panStartRef.current?.moved ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+                                    style={naturalSize ? {
+                                        width: naturalSize.width * view.zoom,
+                                        height: naturalSize.height * view.zoom,
+                                        transform: `translate(${view.panX}px, ${view.panY}px) rotate(${view.rotation}deg)`,
+                                        transformOrigin: '0 0',
+                                    } : { visibility: 'hidden' }}
+                                    onClick={handleImageClick}
+                                >
+                                    <img ref={imageRef} src={imageSrc} alt="Map for calibration" draggable={false} className="block w-full h-full select-none" style={{ imageRendering: view.zoom > 2 ? 'pixelated' : 'auto' }} onLoad={() => { if (imageRef.current) { setNaturalSize({ width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight }); }}}/>
+                                    {naturalSize && (
+                                    <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`} preserveAspectRatio="none">
+                                        <SceneLayer shapes={uprightText(buildScene(sceneInput(px(1), null)), view.rotation)} handleProps={overlayHandleProps} />
+                                        {isGpsOn && <SceneLayer shapes={gpsShapes(gpsPosition, gpsTrackPixels, px(1))} />}
                                     </svg>
+                                    )}
                                 </div>
+                                {renderLoupe()}
+                                {renderZoomControls()}
+                                {renderGpsPanel()}
+                                {renderMinimap()}
+                                {renderDetailsPanel()}
                                 {mouseRealCoords && (
                                     <div className="absolute bottom-4 right-4 bg-gray-900/80 backdrop-blur-md p-2 px-4 rounded-lg shadow-lg z-10 font-mono text-sm">
-                                        X: {mouseRealCoords.x.toFixed(2)}m, Y: {mouseRealCoords.y.toFixed(2)}m
+                                        X: {toFrame(mouseRealCoords).x.toFixed(2)}m, Y: {toFrame(mouseRealCoords).y.toFixed(2)}m{frameSuffix && <span className="font-sans text-gray-400">{frameSuffix}</span>}
+                                        {cursorElevation !== null && <div>Quota del terreno: {formatElevation(cursorElevation)}</div>}
+                                        {georeference && (
+                                            <>
+                                                <div>{formatProjected(localToProjected(georeference, mouseRealCoords))}</div>
+                                                <div>{formatLatLon(localToWgs84(georeference, mouseRealCoords))}</div>
+                                            </>
+                                        )}
                                     </div>
                                 )}
-                                {appState >= AppState.READY && (
+                                {origin && calibration && (
                                     <div 
                                         ref={compassRef}
-                                        className={`absolute bottom-8 right-8 w-32 h-32 ${isRotatingCompass ? 'cursor-grabbing' : 'cursor-grab'}`}
-                                        onMouseDown={handleCompassMouseDown}
+                                        className={`absolute bottom-8 right-8 w-32 h-32 touch-none ${isRotatingCompass ? 'cursor-grabbing' : 'cursor-grab'}`}
+                                        onPointerDown={handleCompassPointerDown}
                                         title="Clicca e trascina per impostare il Nord"
                                     >
                                         <div
                                             className="w-full h-full"
                                             style={{ 
-                                                transform: `rotate(${northRotation}deg)`,
+                                                transform: `rotate(${northRotation + view.rotation}deg)`,
                                                 transition: isRotatingCompass ? 'none' : 'transform 0.2s ease-out'
                                             }}
                                         >
                                             <svg viewBox="0 0 100 100" className="w-full h-full">
-                                                <defs>
-                                                    <polygon id="main-pointer" points="50,12 57,45 50,38 43,45" />
-                                                    <polygon id="inter-pointer" points="50,22 54,45 46,45" />
-                                                </defs>
-
-                                                <circle cx="50" cy="50" r="50" fill="rgba(17, 24, 39, 0.8)" />
-                                                <circle cx="50" cy="50" r="46" fill="none" stroke="#4b5563" strokeWidth="1" />
-
-                                                <g fill="#9ca3af">
-                                                    <use href="#inter-pointer" transform="rotate(45 50 50)" />
-                                                    <use href="#inter-pointer" transform="rotate(135 50 50)" />
-                                                    <use href="#inter-pointer" transform="rotate(225 50 50)" />
-                                                    <use href="#inter-pointer" transform="rotate(315 50 50)" />
-                                                </g>
-                                                
-                                                <g>
-                                                    <use href="#main-pointer" fill="#ef4444" transform="rotate(0 50 50)" />
-                                                    <use href="#main-pointer" fill="#f9fafb" transform="rotate(90 50 50)" />
-                                                    <use href="#main-pointer" fill="#f9fafb" transform="rotate(180 50 50)" />
-                                                    <use href="#main-pointer" fill="#f9fafb" transform="rotate(270 50 50)" />
-                                                </g>
-
-                                                <circle cx="50" cy="50" r="6" fill="#111827" stroke="#4b5563" strokeWidth="1"/>
-
-                                                <g 
-                                                    fill="#f9fafb" 
-                                                    fontSize="10" 
-                                                    fontWeight="bold" 
-                                                    textAnchor="middle"
-                                                >
-                                                    <text x="50" y="10" fill="#ef4444">N</text>
-                                                    <text x="92" y="54">E</text>
-                                                    <text x="50" y="94">S</text>
-                                                    <text x="8" y="54">W</text>
-                                                </g>
+                                                <SceneLayer shapes={compassShapes({ x: 50, y: 50 }, 50, 0)} />
                                             </svg>
                                         </div>
                                     </div>
                                 )}
                                 {renderNamingModal()}
+                                {activeDialog === 'csv-import' && (
+                                    <CsvImportDialog frameLabel={COORDINATE_FRAME_LABELS[coordinateFrame.kind]} onImport={handleImportCoordinatePoints} onClose={() => setActiveDialog(null)} />
+                                )}
+                                {activeDialog === 'coordinates' && (
+                                    <CoordinateEntryDialog defaultName={`Punto ${points.length + 1}`} northRotation={northRotation} frameLabel={COORDINATE_FRAME_LABELS[coordinateFrame.kind]} toFrame={toFrame} onAdd={handleAddCoordinatePoint} onClose={() => setActiveDialog(null)} />
+                                )}
+                                {activeDialog === 'report' && (
+                                    <ReportDialog
+                                        settings={reportSettings ?? defaultReportSettings()}
+                                        hasUniformScale={!!reportPixelsPerMeter}
+                                        hasPoints={points.length > 0}
+                                        hasAreas={areas.length > 0}
+                                        hasMeasurements={measurements.length > 0}
+                                        onExport={handleExportPDF}
+                                        onClose={() => setActiveDialog(null)}
+                                    />
+                                )}
+                                {activeDialog === 'categories' && (
+                                    <CategoriesDialog
+                                        categories={categories}
+                                        usage={[...points, ...areas].reduce<Record<string, number>>((usage, f) => f.categoryId ? { ...usage, [f.categoryId]: (usage[f.categoryId] ?? 0) + 1 } : usage, {})}
+                                        onChange={handleChangeCategories}
+                                        onClose={() => setActiveDialog(null)}
+                                    />
+                                )}
+                                {activeDialog === 'attribute-fields' && (
+                                    <AttributeFieldsDialog fields={attributeFields} onChange={handleChangeAttributeFields} onClose={() => setActiveDialog(null)} />
+                                )}
+                                {activeDialog === 'pdf-scale' && (
+                                    <PdfScaleDialog measures={pdfMeasures} onApply={handleApplyPdfScale} onClose={() => setActiveDialog(null)} />
+                                )}
+                                {activeDialog === 'terrain' && terrain && terrainModel && (
+                                    <TerrainDialog
+                                        settings={terrain}
+                                        categories={categories}
+                                        elevationCount={points.filter(p => typeof p.z === 'number').length}
+                                        tin={terrainModel.tin}
+                                        areas={areas}
+                                        volumes={terrainModel.volumes}
+                                        onChange={setTerrain}
+                                        onRemove={() => { setTerrain(null); setActiveDialog(null); }}
+                                        onClose={() => setActiveDialog(null)}
+                                    />
+                                )}
+                                {activeDialog === 'frame' && (
+                                    <CoordinateFrameDialog
+                                        frame={coordinateFrame}
+                                        northRotation={northRotation}
+                                        points={points}
+                                        onChangeFrame={setCoordinateFrame}
+                                        onChangeNorth={setNorthRotation}
+                                        onPickLine={handleStartLinePick}
+                                        onClose={() => setActiveDialog(null)}
+                                    />
+                                )}
+                                {activeDialog === 'georeference' && (
+                                    <GeoreferenceDialog points={points} northRotation={northRotation} georeference={georeference} onApply={(value) => { setGeoreference(value); setActiveDialog(null); }} onClose={() => setActiveDialog(null)} />
+                                )}
                             </div>
 
                             <div className="flex-shrink-0 bg-gray-900/80 backdrop-blur-sm p-3 z-10 border-t border-gray-700">
@@ -1054,21 +3034,73 @@ export const App: React.FC = () => {
                                             <p className="text-sm text-gray-300">{instruction.description}</p>
                                         </div>
                                     </div>
-                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                    <div className="flex flex-wrap items-center justify-end gap-2">
                                         {(appState === AppState.CALIBRATE_START || appState === AppState.CALIBRATE_END) && (
                                             <>
                                                 <label htmlFor="known-distance" className="text-sm font-semibold text-gray-300 whitespace-nowrap">Distanza Nota:</label>
                                                 <input id="known-distance" type="number" value={knownDistance} onChange={(e) => setKnownDistance(parseFloat(e.target.value) || 0)} className="w-24 bg-gray-700 border border-gray-600 rounded-md p-1.5 text-center focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"/>
                                                 <span className="text-sm text-gray-400">metri</span>
+                                                <button onClick={handleStartMultiCalibration} className="px-4 py-2 text-sm rounded-md bg-yellow-600 hover:bg-yellow-500 transition-colors flex items-center gap-2" title="Calibra con più segmenti o punti di controllo"><Ruler size={16}/>Avanzata</button>
+                                                <button onClick={handleStartRectify} className="px-4 py-2 text-sm rounded-md bg-yellow-700 hover:bg-yellow-600 transition-colors flex items-center gap-2" title="Correggi la prospettiva di una foto da quattro angoli noti"><Scan size={16}/>Prospettica</button>
+                                                {activeSheet?.pageNumber != null && (
+                                                    <button onClick={handleOpenPdfScale} disabled={isProcessing} className="px-4 py-2 text-sm rounded-md bg-yellow-600 hover:bg-yellow-500 transition-colors flex items-center gap-2 disabled:cursor-wait" title="Calibra dalla scala indicata nel PDF o dalla scala di stampa"><FileText size={16}/>Scala PDF</button>
+                                                )}
+                                            </>
+                                        )}
+                                        {appState === AppState.PICK_LINE && (
+                                            <button onClick={handleCancelLinePick} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2"><X size={16}/>Annulla</button>
+                                        )}
+                                        {appState === AppState.RECTIFY && (
+                                            <>
+                                                <label htmlFor="rectify-width" className="text-sm font-semibold text-gray-300 whitespace-nowrap">Larghezza:</label>
+                                                <input id="rectify-width" type="number" value={rectifyWidth} onChange={(e) => setRectifyWidth(parseFloat(e.target.value) || 0)} className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1.5 text-center focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"/>
+                                                <label htmlFor="rectify-height" className="text-sm font-semibold text-gray-300 whitespace-nowrap">Altezza:</label>
+                                                <input id="rectify-height" type="number" value={rectifyHeight} onChange={(e) => setRectifyHeight(parseFloat(e.target.value) || 0)} className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1.5 text-center focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"/>
+                                                <span className="text-sm text-gray-400">metri</span>
+                                                <button onClick={handleCancelRectify} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2"><X size={16}/>Annulla</button>
+                                                <button onClick={handleApplyRectify} disabled={rectifyCorners.length !== 4 || rectifyWidth <= 0 || rectifyHeight <= 0} className="px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><Check size={16}/>Applica</button>
                                             </>
                                         )}
                                         {appState === AppState.READY && (
-                                            <button onClick={handleStartAreaMode} className="px-4 py-2 text-sm rounded-md bg-teal-600 hover:bg-teal-500 transition-colors flex items-center gap-2"><Shapes size={16}/>Crea Area</button>
+                                            <div className="flex flex-wrap justify-end gap-2">
+                                                <button onClick={handleStartMultiCalibration} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2" title="Ricalibra con più segmenti o punti di controllo"><Ruler size={16}/>Ricalibra</button>
+                                                <button onClick={handleStartRectify} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2" title="Correggi la prospettiva da quattro angoli noti"><Scan size={16}/>Prospettica</button>
+                                                {activeSheet?.pageNumber != null && (
+                                                    <button onClick={handleOpenPdfScale} disabled={isProcessing} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:cursor-wait" title="Ricalibra dalla scala indicata nel PDF o dalla scala di stampa"><FileText size={16}/>Scala PDF</button>
+                                                )}
+                                                {calibration && isProjective(calibration) && (
+                                                    <button onClick={handleExportRectifiedImage} disabled={isProcessing} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:cursor-wait" title="Esporta l'immagine raddrizzata in scala uniforme"><ImageDown size={16}/>Rettificata</button>
+                                                )}
+                                                <button onClick={() => setActiveDialog('coordinates')} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2" title="Aggiungi un punto digitando le coordinate"><Crosshair size={16}/>Coordinate</button>
+                                                <button onClick={() => setActiveDialog('csv-import')} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2" title="Importa punti da un file CSV"><FileUp size={16}/>Importa CSV</button>
+                                                <button onClick={() => setActiveDialog('georeference')} className={`px-4 py-2 text-sm rounded-md transition-colors flex items-center gap-2 ${georeference ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-700 hover:bg-gray-600'}`} title={georeference ? `Georeferenziato in ${georeferenceCrs?.name ?? georeference.crs}` : "Collega la mappa a un sistema di coordinate reale"}><Globe size={16}/>Georeferenzia</button>
+                                                <button onClick={() => setActiveDialog('frame')} className={`px-4 py-2 text-sm rounded-md transition-colors flex items-center gap-2 ${coordinateFrame.kind !== 'image' ? 'bg-sky-700 hover:bg-sky-600' : 'bg-gray-700 hover:bg-gray-600'}`} title="Orienta le coordinate al Nord o a una griglia locale e imposta il Nord"><Grid3x3 size={16}/>Sistema</button>
+                                                <button onClick={handleOpenTerrain} className={`px-4 py-2 text-sm rounded-md transition-colors flex items-center gap-2 ${terrain ? 'bg-amber-700 hover:bg-amber-600' : 'bg-gray-700 hover:bg-gray-600'}`} title="Triangolazione delle quote dei punti, curve di livello e volumi di sterro e riporto"><Mountain size={16}/>Terreno</button>
+                                                <button onClick={() => handleStartMeasuring('distance')} className="px-4 py-2 text-sm rounded-md bg-orange-600 hover:bg-orange-500 transition-colors flex items-center gap-2" title="Misura la distanza tra due punti"><MoveHorizontal size={16}/>Distanza</button>
+                                                <button onClick={() => handleStartMeasuring('polyline')} className="px-4 py-2 text-sm rounded-md bg-orange-600 hover:bg-orange-500 transition-colors flex items-center gap-2" title="Misura la lunghezza di una linea spezzata"><Spline size={16}/>Polilinea</button>
+                                                <button onClick={() => handleStartMeasuring('angle')} className="px-4 py-2 text-sm rounded-md bg-orange-600 hover:bg-orange-500 transition-colors flex items-center gap-2" title="Misura l'angolo tra due lati"><DraftingCompass size={16}/>Angolo</button>
+                                                <button onClick={handleStartAreaMode} className="px-4 py-2 text-sm rounded-md bg-teal-600 hover:bg-teal-500 transition-colors flex items-center gap-2"><Shapes size={16}/>Crea Area</button>
+                                            </div>
+                                        )}
+                                        {activeMeasureKind && (
+                                            <div className="flex gap-2">
+                                                {currentMeasurePoints.length > 0 && (
+                                                    <>
+                                                        <button onClick={() => setCurrentMeasurePoints([])} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2"><X size={16}/>Annulla</button>
+                                                        <button onClick={handleRemoveLastVertex} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2" title="Rimuovi l'ultimo vertice (Backspace)"><Undo2 size={16}/>Ultimo vertice</button>
+                                                    </>
+                                                )}
+                                                {activeMeasureKind === 'polyline' && (
+                                                    <button onClick={handleFinishPolyline} disabled={currentMeasurePoints.length < 2} className="px-4 py-2 text-sm rounded-md bg-orange-600 hover:bg-orange-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><Save size={16}/>Termina</button>
+                                                )}
+                                                <button onClick={handleStopMeasuring} className="px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2"><Check size={16}/>Fine</button>
+                                            </div>
                                         )}
                                         {appState === AppState.DEFINING_AREA && (
                                             <div className="flex gap-2">
                                                  <button onClick={handleCancelAreaMode} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2"><X size={16}/>Annulla</button>
-                                                 <button onClick={handleFinishArea} disabled={currentAreaPoints.length < 3} className="px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><Save size={16}/>Salva Area</button>
+                                                 <button onClick={handleRemoveLastVertex} disabled={currentAreaPoints.length === 0} className="px-4 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed" title="Rimuovi l'ultimo vertice (Backspace)"><Undo2 size={16}/>Ultimo vertice</button>
+                                                 <button onClick={handleFinishArea} disabled={currentAreaPoints.length < 3} className="px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><Save size={16}/>{holeTargetIndex !== null ? 'Salva Foro' : 'Salva Area'}</button>
                                             </div>
                                         )}
                                     </div>
@@ -1077,39 +3109,100 @@ export const App: React.FC = () => {
                         </div>
 
                         <div className="flex-shrink-0 lg:w-1/3 xl:w-1/4 bg-gray-800 p-4 h-1/3 lg:h-full flex flex-col">
+                           {appState === AppState.CALIBRATE_MULTI ? (
+                            <CalibrationPanel
+                                references={calibrationReferences}
+                                model={calibrationModel}
+                                result={calibrationFit}
+                                tool={calibrationTool}
+                                pending={pendingReference}
+                                onToolChange={(tool) => { setCalibrationTool(tool); setPendingSegmentStart(null); setPendingReference(null); }}
+                                onModelChange={setCalibrationModel}
+                                onAddPending={handleAddCalibrationReference}
+                                onCancelPending={() => setPendingReference(null)}
+                                onToggleReference={(id) => setCalibrationReferences(prev => prev.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r))}
+                                onDeleteReference={(id) => setCalibrationReferences(prev => prev.filter(r => r.id !== id))}
+                                onApply={handleApplyMultiCalibration}
+                                onCancel={handleCancelMultiCalibration}
+                            />
+                           ) : (<>
                            <div className="flex border-b-2 border-gray-700 mb-4 flex-shrink-0">
                                <button onClick={() => setActiveTab('points')} className={`flex-1 p-3 font-semibold text-center transition-colors ${activeTab === 'points' ? 'bg-gray-700 text-blue-300' : 'text-gray-400 hover:bg-gray-700/50'}`}>Punti Salvati</button>
                                <button onClick={() => setActiveTab('areas')} className={`flex-1 p-3 font-semibold text-center transition-colors ${activeTab === 'areas' ? 'bg-gray-700 text-teal-300' : 'text-gray-400 hover:bg-gray-700/50'}`}>Aree Salvate</button>
+                               <button onClick={() => setActiveTab('measurements')} className={`flex-1 p-3 font-semibold text-center transition-colors ${activeTab === 'measurements' ? 'bg-gray-700 text-orange-300' : 'text-gray-400 hover:bg-gray-700/50'}`}>Misure</button>
                            </div>
 
                            <div className="flex justify-between items-center mb-4 flex-shrink-0">
-                             <h2 className="text-2xl font-bold text-blue-300">{activeTab === 'points' ? 'Punti' : 'Aree'}</h2>
-                              {(points.length > 0 || areas.length > 0) && (
+                             <h2 className="text-2xl font-bold text-blue-300">{activeTab === 'points' ? 'Punti' : activeTab === 'areas' ? 'Aree' : 'Misure'}</h2>
+                              {(points.length > 0 || areas.length > 0 || measurements.length > 0) && (
                                 <div className="flex items-center gap-2">
                                     <button onClick={handleExportCSV} className="px-3 py-1.5 text-sm rounded-md bg-teal-600 hover:bg-teal-500 transition-colors flex items-center gap-2">
                                         <Download size={16} /> CSV
                                     </button>
-                                     <button onClick={handleExportPDF} className="px-3 py-1.5 text-sm rounded-md bg-sky-600 hover:bg-sky-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-wait" disabled={isProcessing}>
+                                    <div className="relative">
+                                        <button onClick={() => setIsExportMenuOpen(open => !open)} className="px-3 py-1.5 text-sm rounded-md bg-emerald-600 hover:bg-emerald-500 transition-colors flex items-center gap-2" title="Esporta per GIS e CAD, o la mappa come immagine">
+                                            <Layers size={16} /> GIS/CAD <ChevronDown size={14} />
+                                        </button>
+                                        {isExportMenuOpen && (
+                                            <div className="absolute right-0 mt-1 w-44 bg-gray-900 border border-gray-700 rounded-md shadow-xl z-20 py-1" onMouseLeave={() => setIsExportMenuOpen(false)}>
+                                                {[
+                                                    { label: 'GeoJSON (.geojson)', action: handleExportGeoJSON },
+                                                    { label: 'KML (.kml)', action: handleExportKML },
+                                                    { label: 'DXF (.dxf)', action: handleExportDXF },
+                                                    { label: 'Mappa SVG (.svg)', action: handleExportSVG },
+                                                    { label: 'Mappa PNG (.png)', action: handleExportPNG },
+                                                ].map(item => (
+                                                    <button key={item.label} onClick={() => { item.action(); setIsExportMenuOpen(false); }} className="w-full text-left px-3 py-2 text-sm hover:bg-gray-700 transition-colors">{item.label}</button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                     <button onClick={handleOpenReportDialog} className="px-3 py-1.5 text-sm rounded-md bg-sky-600 hover:bg-sky-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-wait" disabled={isProcessing}>
                                         {isProcessing ? ( <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> ) : ( <FileText size={16} /> )}
                                         {isProcessing ? 'Creazione...' : 'PDF'}
                                     </button>
                                 </div>
                               )}
                            </div>
+                            {(activeTab === 'points' || activeTab === 'areas') && renderFeatureBar()}
                             {activeTab === 'points' && (points.length === 0 ? <p className="text-gray-400 flex-shrink-0">Nessun punto salvato.</p> :
                                 <div className="overflow-auto -mx-4 px-4 flex-grow min-h-0">
                                     <table className="w-full text-left">
                                         <thead className="border-b-2 border-gray-700 sticky top-0 bg-gray-800">
-                                            <tr><th className="p-2">Nome</th><th className="p-2" title="Distanza dal punto di origine">Distanza dal Punto di Riferimento (m)</th><th className="p-2">Coordinate (X, Y)</th><th className="p-2" title="Direzione in gradi rispetto al Nord">Azimut (°)</th><th className="p-2 text-right">Azioni</th></tr>
+                                            <tr><th className="p-2">Nome</th>{categories.length > 0 && <th className="p-2">Categoria</th>}<th className="p-2" title="Distanza dal punto di origine">Distanza dal Punto di Riferimento (m)</th><th className="p-2">Coordinate (X, Y){frameSuffix}</th><th className="p-2" title="Quota del punto, usata dal modello del terreno">Quota (m)</th><th className="p-2" title="Direzione in gradi rispetto al Nord">Azimut (°)</th>{georeference && <th className="p-2" title={georeferenceCrs?.name ?? georeference.crs}>Coordinate Geografiche</th>}<th className="p-2 text-right">Azioni</th></tr>
                                         </thead>
                                         <tbody>
-                                            {points.map((point, index) => (
+                                            {points.map((point, index) => matchesCategoryFilter(point) && (
                                                 <tr key={index} className="border-b border-gray-700/50 hover:bg-gray-700/50">
                                                     <td className="p-3 font-semibold">{editingIndex === index ? (<input type="text" value={editingName} onChange={(e) => setEditingName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit()} className="bg-gray-900 border border-gray-600 rounded-md p-1 w-full" autoFocus />) : ( point.name )}</td>
+                                                    {categories.length > 0 && <td className="p-3">{renderCategorySelect(point.categoryId, categoryId => handleSetPointCategory(index, categoryId))}</td>}
                                                     <td className="p-3 font-mono">{point.distance.toFixed(2)}</td>
-                                                    <td className="p-3 font-mono">({point.realCoords.x.toFixed(2)}, {point.realCoords.y.toFixed(2)})</td>
+                                                    <td className="p-3 font-mono">({toFrame(point.realCoords).x.toFixed(2)}, {toFrame(point.realCoords).y.toFixed(2)})</td>
+                                                    <td className="p-3">
+                                                        <input
+                                                            type="text"
+                                                            inputMode="decimal"
+                                                            key={`${index}-${point.z ?? ''}`}
+                                                            defaultValue={point.z ?? ''}
+                                                            disabled={isLocked(point)}
+                                                            onBlur={(e) => {
+                                                                const z = parseLocaleNumber(e.target.value);
+                                                                if (z !== (point.z ?? null)) handleSetPointElevation(index, z);
+                                                                if (z === null) e.target.value = '';
+                                                            }}
+                                                            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                                            placeholder="—"
+                                                            className="w-20 bg-gray-900 border border-gray-600 rounded-md p-1 font-mono text-sm disabled:opacity-50"
+                                                        />
+                                                    </td>
                                                     <td className="p-3 font-mono">{point.bearing.toFixed(2)}</td>
-                                                    <td className="p-3 text-right">{editingIndex === index ? (<div className="flex gap-2 justify-end"><button onClick={handleSaveEdit} className="text-green-400 hover:text-green-300 p-1 rounded-full hover:bg-green-500/20"><Check size={18} /></button><button onClick={handleCancelEditing} className="text-gray-400 hover:text-gray-300 p-1 rounded-full hover:bg-gray-500/20"><X size={18} /></button></div>) : (<div className="flex gap-2 justify-end"><button onClick={() => handleStartEditing(index)} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20"><Pencil size={18} /></button><button onClick={() => handleDeletePoint(index)} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20"><Trash2 size={18} /></button></div>)}</td>
+                                                    {georeference && (
+                                                        <td className="p-3 font-mono text-xs whitespace-nowrap">
+                                                            <div>{formatProjected(localToProjected(georeference, point.realCoords))}</div>
+                                                            <div className="text-gray-400">{formatLatLon(localToWgs84(georeference, point.realCoords))}</div>
+                                                        </td>
+                                                    )}
+                                                    <td className="p-3 text-right">{editingIndex === index ? (<div className="flex gap-2 justify-end"><button onClick={handleSaveEdit} className="text-green-400 hover:text-green-300 p-1 rounded-full hover:bg-green-500/20"><Check size={18} /></button><button onClick={handleCancelEditing} className="text-gray-400 hover:text-gray-300 p-1 rounded-full hover:bg-gray-500/20"><X size={18} /></button></div>) : (<div className="flex gap-2 justify-end"><button onClick={() => setDetailsFeature({ kind: 'point', index })} className="text-gray-300 hover:text-white p-1 rounded-full hover:bg-gray-500/20" title="Attributi, note e foto"><ClipboardList size={18} /></button><button onClick={() => handleStartEditing(index)} disabled={isLocked(point)} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20 disabled:opacity-30 disabled:cursor-not-allowed"><Pencil size={18} /></button><button onClick={() => handleDeletePoint(index)} disabled={isLocked(point)} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20 disabled:opacity-30 disabled:cursor-not-allowed"><Trash2 size={18} /></button></div>)}</td>
                                                 </tr>
                                             ))}
                                         </tbody>
@@ -1117,27 +3210,98 @@ export const App: React.FC = () => {
                                 </div>
                             )}
                              {activeTab === 'areas' && (areas.length === 0 ? <p className="text-gray-400 flex-shrink-0">Nessuna area salvata.</p> :
+                                <>
+                                <div className="flex flex-wrap items-center gap-2 mb-3 flex-shrink-0 text-sm">
+                                    <span className="text-gray-400">{selectedAreaIndices.length === 0 ? 'Seleziona le aree per le operazioni' : `${selectedAreaIndices.length} selezionate`}</span>
+                                    <button onClick={() => handleAreaOperation('union')} disabled={selectedAreaIndices.length < 2} className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed" title="Unione delle aree selezionate"><SquaresUnite size={16} />Unione</button>
+                                    <button onClick={() => handleAreaOperation('intersection')} disabled={selectedAreaIndices.length < 2} className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed" title="Parte comune delle aree selezionate"><SquaresIntersect size={16} />Intersezione</button>
+                                    <button onClick={() => handleAreaOperation('difference')} disabled={selectedAreaIndices.length < 2} className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed" title="Prima area selezionata meno le altre"><SquaresSubtract size={16} />Differenza</button>
+                                    <div className="flex items-center gap-1">
+                                        <input type="number" step="0.5" value={bufferDistance} onChange={(e) => setBufferDistance(parseFloat(e.target.value) || 0)} className="w-16 bg-gray-700 border border-gray-600 rounded-md p-1.5 text-center focus:outline-none focus:ring-2 focus:ring-blue-500 text-white" title="Distanza in metri: positiva verso l'esterno, negativa verso l'interno" />
+                                        <span className="text-gray-400">m</span>
+                                        <button onClick={handleBufferAreas} disabled={selectedAreaIndices.length === 0 || !bufferDistance} className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed" title="Fascia attorno a ogni area selezionata (distanza negativa: arretramento verso l'interno)"><Expand size={16} />Buffer</button>
+                                    </div>
+                                </div>
+                                <div className="overflow-auto -mx-4 px-4 flex-grow min-h-0">
+                                    <table className="w-full text-left">
+                                        <thead className="border-b-2 border-gray-700 sticky top-0 bg-gray-800">
+                                            <tr><th className="p-2"></th><th className="p-2">Nome</th>{categories.length > 0 && <th className="p-2">Categoria</th>}<th className="p-2">Area (m²)</th><th className="p-2">Perimetro (m)</th><th className="p-2 text-right">Azioni</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {areas.map((area, index) => {
+                                                if (!matchesCategoryFilter(area)) return null;
+                                                const locked = isLocked(area);
+                                                const metrics = computeAreaMetrics(area);
+                                                const bounds = boundsInFrame(area.points.map(p => p.realCoords), toFrame);
+                                                return (
+                                                    <tr key={index} className="border-b border-gray-700/50 hover:bg-gray-700/50 align-top">
+                                                        <td className="p-3"><input type="checkbox" checked={selectedAreaIndices.includes(index)} onChange={() => toggleAreaSelection(index)} title="Seleziona per le operazioni" /></td>
+                                                        <td className="p-3">
+                                                            <div className="font-semibold">{editingAreaIndex === index ? (<input type="text" value={editingAreaName} onChange={(e) => setEditingAreaName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSaveEditArea()} className="bg-gray-900 border border-gray-600 rounded-md p-1 w-full" autoFocus />) : ( area.name )}</div>
+                                                            {area.derivation && <div className="text-xs text-purple-300 mt-1">{describeDerivation(area.derivation)}</div>}
+                                                            {metrics.crossings > 0 && <div className="text-xs text-yellow-300 flex items-center gap-1 mt-1"><AlertTriangle size={12} />Lati che si intersecano: area non valida</div>}
+                                                            <div className="text-xs text-gray-400 font-mono mt-1">
+                                                                <div>Centroide: {toFrame(metrics.centroid).x.toFixed(2)}, {toFrame(metrics.centroid).y.toFixed(2)}</div>
+                                                                <div>Ingombro: {(bounds.max.x - bounds.min.x).toFixed(2)} × {(bounds.max.y - bounds.min.y).toFixed(2)} m</div>
+                                                                <div>Lati: {metrics.sideLengths.map(l => l.toFixed(2)).join(' · ')}</div>
+                                                            </div>
+                                                            {area.holes.map((hole, h) => (
+                                                                <div key={h} className="text-xs text-gray-300 flex items-center gap-2 mt-1">
+                                                                    <span>Foro {h + 1}: <span className="font-mono">{calculatePolygonArea(hole.map(p => p.realCoords)).toFixed(2)} m²</span></span>
+                                                                    <button onClick={() => handleDeleteHole(index, h)} disabled={locked} className="disabled:opacity-30 disabled:cursor-not-allowed text-red-400 hover:text-red-300 rounded-full hover:bg-red-500/20" title="Elimina foro"><X size={14} /></button>
+                                                                </div>
+                                                            ))}
+                                                        </td>
+                                                        {categories.length > 0 && <td className="p-3">{renderCategorySelect(area.categoryId, categoryId => handleSetAreaCategory(index, categoryId))}</td>}
+                                                        <td className="p-3 font-mono">{area.realArea.toFixed(2)}</td>
+                                                        <td className="p-3 font-mono">{metrics.perimeter.toFixed(2)}</td>
+                                                        <td className="p-3 text-right">{editingAreaIndex === index ? (<div className="flex gap-2 justify-end"><button onClick={handleSaveEditArea} className="text-green-400 hover:text-green-300 p-1 rounded-full hover:bg-green-500/20"><Check size={18} /></button><button onClick={handleCancelEditingArea} className="text-gray-400 hover:text-gray-300 p-1 rounded-full hover:bg-gray-500/20"><X size={18} /></button></div>) : (<div className="flex gap-2 justify-end"><button onClick={() => handleStartHoleMode(index)} disabled={appState !== AppState.READY || locked} className="text-teal-400 hover:text-teal-300 p-1 rounded-full hover:bg-teal-500/20 disabled:opacity-30 disabled:cursor-not-allowed" title="Aggiungi foro"><SquareDashed size={18} /></button><button onClick={() => setDetailsFeature({ kind: 'area', index })} className="text-gray-300 hover:text-white p-1 rounded-full hover:bg-gray-500/20" title="Attributi, note e foto"><ClipboardList size={18} /></button><button onClick={() => handleStartEditingArea(index)} disabled={locked} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20 disabled:opacity-30 disabled:cursor-not-allowed"><Pencil size={18} /></button><button onClick={() => handleDeleteArea(index)} disabled={locked} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20 disabled:opacity-30 disabled:cursor-not-allowed"><Trash2 size={18} /></button></div>)}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                </>
+                            )}
+                             {activeTab === 'measurements' && (measurements.length === 0 ? <p className="text-gray-400 flex-shrink-0">Nessuna misura salvata.</p> :
                                 <div className="overflow-auto -mx-4 px-4 flex-grow min-h-0">
                                     <table className="w-full text-left">
                                         <thead className="border-b-2 border-gray-700 sticky top-0 bg-gray-800">
-                                            <tr><th className="p-2">Nome</th><th className="p-2">Area (m²)</th><th className="p-2 text-right">Azioni</th></tr>
+                                            <tr><th className="p-2">Nome</th><th className="p-2">Valore</th><th className="p-2 text-right">Azioni</th></tr>
                                         </thead>
                                         <tbody>
-                                            {areas.map((area, index) => (
+                                            {measurements.map((measurement, index) => (
                                                 <tr key={index} className="border-b border-gray-700/50 hover:bg-gray-700/50">
-                                                    <td className="p-3 font-semibold">{editingAreaIndex === index ? (<input type="text" value={editingAreaName} onChange={(e) => setEditingAreaName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSaveEditArea()} className="bg-gray-900 border border-gray-600 rounded-md p-1 w-full" autoFocus />) : ( area.name )}</td>
-                                                    <td className="p-3 font-mono">{area.realArea.toFixed(2)}</td>
-                                                    <td className="p-3 text-right">{editingAreaIndex === index ? (<div className="flex gap-2 justify-end"><button onClick={handleSaveEditArea} className="text-green-400 hover:text-green-300 p-1 rounded-full hover:bg-green-500/20"><Check size={18} /></button><button onClick={handleCancelEditingArea} className="text-gray-400 hover:text-gray-300 p-1 rounded-full hover:bg-gray-500/20"><X size={18} /></button></div>) : (<div className="flex gap-2 justify-end"><button onClick={() => handleStartEditingArea(index)} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20"><Pencil size={18} /></button><button onClick={() => handleDeleteArea(index)} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20"><Trash2 size={18} /></button></div>)}</td>
+                                                    <td className="p-3 font-semibold">{editingMeasurementIndex === index ? (<input type="text" value={editingMeasurementName} onChange={(e) => setEditingMeasurementName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSaveEditMeasurement()} className="bg-gray-900 border border-gray-600 rounded-md p-1 w-full" autoFocus />) : ( measurement.name )}</td>
+                                                    <td className="p-3 font-mono">
+                                                        <div>{summarizeMeasurement(measurement, northRotation)}</div>
+                                                        {measurement.kind === 'polyline' && (
+                                                            <div className="text-xs text-gray-400">{segmentLengths(measurement.points.map(p => p.realCoords)).map(l => l.toFixed(2)).join(' + ')}</div>
+                                                        )}
+                                                    </td>
+                                                    <td className="p-3 text-right">{editingMeasurementIndex === index ? (<div className="flex gap-2 justify-end"><button onClick={handleSaveEditMeasurement} className="text-green-400 hover:text-green-300 p-1 rounded-full hover:bg-green-500/20"><Check size={18} /></button><button onClick={handleCancelEditingMeasurement} className="text-gray-400 hover:text-gray-300 p-1 rounded-full hover:bg-gray-500/20"><X size={18} /></button></div>) : (<div className="flex gap-2 justify-end"><button onClick={() => handleStartEditingMeasurement(index)} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20"><Pencil size={18} /></button><button onClick={() => handleDeleteMeasurement(index)} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20"><Trash2 size={18} /></button></div>)}</td>
                                                 </tr>
                                             ))}
                                         </tbody>
                                     </table>
                                 </div>
                             )}
+                           </>)}
                         </div>
                     </main>
                 </>
             )}
+            {pdfPicker && (
+                <PdfPageDialog
+                    pdf={pdfPicker.pdf}
+                    title={pdfPicker.mode === 'new' ? `Pagine di "${pdfPicker.name}"` : 'Aggiungi pagine del PDF'}
+                    usedPages={pdfPicker.mode === 'add' ? sheets.flatMap(sheet => sheet.pageNumber !== null ? [sheet.pageNumber] : []) : []}
+                    onConfirm={handleConfirmPdfPages}
+                    onClose={() => setPdfPicker(null)}
+                />
+            )}
+            {applyUpdate && <UpdatePrompt onUpdate={applyUpdate} onDismiss={() => setApplyUpdate(null)} />}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Check, Plus, Trash2 } from 'lucide-react';
+import { AttributeField, AttributeType } from '../types';
+import { ATTRIBUTE_TYPE_LABELS, createAttributeField } from '../utils/attributes';
+
+interface AttributeFieldsDialogProps {
+    fields: AttributeField[];
+    // Every change is applied at once
+    onChange: (fields: AttributeField[]) => void;
+    onClose: () => void;
+}
+
+// Values of a choice field, one per comma
+const parseOptions = (text: string) => text.split(',').map(o => o.trim()).filter(Boolean);
+
+export const AttributeFieldsDialog: React.FC<AttributeFieldsDialogProps> = ({ fields, onChange, onClose }) => {
+    const update = (id: string, changes: Partial<AttributeField>) =>
+        onChange(fields.map(f => f.id === id ? { ...f, ...changes } : f));
+
+    const handleDelete = (field: AttributeField) => {
+        if (!confirm(`Eliminare il campo "${field.name}"? I valori inseriti nel foglio aperto andranno persi.`)) return;
+        onChange(fields.filter(f => f.id !== field.id));
+    };
+
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white";
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30 p-4" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-2xl max-h-full overflow-auto" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300">Campi degli attributi</h3>
+
+                {fields.length === 0 ? (
+                    <p className="text-sm text-gray-400 mb-4">Nessun campo. I campi sono le informazioni da rilevare per ogni punto e area, ad esempio diametro o stato di conservazione.</p>
+                ) : (
+                    <table className="w-full text-left text-sm mb-4">
+                        <thead className="border-b border-gray-700 text-gray-400">
+                            <tr><th className="p-1">Nome</th><th className="p-1">Tipo</th><th className="p-1">Valori (separati da virgola)</th><th className="p-1"></th></tr>
+                        </thead>
+                        <tbody>
+                            {fields.map(field => (
+                                <tr key={field.id} className="border-b border-gray-700/50">
+                                    <td className="p-1"><input type="text" value={field.name} onChange={(e) => update(field.id, { name: e.target.value })} className={inputClass} /></td>
+                                    <td className="p-1">
+                                        <select value={field.type} onChange={(e) => update(field.id, { type: e.target.value as AttributeType })} className={inputClass}>
+                                            {(Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeType[]).map(type => <option key={type} value={type}>{ATTRIBUTE_TYPE_LABELS[type]}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="p-1">
+                                        {field.type === 'choice' && (
+                                            <input
+                                                type="text"
+                                                defaultValue={field.options.join(', ')}
+                                                placeholder="es. buono, discreto, pessimo"
+                                                onBlur={(e) => update(field.id, { options: parseOptions(e.target.value) })}
+                                                className={inputClass}
+                                            />
+                                        )}
+                                    </td>
+                                    <td className="p-1 text-right">
+                                        <button onClick={() => handleDelete(field)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors text-red-400" title="Elimina campo"><Trash2 size={16} /></button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="flex justify-between gap-3">
+                    <button onClick={() => onChange([...fields, createAttributeField(fields)])} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2">
+                        <Plus size={16} /> Nuovo campo
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2">
+                        <Check size={16} /> Fatto
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
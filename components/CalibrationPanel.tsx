@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Ruler, Target, Trash2, Check, X, Eye, EyeOff } from 'lucide-react';
+import { CalibrationModel, CalibrationReference, PixelCoords } from '../types';
+import { CalibrationFitResult } from '../utils/calibration';
+import { parseLocaleNumber } from '../utils/csv';
+
+export type CalibrationTool = 'segment' | 'control';
+
+// A reference that has been clicked on the image but still needs its known value
+export type PendingCalibrationReference =
+    | { kind: 'segment'; start: PixelCoords; end: PixelCoords }
+    | { kind: 'control'; pixel: PixelCoords };
+
+interface CalibrationPanelProps {
+    references: CalibrationReference[];
+    model: CalibrationModel;
+    result: CalibrationFitResult;
+    tool: CalibrationTool;
+    pending: PendingCalibrationReference | null;
+    onToolChange: (tool: CalibrationTool) => void;
+    onModelChange: (model: CalibrationModel) => void;
+    onAddPending: (value: { length: number } | { x: number; y: number }) => void;
+    onCancelPending: () => void;
+    onToggleReference: (id: string) => void;
+    onDeleteReference: (id: string) => void;
+    onApply: () => void;
+    onCancel: () => void;
+}
+
+const MODEL_LABELS: Record<CalibrationModel, string> = {
+    scale: 'Solo scala',
+    similarity: 'Scala e rotazione',
+    affine: 'Affine (scale X/Y separate)',
+    projective: 'Prospettica (4+ punti di controllo)',
+};
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+    references, model, result, tool, pending,
+    onToolChange, onModelChange, onAddPending, onCancelPending, onToggleReference, onDeleteReference, onApply, onCancel,
+}) => {
+    const [first, setFirst] = useState<string>('');
+    const [second, setSecond] = useState<string>('');
+
+    const firstValue = parseLocaleNumber(first);
+    const secondValue = parseLocaleNumber(second);
+    const isPendingValid = pending?.kind === 'segment'
+        ? firstValue !== null && firstValue > 0
+        : firstValue !== null && secondValue !== null;
+
+    const handleAdd = () => {
+        if (!pending || !isPendingValid) return;
+        onAddPending(pending.kind === 'segment' ? { length: firstValue as number } : { x: firstValue as number, y: secondValue as number });
+        setFirst('');
+        setSecond('');
+    };
+
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-white";
+    const toolClass = (t: CalibrationTool) => `flex-1 p-2 text-sm font-semibold flex items-center justify-center gap-2 transition-colors ${tool === t ? 'bg-gray-700 text-yellow-300' : 'text-gray-400 hover:bg-gray-700/50'}`;
+
+    return (
+        <div className="flex flex-col min-h-0 h-full">
+            <h2 className="text-2xl font-bold text-yellow-300 mb-3 flex-shrink-0">Calibrazione Avanzata</h2>
+
+            <div className="flex border-b-2 border-gray-700 mb-3 flex-shrink-0">
+                <button onClick={() => onToolChange('segment')} className={toolClass('segment')}><Ruler size={16} /> Segmento</button>
+                <button onClick={() => onToolChange('control')} className={toolClass('control')}><Target size={16} /> Punto di controllo</button>
+            </div>
+            <p className="text-sm text-gray-400 mb-3 flex-shrink-0">
+                {tool === 'segment'
+                    ? 'Clicca gli estremi di un segmento di lunghezza nota.'
+                    : 'Clicca un punto di cui conosci le coordinate in metri.'}
+            </p>
+
+            {pending && (
+                <div className="bg-gray-900 rounded-md p-3 mb-3 flex-shrink-0">
+                    <div className="flex gap-2 mb-2">
+                        <div className="flex-1">
+                            <label className="block text-xs text-gray-400 mb-1">{pending.kind === 'segment' ? 'Lunghezza (m)' : 'X (m)'}</label>
+                            <input type="text" inputMode="decimal" value={first} onChange={(e) => setFirst(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} className={inputClass} autoFocus />
+                        </div>
+                        {pending.kind === 'control' && (
+                            <div className="flex-1">
+                                <label className="block text-xs text-gray-400 mb-1">Y (m)</label>
+                                <input type="text" inputMode="decimal" value={second} onChange={(e) => setSecond(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} className={inputClass} />
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={onCancelPending} className="px-3 py-1.5 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2"><X size={14} /> Annulla</button>
+                        <button onClick={handleAdd} disabled={!isPendingValid} className="px-3 py-1.5 text-sm rounded-md bg-yellow-600 hover:bg-yellow-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><Check size={14} /> Aggiungi</button>
+                    </div>
+                </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm mb-3 flex-shrink-0">Modello:
+                <select value={model} onChange={(e) => onModelChange(e.target.value as CalibrationModel)} className="bg-gray-900 border border-gray-700 rounded-md p-1.5 text-sm text-white">
+                    {(Object.keys(MODEL_LABELS) as CalibrationModel[]).map(m => <option key={m} value={m}>{MODEL_LABELS[m]}</option>)}
+                </select>
+            </label>
+
+            <div className="overflow-auto -mx-4 px-4 flex-grow min-h-0">
+                {references.length === 0 ? <p className="text-gray-400">Nessun riferimento.</p> : (
+                    <table className="w-full text-left text-sm">
+                        <thead className="border-b-2 border-gray-700 sticky top-0 bg-gray-800">
+                            <tr><th className="p-2">#</th><th className="p-2">Valore noto</th><th className="p-2" title="Scarto rispetto alla trasformazione calcolata">Scarto (m)</th><th className="p-2 text-right">Azioni</th></tr>
+                        </thead>
+                        <tbody>
+                            {references.map((r, i) => {
+                                const residual = result.ok ? result.fit.residuals[i] : NaN;
+                                return (
+                                    <tr key={r.id} className={`border-b border-gray-700/50 ${r.enabled ? '' : 'text-gray-500 line-through'}`}>
+                                        <td className="p-2">{r.kind === 'segment' ? `S${i + 1}` : `C${i + 1}`}</td>
+                                        <td className="p-2 font-mono">{r.kind === 'segment' ? `${r.length.toFixed(3)} m` : `(${r.real.x.toFixed(2)}, ${r.real.y.toFixed(2)})`}</td>
+                                        <td className="p-2 font-mono">{Number.isFinite(residual) ? residual.toFixed(3) : '—'}</td>
+                                        <td className="p-2 text-right whitespace-nowrap">
+                                            <button onClick={() => onToggleReference(r.id)} className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-blue-500/20" title={r.enabled ? 'Escludi dal calcolo' : 'Includi nel calcolo'}>{r.enabled ? <Eye size={16} /> : <EyeOff size={16} />}</button>
+                                            <button onClick={() => onDeleteReference(r.id)} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20"><Trash2 size={16} /></button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div className="flex-shrink-0 pt-3 border-t border-gray-700 mt-3">
+                {result.ok
+                    ? <p className="text-sm mb-3">Errore quadratico medio: <span className="font-mono font-bold text-yellow-300">{result.fit.rms.toFixed(3)} m</span></p>
+                    : <p className="text-sm text-red-400 mb-3">{result.error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onCancel} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2"><X size={16} /> Annulla</button>
+                    <button onClick={onApply} disabled={!result.ok} className="px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><Check size={16} /> Applica</button>
+                </div>
+            </div>
+        </div>
+    );
+};
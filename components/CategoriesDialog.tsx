@@ -0,0 +1,81 @@
+import React from 'react';
+import { Check, Eye, EyeOff, Lock, LockOpen, Plus, Trash2 } from 'lucide-react';
+import { Category, CategorySymbol } from '../types';
+import { CATEGORY_SYMBOL_LABELS, LABEL_SIZES, createCategory } from '../utils/categories';
+
+interface CategoriesDialogProps {
+    categories: Category[];
+    // Number of points and areas of the current sheet in each category, by id
+    usage: Record<string, number>;
+    // Every change is applied at once
+    onChange: (categories: Category[]) => void;
+    onClose: () => void;
+}
+
+export const CategoriesDialog: React.FC<CategoriesDialogProps> = ({ categories, usage, onChange, onClose }) => {
+    const update = (id: string, changes: Partial<Category>) =>
+        onChange(categories.map(c => c.id === id ? { ...c, ...changes } : c));
+
+    const handleDelete = (category: Category) => {
+        const count = usage[category.id] ?? 0;
+        if (count > 0 && !confirm(`Eliminare la categoria "${category.name}"? I suoi ${count} elementi resteranno senza categoria.`)) return;
+        onChange(categories.filter(c => c.id !== category.id));
+    };
+
+    const iconButton = "p-1.5 rounded-md hover:bg-gray-700 transition-colors";
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30 p-4" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-2xl max-h-full overflow-auto" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300">Categorie</h3>
+
+                {categories.length === 0 ? (
+                    <p className="text-sm text-gray-400 mb-4">Nessuna categoria. Le categorie raggruppano punti e aree con simbolo e colore propri, ad esempio alberi o pozzetti.</p>
+                ) : (
+                    <table className="w-full text-left text-sm mb-4">
+                        <thead className="border-b border-gray-700 text-gray-400">
+                            <tr><th className="p-1">Colore</th><th className="p-1">Nome</th><th className="p-1">Simbolo</th><th className="p-1">Etichette</th><th className="p-1"></th></tr>
+                        </thead>
+                        <tbody>
+                            {categories.map(category => (
+                                <tr key={category.id} className="border-b border-gray-700/50">
+                                    <td className="p-1"><input type="color" value={category.color} onChange={(e) => update(category.id, { color: e.target.value })} className="w-8 h-8 bg-transparent cursor-pointer" /></td>
+                                    <td className="p-1"><input type="text" value={category.name} onChange={(e) => update(category.id, { name: e.target.value })} className="w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white" /></td>
+                                    <td className="p-1">
+                                        <select value={category.symbol} onChange={(e) => update(category.id, { symbol: e.target.value as CategorySymbol })} className="bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white">
+                                            {(Object.keys(CATEGORY_SYMBOL_LABELS) as CategorySymbol[]).map(symbol => <option key={symbol} value={symbol}>{CATEGORY_SYMBOL_LABELS[symbol]}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="p-1">
+                                        <select value={category.labelSize ?? ''} onChange={(e) => update(category.id, { labelSize: e.target.value ? Number(e.target.value) : null })} className="bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white">
+                                            <option value="">Nascoste</option>
+                                            {LABEL_SIZES.map(size => <option key={size.value} value={size.value}>{size.label}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="p-1 whitespace-nowrap text-right">
+                                        <button onClick={() => update(category.id, { visible: !category.visible })} className={`${iconButton} ${category.visible ? 'text-gray-200' : 'text-gray-500'}`} title={category.visible ? 'Nascondi sulla mappa' : 'Mostra sulla mappa'}>
+                                            {category.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+                                        </button>
+                                        <button onClick={() => update(category.id, { locked: !category.locked })} className={`${iconButton} ${category.locked ? 'text-yellow-300' : 'text-gray-400'}`} title={category.locked ? 'Sblocca' : 'Blocca: impedisce di spostare, modificare o eliminare gli elementi'}>
+                                            {category.locked ? <Lock size={16} /> : <LockOpen size={16} />}
+                                        </button>
+                                        <button onClick={() => handleDelete(category)} className={`${iconButton} text-red-400`} title="Elimina categoria"><Trash2 size={16} /></button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="flex justify-between gap-3">
+                    <button onClick={() => onChange([...categories, createCategory(categories)])} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2">
+                        <Plus size={16} /> Nuova categoria
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2">
+                        <Check size={16} /> Fatto
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { CoordinateEntry, RealCoords } from '../types';
+import { parseLocaleNumber } from '../utils/csv';
+import { polarToReal } from '../utils/geometry';
+
+interface CoordinateEntryDialogProps {
+    defaultName: string;
+    northRotation: number;
+    // Coordinates are typed in the frame of the sheet; polar input is converted to it
+    frameLabel: string;
+    toFrame: (real: RealCoords) => RealCoords;
+    onAdd: (entry: CoordinateEntry) => void;
+    onClose: () => void;
+}
+
+type EntryMode = 'cartesian' | 'polar';
+
+export const CoordinateEntryDialog: React.FC<CoordinateEntryDialogProps> = ({ defaultName, northRotation, frameLabel, toFrame, onAdd, onClose }) => {
+    const [mode, setMode] = useState<EntryMode>('cartesian');
+    const [name, setName] = useState<string>(defaultName);
+    const [first, setFirst] = useState<string>('');
+    const [second, setSecond] = useState<string>('');
+
+    const firstValue = parseLocaleNumber(first);
+    const secondValue = parseLocaleNumber(second);
+
+    // Cartesian input is X/Y in metres, polar input is distance and azimuth from the origin
+    let realCoords: RealCoords | null = null;
+    if (firstValue !== null && secondValue !== null) {
+        realCoords = mode === 'cartesian'
+            ? { x: firstValue, y: secondValue }
+            : firstValue >= 0 ? toFrame(polarToReal(firstValue, secondValue, northRotation)) : null;
+    }
+
+    const handleSave = () => {
+        if (!realCoords || !name.trim()) return;
+        onAdd({ name: name.trim(), realCoords });
+    };
+
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white";
+    const tabClass = (tab: EntryMode) => `flex-1 p-2 font-semibold text-center transition-colors ${mode === tab ? 'bg-gray-700 text-blue-300' : 'text-gray-400 hover:bg-gray-700/50'}`;
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-sm" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-1 text-center text-blue-300">Aggiungi Punto per Coordinate</h3>
+                <p className="text-xs text-gray-400 mb-4 text-center">Sistema di coordinate: {frameLabel}</p>
+                <div className="flex border-b-2 border-gray-700 mb-4">
+                    <button onClick={() => setMode('cartesian')} className={tabClass('cartesian')}>X / Y</button>
+                    <button onClick={() => setMode('polar')} className={tabClass('polar')}>Distanza / Azimut</button>
+                </div>
+                <label className="block text-sm text-gray-300 mb-1">Nome</label>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} mb-3`} autoFocus />
+                <div className="flex gap-3 mb-3">
+                    <div className="flex-1">
+                        <label className="block text-sm text-gray-300 mb-1">{mode === 'cartesian' ? 'X (m)' : 'Distanza (m)'}</label>
+                        <input type="text" inputMode="decimal" value={first} onChange={(e) => setFirst(e.target.value)} className={inputClass} onKeyDown={(e) => e.key === 'Enter' && handleSave()} />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-sm text-gray-300 mb-1">{mode === 'cartesian' ? 'Y (m)' : 'Azimut (°)'}</label>
+                        <input type="text" inputMode="decimal" value={second} onChange={(e) => setSecond(e.target.value)} className={inputClass} onKeyDown={(e) => e.key === 'Enter' && handleSave()} />
+                    </div>
+                </div>
+                <p className="text-sm text-gray-400 font-mono mb-4 h-5">
+                    {mode === 'polar' && realCoords && `X: ${realCoords.x.toFixed(2)}m, Y: ${realCoords.y.toFixed(2)}m`}
+                </p>
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
+                        <X size={16} /> Annulla
+                    </button>
+                    <button onClick={handleSave} disabled={!realCoords || !name.trim()} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        <Save size={16} /> Salva
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
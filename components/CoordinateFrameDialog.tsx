@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Check, Navigation, MousePointerClick } from 'lucide-react';
+import { CoordinateFrame, Point } from '../types';
+import { parseLocaleNumber } from '../utils/csv';
+import { normalizeDegrees } from '../utils/geometry';
+import { COORDINATE_FRAME_LABELS, frameTransform } from '../utils/coordinateFrame';
+
+interface CoordinateFrameDialogProps {
+    frame: CoordinateFrame;
+    northRotation: number;
+    points: Point[];
+    // Every change is applied at once
+    onChangeFrame: (frame: CoordinateFrame) => void;
+    onChangeNorth: (northRotation: number) => void;
+    // Closes the dialog to click two points along a line: a line of known azimuth for north,
+    // the X axis for the grid
+    onPickLine: (target: 'north' | 'grid', bearing: number) => void;
+    onClose: () => void;
+}
+
+const FRAME_HINTS: Record<CoordinateFrame['kind'], string> = {
+    image: "X verso destra e Y verso l'alto dell'immagine.",
+    north: 'X verso Est e Y verso Nord, come indicato dalla bussola.',
+    grid: 'Assi ruotati rispetto al Nord e origine spostata, ad esempio allineati a un edificio.',
+};
+
+const formatAngle = (degrees: number) => String(Number(degrees.toFixed(4)));
+
+// Frame the coordinates are shown, typed and exported in, and the direction of north
+export const CoordinateFrameDialog: React.FC<CoordinateFrameDialogProps> = ({ frame, northRotation, points, onChangeFrame, onChangeNorth, onPickLine, onClose }) => {
+    const [lineBearing, setLineBearing] = useState<string>('0');
+    const [knownPointIndex, setKnownPointIndex] = useState<number>(0);
+    const [knownX, setKnownX] = useState<string>('');
+    const [knownY, setKnownY] = useState<string>('');
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white";
+    const buttonClass = "px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed";
+
+    // Numbers are read when the field is left, so partial values like "-" can be typed
+    const numberInput = (id: string, value: number, onValue: (value: number) => void) => (
+        <input
+            type="text"
+            inputMode="decimal"
+            key={`${id}-${value}`}
+            defaultValue={formatAngle(value)}
+            onBlur={(e) => {
+                const parsed = parseLocaleNumber(e.target.value);
+                if (parsed !== null) onValue(parsed);
+                else e.target.value = formatAngle(value);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className={inputClass}
+        />
+    );
+
+    const handleChangeKind = (kind: CoordinateFrame['kind']) => {
+        if (kind === frame.kind) return;
+        onChangeFrame(kind === 'grid' ? { kind, rotation: 0, originX: 0, originY: 0 } : { kind });
+    };
+
+    // Moves the grid so that the chosen point has the typed coordinates
+    const knownPoint = points[knownPointIndex];
+    const knownCoords = { x: parseLocaleNumber(knownX), y: parseLocaleNumber(knownY) };
+    const handlePlaceGrid = () => {
+        if (frame.kind !== 'grid' || !knownPoint || knownCoords.x === null || knownCoords.y === null) return;
+        const rotated = frameTransform({ ...frame, originX: 0, originY: 0 }, northRotation).toFrame(knownPoint.realCoords);
+        onChangeFrame({ ...frame, originX: knownCoords.x - rotated.x, originY: knownCoords.y - rotated.y });
+    };
+
+    const parsedBearing = parseLocaleNumber(lineBearing);
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30 p-4" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-lg max-h-full overflow-auto" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300">Sistema di coordinate</h3>
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2 flex items-center gap-2"><Navigation size={14} /> Nord</h4>
+                <div className="grid grid-cols-2 gap-3 mb-2 text-sm">
+                    <label className="block text-gray-300">
+                        <span className="block mb-1" title="Angolo in senso orario dall'alto dell'immagine al Nord">Nord rispetto all'immagine (°)</span>
+                        {numberInput('north', northRotation, value => onChangeNorth(normalizeDegrees(value)))}
+                    </label>
+                    <label className="block text-gray-300">
+                        <span className="block mb-1">Azimut noto di una linea (°)</span>
+                        <input type="text" inputMode="decimal" value={lineBearing} onChange={(e) => setLineBearing(e.target.value)} className={inputClass} />
+                    </label>
+                </div>
+                <div className="flex justify-end mb-5 text-sm">
+                    <button onClick={() => parsedBearing !== null && onPickLine('north', normalizeDegrees(parsedBearing))} disabled={parsedBearing === null} className={buttonClass} title="Clicca due punti di una linea di cui conosci l'azimut, ad esempio una strada o un confine">
+                        <MousePointerClick size={16} /> Indica la linea sulla mappa
+                    </button>
+                </div>
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Coordinate X, Y</h4>
+                <div className="flex gap-2 mb-2 text-sm">
+                    {(Object.keys(COORDINATE_FRAME_LABELS) as CoordinateFrame['kind'][]).map(kind => (
+                        <label key={kind} className={`flex-1 flex items-center gap-2 p-2 rounded-md cursor-pointer ${frame.kind === kind ? 'bg-gray-700 text-blue-300' : 'text-gray-300 hover:bg-gray-700/50'}`}>
+                            <input type="radio" name="coordinate-frame" checked={frame.kind === kind} onChange={() => handleChangeKind(kind)} /> {COORDINATE_FRAME_LABELS[kind]}
+                        </label>
+                    ))}
+                </div>
+                <p className="text-sm text-gray-400 mb-4">{FRAME_HINTS[frame.kind]} Tabelle, cursore, importazioni ed esportazioni usano questo sistema.</p>
+
+                {frame.kind === 'grid' && (
+                    <div className="text-sm mb-4">
+                        <div className="grid grid-cols-3 gap-3 mb-2">
+                            <label className="block text-gray-300">
+                                <span className="block mb-1" title="Angolo in senso orario dal Nord all'asse Y della griglia">Asse Y dal Nord (°)</span>
+                                {numberInput('rotation', frame.rotation, value => onChangeFrame({ ...frame, rotation: normalizeDegrees(value) }))}
+                            </label>
+                            <label className="block text-gray-300">
+                                <span className="block mb-1" title="Coordinate della griglia nel punto di riferimento">X riferimento (m)</span>
+                                {numberInput('origin-x', frame.originX, value => onChangeFrame({ ...frame, originX: value }))}
+                            </label>
+                            <label className="block text-gray-300">
+                                <span className="block mb-1">Y riferimento (m)</span>
+                                {numberInput('origin-y', frame.originY, value => onChangeFrame({ ...frame, originY: value }))}
+                            </label>
+                        </div>
+                        <div className="flex justify-end mb-3">
+                            <button onClick={() => onPickLine('grid', 0)} className={buttonClass} title="Clicca due punti lungo l'asse X della griglia, nel verso positivo">
+                                <MousePointerClick size={16} /> Allinea l'asse X a una linea
+                            </button>
+                        </div>
+                        {points.length > 0 && (
+                            <div className="grid grid-cols-[1fr_5rem_5rem_auto] gap-2 items-end">
+                                <label className="block text-gray-300">
+                                    <span className="block mb-1">Punto di coordinate note</span>
+                                    <select value={knownPointIndex} onChange={(e) => setKnownPointIndex(Number(e.target.value))} className={inputClass}>
+                                        {points.map((p, i) => <option key={i} value={i}>{p.name}</option>)}
+                                    </select>
+                                </label>
+                                <label className="block text-gray-300">
+                                    <span className="block mb-1">X (m)</span>
+                                    <input type="text" inputMode="decimal" value={knownX} onChange={(e) => setKnownX(e.target.value)} className={inputClass} />
+                                </label>
+                                <label className="block text-gray-300">
+                                    <span className="block mb-1">Y (m)</span>
+                                    <input type="text" inputMode="decimal" value={knownY} onChange={(e) => setKnownY(e.target.value)} className={inputClass} />
+                                </label>
+                                <button onClick={handlePlaceGrid} disabled={knownCoords.x === null || knownCoords.y === null} className={buttonClass} title="Sposta la griglia perché il punto abbia queste coordinate">
+                                    <Check size={16} /> Applica
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2">
+                        <Check size={16} /> Fatto
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Upload, X, Check, AlertTriangle } from 'lucide-react';
+import { CoordinateEntry } from '../types';
+import { Delimiter, detectDelimiter, parseDelimited, parseLocaleNumber } from '../utils/csv';
+
+interface CsvImportDialogProps {
+    // Name of the frame the X/Y columns are read in
+    frameLabel: string;
+    onImport: (entries: CoordinateEntry[]) => void;
+    onClose: () => void;
+}
+
+interface ColumnMapping {
+    name: number;
+    x: number;
+    y: number;
+    // -1 when the points have no elevation
+    z: number;
+}
+
+const PREVIEW_ROWS = 10;
+
+const DELIMITER_LABELS: Record<Delimiter, string> = {
+    ',': 'Virgola (,)',
+    ';': 'Punto e virgola (;)',
+    '\t': 'Tabulazione',
+};
+
+// Guesses which columns hold the name, the X/Y coordinates and the elevation from the header row
+const guessMapping = (header: string[]): ColumnMapping => {
+    const find = (pattern: RegExp, fallback: number) => {
+        const index = header.findIndex(h => pattern.test(h.trim().toLowerCase()));
+        return index === -1 ? fallback : index;
+    };
+    return {
+        name: find(/^(nome|name|id|punto|point|codice)/, 0),
+        x: find(/^(x|est|east|e)\b/, 1),
+        y: find(/^(y|nord|north|n)\b/, 2),
+        z: find(/^(z|quota|elevation|elev|h)\b/, -1),
+    };
+};
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ frameLabel, onImport, onClose }) => {
+    const [text, setText] = useState<string>('');
+    const [fileName, setFileName] = useState<string>('');
+    const [delimiterChoice, setDelimiterChoice] = useState<Delimiter | 'auto'>('auto');
+    const [hasHeader, setHasHeader] = useState<boolean>(true);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+    const delimiter = delimiterChoice === 'auto' ? detectDelimiter(text) : delimiterChoice;
+    const rows = useMemo(() => parseDelimited(text, delimiter), [text, delimiter]);
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const header = hasHeader && rows.length > 0 ? rows[0] : Array.from({ length: columnCount }, (_, i) => `Colonna ${i + 1}`);
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    const columns = mapping ?? guessMapping(hasHeader ? header : []);
+
+    const parsed = dataRows.map((row, i) => {
+        const x = parseLocaleNumber(row[columns.x] ?? '');
+        const y = parseLocaleNumber(row[columns.y] ?? '');
+        const name = (row[columns.name] ?? '').trim() || `Punto importato ${i + 1}`;
+        // An empty elevation cell leaves the point without one
+        const zText = columns.z < 0 ? '' : (row[columns.z] ?? '').trim();
+        const z = zText ? parseLocaleNumber(zText) : undefined;
+        return { name, x, y, z, valid: x !== null && y !== null && z !== null };
+    });
+    const validEntries = parsed.filter(p => p.valid);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setMapping(null);
+        file.text().then(setText);
+    };
+
+    const handleImport = () => {
+        onImport(validEntries.map(p => ({ name: p.name, realCoords: { x: p.x as number, y: p.y as number }, ...(p.z === undefined ? {} : { z: p.z as number }) })));
+    };
+
+    const selectClass = "bg-gray-900 border border-gray-700 rounded-md p-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90%] flex flex-col" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-1 text-center text-blue-300">Importa Punti da CSV</h3>
+                <p className="text-xs text-gray-400 mb-4 text-center">Le colonne X e Y sono lette nel sistema di coordinate: {frameLabel}</p>
+
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                    <label className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 cursor-pointer text-sm">
+                        <Upload size={16} /> Scegli File
+                        <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" className="hidden" onChange={handleFileChange} />
+                    </label>
+                    <span className="text-sm text-gray-400 truncate">{fileName || 'oppure incolla i dati qui sotto'}</span>
+                </div>
+                <textarea
+                    value={text}
+                    onChange={(e) => { setText(e.target.value); setMapping(null); }}
+                    placeholder={"Nome;X;Y\nP1;12,50;-3,25"}
+                    className="w-full h-24 bg-gray-900 border border-gray-700 rounded-md p-2 mb-3 font-mono text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                    <label className="flex items-center gap-2">Separatore:
+                        <select value={delimiterChoice} onChange={(e) => setDelimiterChoice(e.target.value as Delimiter | 'auto')} className={selectClass}>
+                            <option value="auto">Automatico ({DELIMITER_LABELS[delimiter]})</option>
+                            {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={hasHeader} onChange={(e) => { setHasHeader(e.target.checked); setMapping(null); }} /> Prima riga di intestazione
+                    </label>
+                </div>
+
+                {columnCount > 0 && (
+                    <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                        {(['name', 'x', 'y'] as (keyof ColumnMapping)[]).map(key => (
+                            <label key={key} className="flex items-center gap-2">{key === 'name' ? 'Nome' : key === 'x' ? 'X (m)' : 'Y (m)'}:
+                                <select value={columns[key]} onChange={(e) => setMapping({ ...columns, [key]: Number(e.target.value) })} className={selectClass}>
+                                    {header.map((h, i) => <option key={i} value={i}>{h || `Colonna ${i + 1}`}</option>)}
+                                </select>
+                            </label>
+                        ))}
+                        <label className="flex items-center gap-2">Quota (m):
+                            <select value={columns.z} onChange={(e) => setMapping({ ...columns, z: Number(e.target.value) })} className={selectClass}>
+                                <option value={-1}>Nessuna</option>
+                                {header.map((h, i) => <option key={i} value={i}>{h || `Colonna ${i + 1}`}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                )}
+
+                {parsed.length > 0 && (
+                    <div className="overflow-auto flex-grow min-h-0 mb-3 border border-gray-700 rounded-md">
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-gray-900 sticky top-0">
+                                <tr><th className="p-2">Nome</th><th className="p-2">X (m)</th><th className="p-2">Y (m)</th>{columns.z >= 0 && <th className="p-2">Quota (m)</th>}</tr>
+                            </thead>
+                            <tbody>
+                                {parsed.slice(0, PREVIEW_ROWS).map((p, i) => (
+                                    <tr key={i} className={`border-t border-gray-700/50 ${p.valid ? '' : 'text-red-400'}`}>
+                                        <td className="p-2">{p.name}</td>
+                                        <td className="p-2 font-mono">{p.x === null ? 'non valido' : p.x.toFixed(3)}</td>
+                                        <td className="p-2 font-mono">{p.y === null ? 'non valido' : p.y.toFixed(3)}</td>
+                                        {columns.z >= 0 && <td className="p-2 font-mono">{p.z === null ? 'non valida' : p.z === undefined ? '' : p.z.toFixed(3)}</td>}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {parsed.length > PREVIEW_ROWS && <p className="p-2 text-xs text-gray-400">... e altre {parsed.length - PREVIEW_ROWS} righe</p>}
+                    </div>
+                )}
+
+                {parsed.length > validEntries.length && (
+                    <p className="text-sm text-yellow-400 mb-3 flex items-center gap-2"><AlertTriangle size={16} /> {parsed.length - validEntries.length} righe con coordinate non valide verranno ignorate.</p>
+                )}
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
+                        <X size={16} /> Annulla
+                    </button>
+                    <button onClick={handleImport} disabled={validEntries.length === 0} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        <Check size={16} /> Importa {validEntries.length} Punti
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
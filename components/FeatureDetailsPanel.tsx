@@ -0,0 +1,157 @@
+import React, { ChangeEvent, useEffect, useState } from 'react';
+import { X, Camera, Trash2, ListPlus, Lock } from 'lucide-react';
+import { AttributeField, Category, FeatureDetails } from '../types';
+import { parseLocaleNumber } from '../utils/csv';
+
+interface FeatureDetailsPanelProps {
+    kind: 'point' | 'area';
+    name: string;
+    // Position or surface, one line each
+    summary: string[];
+    category: Category | null;
+    details: FeatureDetails;
+    fields: AttributeField[];
+    photos: Record<string, Blob>;
+    onChange: (details: FeatureDetails) => void;
+    onAddPhotos: (files: File[]) => void;
+    onEditFields: () => void;
+    onClose: () => void;
+}
+
+// Side panel with the attributes, notes and photos of the point or area clicked on the map
+export const FeatureDetailsPanel: React.FC<FeatureDetailsPanelProps> = ({ kind, name, summary, category, details, fields, photos, onChange, onAddPhotos, onEditFields, onClose }) => {
+    const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+    const locked = category?.locked ?? false;
+
+    useEffect(() => {
+        const urls = Object.fromEntries(details.photoIds.filter(id => photos[id]).map(id => [id, URL.createObjectURL(photos[id])]));
+        setPhotoUrls(urls);
+        return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    }, [details.photoIds, photos]);
+
+    const setAttribute = (field: AttributeField, value: string | number | null) => {
+        const { [field.id]: _previous, ...others } = details.attributes;
+        onChange({ ...details, attributes: value === null || value === '' ? others : { ...others, [field.id]: value } });
+    };
+
+    const handlePhotoChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length > 0) onAddPhotos(files);
+    };
+
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white disabled:opacity-50";
+
+    const renderInput = (field: AttributeField) => {
+        const value = details.attributes[field.id];
+        switch (field.type) {
+            case 'number':
+                return (
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        key={`${field.id}-${value ?? ''}`}
+                        defaultValue={value === undefined ? '' : String(value)}
+                        disabled={locked}
+                        onBlur={(e) => {
+                            const number = parseLocaleNumber(e.target.value);
+                            setAttribute(field, number);
+                            if (number === null) e.target.value = '';
+                        }}
+                        className={inputClass}
+                    />
+                );
+            case 'date':
+                return <input type="date" value={typeof value === 'string' ? value : ''} disabled={locked} onChange={(e) => setAttribute(field, e.target.value)} className={inputClass} />;
+            case 'choice': {
+                const current = value === undefined ? '' : String(value);
+                return (
+                    <select value={current} disabled={locked} onChange={(e) => setAttribute(field, e.target.value)} className={inputClass}>
+                        <option value="">—</option>
+                        {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                        {current && !field.options.includes(current) && <option value={current}>{current}</option>}
+                    </select>
+                );
+            }
+            default:
+                return <input type="text" value={value === undefined ? '' : String(value)} disabled={locked} onChange={(e) => setAttribute(field, e.target.value)} className={inputClass} />;
+        }
+    };
+
+    return (
+        <div
+            data-overlay-panel
+            className="absolute top-0 right-0 h-full w-80 max-w-full bg-gray-900/95 backdrop-blur-md border-l border-gray-700 shadow-2xl z-20 overflow-y-auto touch-pan-y p-4 cursor-auto"
+            onPointerDown={e => e.stopPropagation()}
+            onClick={e => e.stopPropagation()}
+        >
+            <div className="flex items-start justify-between gap-2 mb-3">
+                <div>
+                    <div className="text-xs uppercase tracking-wide text-gray-400">{kind === 'point' ? 'Punto' : 'Area'}</div>
+                    <h3 className="text-lg font-bold text-blue-300 break-words">{name}</h3>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-200 p-1 rounded-full hover:bg-gray-700" title="Chiudi"><X size={18} /></button>
+            </div>
+            {category && (
+                <div className="flex items-center gap-2 text-sm mb-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+                    {category.name}
+                    {locked && <span className="flex items-center gap-1 text-yellow-300 text-xs"><Lock size={12} />Bloccata</span>}
+                </div>
+            )}
+            <div className="text-xs text-gray-400 font-mono mb-4">
+                {summary.map(line => <div key={line}>{line}</div>)}
+            </div>
+
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-300">Attributi</h4>
+                <button onClick={onEditFields} className="text-xs text-blue-300 hover:text-blue-200 flex items-center gap-1" title="Definisci i campi rilevati per punti e aree"><ListPlus size={14} />Campi</button>
+            </div>
+            {fields.length === 0 ? (
+                <p className="text-xs text-gray-500 mb-4">Nessun campo definito per il progetto.</p>
+            ) : (
+                <div className="flex flex-col gap-2 mb-4">
+                    {fields.map(field => (
+                        <label key={field.id} className="block text-sm text-gray-300">
+                            <span className="block mb-1">{field.name}</span>
+                            {renderInput(field)}
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <h4 className="text-sm font-semibold text-gray-300 mb-2">Note</h4>
+            <textarea value={details.notes} disabled={locked} onChange={(e) => onChange({ ...details, notes: e.target.value })} rows={4} className={`${inputClass} mb-4 resize-y`} />
+
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-300">Foto</h4>
+                {!locked && (
+                    <label className="text-xs text-blue-300 hover:text-blue-200 flex items-center gap-1 cursor-pointer" title="Scatta o scegli una foto">
+                        <Camera size={14} />Aggiungi
+                        <input type="file" accept="image/*" multiple onChange={handlePhotoChange} className="hidden" />
+                    </label>
+                )}
+            </div>
+            {details.photoIds.length === 0 ? (
+                <p className="text-xs text-gray-500">Nessuna foto.</p>
+            ) : (
+                <div className="grid grid-cols-2 gap-2">
+                    {details.photoIds.map(id => (
+                        <div key={id} className="relative group">
+                            {photoUrls[id] ? (
+                                <a href={photoUrls[id]} target="_blank" rel="noopener noreferrer" title="Apri a dimensione intera">
+                                    <img src={photoUrls[id]} alt="" className="w-full h-24 object-cover rounded-md bg-gray-800" />
+                                </a>
+                            ) : (
+                                <div className="w-full h-24 rounded-md bg-gray-800 text-xs text-gray-500 flex items-center justify-center">Foto mancante</div>
+                            )}
+                            {!locked && (
+                                <button onClick={() => onChange({ ...details, photoIds: details.photoIds.filter(p => p !== id) })} className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-red-400 hover:text-red-300" title="Rimuovi foto"><Trash2 size={14} /></button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
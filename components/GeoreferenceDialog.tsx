@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { X, Check, Plus, Trash2, Globe } from 'lucide-react';
+import { Georeference, GeoControlPoint, Point, ProjectedCoords } from '../types';
+import { parseLocaleNumber } from '../utils/csv';
+import { CRS_LIST, getCrs, wgs84ToProjected } from '../utils/projection';
+import { fitGeoreference, georeferenceFromOrigin, GeoreferenceFitResult } from '../utils/georeference';
+
+interface GeoreferenceDialogProps {
+    points: Point[];
+    northRotation: number;
+    georeference: Georeference | null;
+    onApply: (georeference: Georeference | null) => void;
+    onClose: () => void;
+}
+
+type Method = Georeference['method'];
+type InputFormat = 'projected' | 'latlon';
+
+interface ControlRow {
+    pointIndex: number;
+    first: string;
+    second: string;
+}
+
+const DEFAULT_CRS = 'EPSG:25832';
+
+const initialRows = (points: Point[], georeference: Georeference | null): ControlRow[] => {
+    if (georeference?.method === 'control-points') {
+        const rows = georeference.controlPoints
+            .map(c => ({ pointIndex: points.findIndex(p => p.id === c.pointId), first: String(c.projected.e), second: String(c.projected.n) }))
+            .filter(row => row.pointIndex >= 0);
+        if (rows.length > 0) return rows;
+    }
+    return [0, 1].map(i => ({ pointIndex: Math.min(i, points.length - 1), first: '', second: '' }));
+};
+
+export const GeoreferenceDialog: React.FC<GeoreferenceDialogProps> = ({ points, northRotation, georeference, onApply, onClose }) => {
+    const [crsCode, setCrsCode] = useState<string>(georeference?.crs ?? DEFAULT_CRS);
+    const [method, setMethod] = useState<Method>(georeference?.method ?? (points.length >= 2 ? 'control-points' : 'origin-north'));
+    const [format, setFormat] = useState<InputFormat>('projected');
+    const [rows, setRows] = useState<ControlRow[]>(() => initialRows(points, georeference));
+    const [originFirst, setOriginFirst] = useState<string>(georeference?.method === 'origin-north' ? String(georeference.e0) : '');
+    const [originSecond, setOriginSecond] = useState<string>(georeference?.method === 'origin-north' ? String(georeference.n0) : '');
+
+    const crs = getCrs(crsCode);
+
+    // Typed values are easting/northing in the CRS, or WGS84 latitude/longitude converted to it
+    const toProjected = (first: string, second: string): ProjectedCoords | null => {
+        const a = parseLocaleNumber(first);
+        const b = parseLocaleNumber(second);
+        if (a === null || b === null || !crs) return null;
+        if (format === 'projected') return { e: a, n: b };
+        if (Math.abs(a) > 90 || Math.abs(b) > 180) return null;
+        return wgs84ToProjected({ lat: a, lon: b }, crs);
+    };
+
+    const controlPoints: (GeoControlPoint | null)[] = rows.map(row => {
+        const point = points[row.pointIndex];
+        const projected = toProjected(row.first, row.second);
+        return point && projected ? { pointId: point.id ?? null, name: point.name, local: point.realCoords, projected } : null;
+    });
+    const validControlPoints = controlPoints.filter((c): c is GeoControlPoint => c !== null);
+
+    let fit: GeoreferenceFitResult | null = null;
+    let result: Georeference | null = null;
+    if (crs && method === 'control-points') {
+        fit = fitGeoreference(crs, validControlPoints);
+        if ('fit' in fit) result = fit.fit.georeference;
+    } else if (crs) {
+        const origin = toProjected(originFirst, originSecond);
+        if (origin) result = georeferenceFromOrigin(crs, origin, northRotation);
+    }
+
+    // Residuals are reported per row, skipping rows that are not filled in yet
+    const residualFor = (rowIndex: number) => {
+        if (!fit || !('fit' in fit) || !controlPoints[rowIndex]) return null;
+        return fit.fit.residuals[controlPoints.slice(0, rowIndex).filter(c => c !== null).length];
+    };
+
+    const updateRow = (index: number, changes: Partial<ControlRow>) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+    };
+
+    // Switching the input format clears the typed values, since they are no longer comparable
+    const handleFormatChange = (next: InputFormat) => {
+        setFormat(next);
+        setRows(prev => prev.map(row => ({ ...row, first: '', second: '' })));
+        setOriginFirst('');
+        setOriginSecond('');
+    };
+
+    const firstLabel = format === 'projected' ? 'Est (m)' : 'Latitudine (°)';
+    const secondLabel = format === 'projected' ? 'Nord (m)' : 'Longitudine (°)';
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white";
+    const tabClass = (active: boolean) => `flex-1 p-2 font-semibold text-center transition-colors ${active ? 'bg-gray-700 text-blue-300' : 'text-gray-400 hover:bg-gray-700/50'}`;
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-lg max-h-full overflow-auto" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300 flex items-center justify-center gap-2"><Globe size={20} />Georeferenziazione</h3>
+
+                <label className="block text-sm text-gray-300 mb-1">Sistema di riferimento</label>
+                <select value={crsCode} onChange={(e) => setCrsCode(e.target.value)} className={`${inputClass} mb-3`}>
+                    {CRS_LIST.map(c => <option key={c.code} value={c.code}>{c.name} ({c.code})</option>)}
+                </select>
+
+                <div className="flex border-b-2 border-gray-700 mb-3">
+                    <button onClick={() => setMethod('control-points')} className={tabClass(method === 'control-points')}>Punti noti</button>
+                    <button onClick={() => setMethod('origin-north')} className={tabClass(method === 'origin-north')}>Origine e Nord</button>
+                </div>
+
+                <div className="flex gap-4 mb-3 text-sm text-gray-300">
+                    <label className="flex items-center gap-1"><input type="radio" checked={format === 'projected'} onChange={() => handleFormatChange('projected')} />Est / Nord</label>
+                    <label className="flex items-center gap-1"><input type="radio" checked={format === 'latlon'} onChange={() => handleFormatChange('latlon')} />Lat / Lon (WGS84)</label>
+                </div>
+
+                {method === 'control-points' ? (
+                    points.length < 2 ? (
+                        <p className="text-sm text-yellow-300 mb-4">Salva almeno due punti sulla mappa per usarli come punti noti.</p>
+                    ) : (
+                        <>
+                            <table className="w-full text-left text-sm mb-2">
+                                <thead className="text-gray-400">
+                                    <tr><th className="p-1">Punto</th><th className="p-1">{firstLabel}</th><th className="p-1">{secondLabel}</th><th className="p-1 text-right">Scarto</th><th></th></tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map((row, index) => {
+                                        const residual = residualFor(index);
+                                        return (
+                                            <tr key={index}>
+                                                <td className="p-1">
+                                                    <select value={row.pointIndex} onChange={(e) => updateRow(index, { pointIndex: Number(e.target.value) })} className="w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white">
+                                                        {points.map((p, i) => <option key={i} value={i}>{p.name}</option>)}
+                                                    </select>
+                                                </td>
+                                                <td className="p-1"><input type="text" inputMode="decimal" value={row.first} onChange={(e) => updateRow(index, { first: e.target.value })} className="w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white font-mono" /></td>
+                                                <td className="p-1"><input type="text" inputMode="decimal" value={row.second} onChange={(e) => updateRow(index, { second: e.target.value })} className="w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white font-mono" /></td>
+                                                <td className="p-1 text-right font-mono text-gray-300">{residual !== null ? `${residual.toFixed(2)} m` : '–'}</td>
+                                                <td className="p-1 text-right">
+                                                    <button onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} disabled={rows.length <= 2} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20 disabled:opacity-30 disabled:cursor-not-allowed"><Trash2 size={16} /></button>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                            <button onClick={() => setRows(prev => [...prev, { pointIndex: 0, first: '', second: '' }])} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 mb-3"><Plus size={14} />Aggiungi punto</button>
+                            <p className="text-sm font-mono mb-4 h-5">
+                                {fit && 'error' in fit && validControlPoints.length > 0 && <span className="text-yellow-300 font-sans">{fit.error}</span>}
+                                {fit && 'fit' in fit && <span className="text-gray-300">RMS: {fit.fit.rms.toFixed(2)} m · Scala: {fit.fit.scale.toFixed(5)}</span>}
+                            </p>
+                        </>
+                    )
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-400 mb-3">Coordinate del punto di riferimento. La direzione del Nord è quella impostata con la bussola ({northRotation.toFixed(1)}°).</p>
+                        <div className="flex gap-3 mb-4">
+                            <div className="flex-1">
+                                <label className="block text-sm text-gray-300 mb-1">{firstLabel}</label>
+                                <input type="text" inputMode="decimal" value={originFirst} onChange={(e) => setOriginFirst(e.target.value)} className={`${inputClass} font-mono`} />
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-sm text-gray-300 mb-1">{secondLabel}</label>
+                                <input type="text" inputMode="decimal" value={originSecond} onChange={(e) => setOriginSecond(e.target.value)} className={`${inputClass} font-mono`} />
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-between gap-3">
+                    <div>
+                        {georeference && (
+                            <button onClick={() => onApply(null)} className="px-4 py-2 rounded-md bg-red-700 hover:bg-red-600 transition-colors flex items-center gap-2">
+                                <Trash2 size={16} /> Rimuovi
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
+                            <X size={16} /> Annulla
+                        </button>
+                        <button onClick={() => result && onApply(result)} disabled={!result} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                            <Check size={16} /> Applica
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { X, LocateFixed, MapPin, Footprints, Square } from 'lucide-react';
+import { LocationFix } from '../services/location';
+import { formatLatLon } from '../utils/georeference';
+
+export type GpsSource = 'device' | 'simulated';
+
+interface GpsPanelProps {
+    fix: LocationFix | null;
+    error: string | null;
+    // Whether the position falls on the image
+    isOnMap: boolean;
+    source: GpsSource;
+    isFollowing: boolean;
+    // Fixes of the track being recorded, null when not recording
+    track: LocationFix[] | null;
+    canRecordPoint: boolean;
+    onChangeSource: (source: GpsSource) => void;
+    onToggleFollow: () => void;
+    onRecordPoint: () => void;
+    onToggleTrack: () => void;
+    onClose: () => void;
+}
+
+// Live position controls: follow the position on the map, record it as a point or a track
+export const GpsPanel: React.FC<GpsPanelProps> = ({ fix, error, isOnMap, source, isFollowing, track, canRecordPoint, onChangeSource, onToggleFollow, onRecordPoint, onToggleTrack, onClose }) => {
+    const buttonClass = "px-3 py-2 rounded-md transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed";
+    return (
+        <div
+            className="absolute top-16 left-4 z-10 w-72 max-w-[calc(100%-2rem)] bg-gray-900/90 backdrop-blur-md rounded-lg shadow-lg p-3 text-sm cursor-auto"
+            onPointerDown={e => e.stopPropagation()}
+            onClick={e => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold text-blue-300 flex items-center gap-2"><LocateFixed size={16} /> Posizione GPS</h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-200 p-1 rounded-full hover:bg-gray-700" title="Spegni il GPS"><X size={16} /></button>
+            </div>
+
+            {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+            {fix ? (
+                <div className="font-mono text-xs text-gray-300 mb-3">
+                    <div>{formatLatLon(fix.position)}</div>
+                    <div>Precisione ±{fix.accuracy.toFixed(fix.accuracy < 10 ? 1 : 0)} m</div>
+                    {!isOnMap && <div className="text-yellow-300 font-sans mt-1">Sei fuori dalla mappa.</div>}
+                </div>
+            ) : (
+                !error && <p className="text-xs text-gray-400 mb-3">In attesa del segnale GPS...</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={onToggleFollow} className={`${buttonClass} ${isFollowing ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'}`} title="Tieni la posizione al centro della vista">
+                    <LocateFixed size={16} /> Seguimi
+                </button>
+                <button onClick={onRecordPoint} disabled={!fix || !isOnMap || !canRecordPoint} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`} title="Aggiungi un punto nella posizione attuale">
+                    <MapPin size={16} /> Punto qui
+                </button>
+                <button onClick={onToggleTrack} disabled={!track && !fix} className={`${buttonClass} col-span-2 justify-center ${track ? 'bg-red-700 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                    {track ? <><Square size={16} /> Termina traccia ({track.length} vertici)</> : <><Footprints size={16} /> Registra traccia</>}
+                </button>
+            </div>
+
+            <label className="flex items-center justify-between gap-2 mt-3 text-xs text-gray-400">
+                Sorgente
+                <select value={source} onChange={(e) => onChangeSource(e.target.value as GpsSource)} className="bg-gray-800 border border-gray-700 rounded-md p-1 text-white">
+                    <option value="device">GPS del dispositivo</option>
+                    <option value="simulated">Simulata (prova)</option>
+                </select>
+            </label>
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { PixelCoords, ViewTransform } from '../types';
+import { SceneShape } from '../utils/scene';
+import { SceneLayer } from './SceneLayer';
+
+interface LoupeProps {
+    imageSrc: string;
+    naturalSize: { width: number; height: number };
+    view: ViewTransform;
+    // Image point under the crosshair
+    point: PixelCoords;
+    // Position of the finger in the viewport; the loupe is drawn above it
+    anchor: { x: number; y: number };
+    // Overlay for image pixels of `unit` screen pixels, as on the map
+    shapes: (unit: number) => SceneShape[];
+}
+
+const LOUPE_SIZE = 140;
+const LOUPE_MAGNIFICATION = 3;
+// Distance of the loupe centre from the finger, so the finger does not hide it
+const LOUPE_OFFSET = 110;
+
+// Magnified view around the point under the finger, shown while placing or dragging by touch
+export const Loupe: React.FC<LoupeProps> = ({ imageSrc, naturalSize, view, point, anchor, shapes }) => {
+    const scale = view.zoom * LOUPE_MAGNIFICATION;
+    const half = LOUPE_SIZE / 2;
+    // Below the finger when there is no room above it
+    const top = anchor.y - LOUPE_OFFSET - half >= 0 ? anchor.y - LOUPE_OFFSET - half : anchor.y + LOUPE_OFFSET - half;
+
+    return (
+        <div
+            className="absolute z-20 rounded-full overflow-hidden border-4 border-white shadow-2xl bg-gray-800 pointer-events-none"
+            style={{ left: anchor.x - half, top, width: LOUPE_SIZE, height: LOUPE_SIZE }}
+        >
+            <div
+                className="absolute"
+                style={{
+                    left: half,
+                    top: half,
+                    width: naturalSize.width * scale,
+                    height: naturalSize.height * scale,
+                    transformOrigin: '0 0',
+                    transform: `rotate(${view.rotation}deg) translate(${-point.x * scale}px, ${-point.y * scale}px)`,
+                }}
+            >
+                <img src={imageSrc} alt="" draggable={false} className="block w-full h-full select-none" style={{ imageRendering: scale > 2 ? 'pixelated' : 'auto' }} />
+                <svg className="absolute top-0 left-0 w-full h-full" viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`} preserveAspectRatio="none">
+                    <SceneLayer shapes={shapes(1 / scale)} />
+                </svg>
+            </div>
+            <svg className="absolute inset-0" viewBox={`0 0 ${LOUPE_SIZE} ${LOUPE_SIZE}`}>
+                <g strokeWidth={3} stroke="black" opacity={0.6}>
+                    <line x1={half} y1={half - 22} x2={half} y2={half - 5} />
+                    <line x1={half} y1={half + 5} x2={half} y2={half + 22} />
+                    <line x1={half - 22} y1={half} x2={half - 5} y2={half} />
+                    <line x1={half + 5} y1={half} x2={half + 22} y2={half} />
+                </g>
+                <g strokeWidth={1.5} stroke="white">
+                    <line x1={half} y1={half - 22} x2={half} y2={half - 5} />
+                    <line x1={half} y1={half + 5} x2={half} y2={half + 22} />
+                    <line x1={half - 22} y1={half} x2={half - 5} y2={half} />
+                    <line x1={half + 5} y1={half} x2={half + 22} y2={half} />
+                </g>
+                <circle cx={half} cy={half} r={1.5} fill="red" />
+            </svg>
+        </div>
+    );
+};
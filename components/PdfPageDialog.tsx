@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { X, Check, FileText, Loader2 } from 'lucide-react';
+import { PDF_RESOLUTIONS, DEFAULT_PDF_DPI, renderPdfThumbnail } from '../utils/pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+interface PdfPageDialogProps {
+    // Document loaded with PDF.js
+    pdf: PDFDocumentProxy;
+    title: string;
+    // Pages that are already sheets of the project and cannot be added again
+    usedPages?: number[];
+    onConfirm: (pageNumbers: number[], dpi: number) => void;
+    onClose: () => void;
+}
+
+export const PdfPageDialog: React.FC<PdfPageDialogProps> = ({ pdf, title, usedPages = [], onConfirm, onClose }) => {
+    const pageCount: number = pdf.numPages;
+    const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+    const [selected, setSelected] = useState<number[]>(() => pageCount === 1 && !usedPages.includes(1) ? [1] : []);
+    const [dpi, setDpi] = useState<number>(DEFAULT_PDF_DPI);
+
+    // Thumbnails are rendered one page at a time so the first ones show up quickly
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            for (let page = 1; page <= pageCount && !cancelled; page++) {
+                try {
+                    const thumbnail = await renderPdfThumbnail(pdf, page);
+                    if (!cancelled) setThumbnails(prev => ({ ...prev, [page]: thumbnail }));
+                } catch (error) {
+                    console.error(`Failed to render the preview of page ${page}:`, error);
+                }
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [pdf]);
+
+    const togglePage = (page: number) => {
+        if (usedPages.includes(page)) return;
+        setSelected(prev => prev.includes(page) ? prev.filter(p => p !== page) : [...prev, page].sort((a, b) => a - b));
+    };
+
+    const availablePages = Array.from({ length: pageCount }, (_, i) => i + 1).filter(page => !usedPages.includes(page));
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-40 p-4" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-3xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-1 text-center text-blue-300 flex items-center justify-center gap-2"><FileText size={20} />{title}</h3>
+                <p className="text-sm text-gray-400 text-center mb-4">Scegli le pagine da usare come fogli del progetto. Ogni foglio ha la sua calibrazione.</p>
+
+                <div className="flex justify-between items-center mb-2 text-sm">
+                    <span className="text-gray-300">{selected.length} di {pageCount} {pageCount === 1 ? 'pagina' : 'pagine'} selezionate</span>
+                    <div className="flex gap-2">
+                        <button onClick={() => setSelected(availablePages)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Tutte</button>
+                        <button onClick={() => setSelected([])} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Nessuna</button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 overflow-auto min-h-0 flex-grow mb-4 p-1">
+                    {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => {
+                        const used = usedPages.includes(page);
+                        const isSelected = selected.includes(page);
+                        return (
+                            <button key={page} onClick={() => togglePage(page)} disabled={used}
+                                className={`rounded-md p-2 flex flex-col items-center gap-1 border-2 transition-colors ${isSelected ? 'border-blue-400 bg-blue-500/10' : 'border-gray-700 hover:border-gray-500'} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                                <div className="h-36 w-full flex items-center justify-center bg-gray-900 rounded">
+                                    {thumbnails[page]
+                                        ? <img src={thumbnails[page]} alt={`Pagina ${page}`} className="max-h-full max-w-full object-contain" />
+                                        : <Loader2 size={20} className="animate-spin text-gray-500" />}
+                                </div>
+                                <span className="text-sm flex items-center gap-1">
+                                    <input type="checkbox" checked={isSelected || used} readOnly tabIndex={-1} />
+                                    Pagina {page}{used && ' (già presente)'}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="flex flex-wrap justify-between items-center gap-3">
+                    <label className="text-sm text-gray-300 flex items-center gap-2">
+                        Risoluzione
+                        <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className="bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white">
+                            {PDF_RESOLUTIONS.map(r => <option key={r.dpi} value={r.dpi}>{r.label}</option>)}
+                        </select>
+                    </label>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
+                            <X size={16} /> Annulla
+                        </button>
+                        <button onClick={() => onConfirm(selected, dpi)} disabled={selected.length === 0} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                            <Check size={16} /> {selected.length > 1 ? `Apri ${selected.length} pagine` : 'Apri pagina'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
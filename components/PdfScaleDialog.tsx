@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { X, Check, Ruler } from 'lucide-react';
+import { PdfMeasure, paperScaleMetresPerUnit } from '../utils/pdfMeasure';
+import { parseLocaleNumber } from '../utils/csv';
+
+interface PdfScaleDialogProps {
+    // Scales found in the page, empty when the PDF has none
+    measures: PdfMeasure[];
+    onApply: (metresPerUnit: number) => void;
+    onClose: () => void;
+}
+
+export const PdfScaleDialog: React.FC<PdfScaleDialogProps> = ({ measures, onApply, onClose }) => {
+    const [denominator, setDenominator] = useState<string>('100');
+    const denominatorValue = parseLocaleNumber(denominator);
+    const isValid = denominatorValue !== null && denominatorValue > 0;
+
+    const handleApplyPaperScale = () => {
+        if (!isValid) return;
+        onApply(paperScaleMetresPerUnit(denominatorValue));
+    };
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-sm" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300">Scala del PDF</h3>
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Scale indicate nel file</h4>
+                {measures.length === 0 ? (
+                    <p className="text-sm text-gray-400 mb-4">La pagina non contiene informazioni di scala.</p>
+                ) : (
+                    <div className="flex flex-col gap-2 mb-4">
+                        {measures.map((measure, i) => (
+                            <button key={i} onClick={() => onApply(measure.metresPerUnit)} className="px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center justify-between gap-2 text-left">
+                                <span>
+                                    {measure.name || `Vista ${i + 1}`}
+                                    {measure.ratio && <span className="text-gray-400 ml-2">{measure.ratio}</span>}
+                                </span>
+                                <Ruler size={16} className="flex-shrink-0" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Scala di stampa</h4>
+                <div className="flex items-center gap-2 mb-1">
+                    <span className="font-mono text-lg">1 :</span>
+                    <input type="text" inputMode="decimal" value={denominator} onChange={(e) => setDenominator(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleApplyPaperScale()} className="flex-grow bg-gray-900 border border-gray-700 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white" autoFocus />
+                </div>
+                <p className="text-xs text-gray-400 mb-4">Valida solo se il PDF è alla dimensione del foglio stampato.</p>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
+                        <X size={16} /> Annulla
+                    </button>
+                    <button onClick={handleApplyPaperScale} disabled={!isValid} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        <Check size={16} /> Applica
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+import React, { ChangeEvent, useState } from 'react';
+import { X, FileText, ImagePlus, Trash2 } from 'lucide-react';
+import { ReportOrientation, ReportPageSize, ReportSettings } from '../types';
+import { parseLocaleNumber } from '../utils/csv';
+import { REPORT_PAGE_SIZES, REPORT_ORIENTATION_LABELS } from '../utils/report';
+
+interface ReportDialogProps {
+    settings: ReportSettings;
+    // True-scale printing and the scale bar need a calibration without perspective
+    hasUniformScale: boolean;
+    hasPoints: boolean;
+    hasAreas: boolean;
+    hasMeasurements: boolean;
+    onExport: (settings: ReportSettings) => void;
+    onClose: () => void;
+}
+
+type FlagKey = 'scaleBar' | 'legend' | 'pointsTable' | 'areasTable' | 'measurementsTable' | 'pageNumbers';
+
+export const ReportDialog: React.FC<ReportDialogProps> = ({ settings, hasUniformScale, hasPoints, hasAreas, hasMeasurements, onExport, onClose }) => {
+    const [draft, setDraft] = useState<ReportSettings>(settings);
+    const [printScale, setPrintScale] = useState<string>(String(settings.printScale ?? 200));
+    const [isTrueScale, setIsTrueScale] = useState<boolean>(settings.printScale !== null && hasUniformScale);
+
+    const update = (changes: Partial<ReportSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const printScaleValue = parseLocaleNumber(printScale);
+    const isValid = !isTrueScale || (printScaleValue !== null && printScaleValue > 0);
+
+    const handleLogoChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        if (!file.type.startsWith('image/png') && !file.type.startsWith('image/jpeg')) {
+            alert("Il logo deve essere un'immagine PNG o JPEG.");
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => update({ logo: reader.result as string });
+        reader.readAsDataURL(file);
+    };
+
+    const handleExport = () => {
+        if (!isValid) return;
+        onExport({ ...draft, printScale: isTrueScale ? printScaleValue : null });
+    };
+
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 text-white";
+    const checkbox = (key: FlagKey, label: string, enabled = true) => (
+        <label className={`flex items-center gap-2 text-sm ${enabled ? 'text-gray-300' : 'text-gray-500'}`}>
+            <input type="checkbox" checked={draft[key] && enabled} disabled={!enabled} onChange={(e) => update({ [key]: e.target.checked })} />
+            {label}
+        </label>
+    );
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30 p-4" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-lg max-h-full overflow-auto" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300">Report PDF</h3>
+
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div>
+                        <label className="block text-sm text-gray-300 mb-1">Formato</label>
+                        <select value={draft.pageSize} onChange={(e) => update({ pageSize: e.target.value as ReportPageSize })} className={inputClass}>
+                            {(Object.keys(REPORT_PAGE_SIZES) as ReportPageSize[]).map(size => <option key={size} value={size}>{size}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-300 mb-1">Orientamento</label>
+                        <select value={draft.orientation} onChange={(e) => update({ orientation: e.target.value as ReportOrientation })} className={inputClass}>
+                            {(Object.keys(REPORT_ORIENTATION_LABELS) as ReportOrientation[]).map(o => <option key={o} value={o}>{REPORT_ORIENTATION_LABELS[o]}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Cartiglio</h4>
+                <label className="block text-sm text-gray-300 mb-1">Titolo</label>
+                <input type="text" value={draft.title} onChange={(e) => update({ title: e.target.value })} className={`${inputClass} mb-3`} />
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div>
+                        <label className="block text-sm text-gray-300 mb-1">Autore</label>
+                        <input type="text" value={draft.author} onChange={(e) => update({ author: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-300 mb-1">Committente</label>
+                        <input type="text" value={draft.client} onChange={(e) => update({ client: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-300 mb-1">Data</label>
+                        <input type="text" value={draft.date} placeholder="Data dell'esportazione" onChange={(e) => update({ date: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-300 mb-1">Logo</label>
+                        {draft.logo ? (
+                            <div className="flex items-center gap-2 h-[42px]">
+                                <img src={draft.logo} alt="Logo" className="max-h-full max-w-[6rem] object-contain bg-white rounded p-0.5" />
+                                <button onClick={() => update({ logo: null })} className="text-red-400 hover:text-red-300 p-1 rounded-full hover:bg-red-500/20" title="Rimuovi logo"><Trash2 size={16} /></button>
+                            </div>
+                        ) : (
+                            <label className="px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 text-sm cursor-pointer">
+                                <ImagePlus size={16} /> Scegli immagine
+                                <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} className="hidden" />
+                            </label>
+                        )}
+                    </div>
+                </div>
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Mappa</h4>
+                <div className="flex flex-col gap-2 mb-3 text-sm text-gray-300">
+                    <label className="flex items-center gap-2">
+                        <input type="radio" checked={!isTrueScale} onChange={() => setIsTrueScale(false)} />
+                        Adatta al foglio
+                    </label>
+                    <label className={`flex items-center gap-2 ${hasUniformScale ? '' : 'text-gray-500'}`} title={hasUniformScale ? undefined : "Richiede una calibrazione senza correzione prospettica"}>
+                        <input type="radio" checked={isTrueScale} disabled={!hasUniformScale} onChange={() => setIsTrueScale(true)} />
+                        In scala 1 :
+                        <input type="text" inputMode="decimal" value={printScale} disabled={!hasUniformScale} onFocus={() => setIsTrueScale(true)} onChange={(e) => setPrintScale(e.target.value)} className="w-24 bg-gray-900 border border-gray-700 rounded-md p-1 text-center text-white disabled:opacity-40" />
+                    </label>
+                </div>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                    {checkbox('scaleBar', 'Barra di scala', hasUniformScale)}
+                    {checkbox('legend', 'Legenda')}
+                </div>
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Contenuto</h4>
+                <div className="grid grid-cols-2 gap-2 mb-5">
+                    {checkbox('pointsTable', 'Tabella punti', hasPoints)}
+                    {checkbox('areasTable', 'Tabella aree', hasAreas)}
+                    {checkbox('measurementsTable', 'Tabella misure', hasMeasurements)}
+                    {checkbox('pageNumbers', 'Numeri di pagina')}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
+                        <X size={16} /> Annulla
+                    </button>
+                    <button onClick={handleExport} disabled={!isValid} className="px-4 py-2 rounded-md bg-sky-600 hover:bg-sky-500 transition-colors flex items-center gap-2 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        <FileText size={16} /> Genera PDF
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
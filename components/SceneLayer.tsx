@@ -0,0 +1,33 @@
+import React from 'react';
+import { SceneShape, SceneHandle, svgElement, lineHeight } from '../utils/scene';
+
+interface SceneLayerProps {
+    shapes: SceneShape[];
+    // Event handlers and style of the shapes that are handles, when the overlay is interactive
+    handleProps?: (handle: SceneHandle) => React.SVGProps<SVGElement>;
+}
+
+// SVG attribute names as React props: stroke-width -> strokeWidth
+const toReactProps = (attributes: Record<string, string | number>): React.SVGProps<SVGElement> =>
+    Object.fromEntries(Object.entries(attributes).map(([name, value]) => [name.replace(/-(\w)/g, (_, c: string) => c.toUpperCase()), value]));
+
+// Renders the shapes of a scene as SVG elements, for a parent <svg> whose user units are image pixels
+export const SceneLayer: React.FC<SceneLayerProps> = ({ shapes, handleProps }) => (
+    <>
+        {shapes.map((shape, i) => {
+            const { tag: Tag, attributes } = svgElement(shape);
+            const props: React.SVGProps<SVGElement> = { ...toReactProps(attributes), ...(shape.handle && handleProps ? handleProps(shape.handle) : {}) };
+            const title = shape.title && <title>{shape.title}</title>;
+            if (shape.kind !== 'text') return <Tag key={i} {...props}>{title}</Tag>;
+            const { x } = shape.position;
+            return (
+                <text key={i} {...props}>
+                    {title}
+                    {shape.lines.length === 1 ? shape.lines[0] : shape.lines.map((line, j) => (
+                        <tspan key={j} x={x} dy={j === 0 ? 0 : lineHeight(shape.fontSize)}>{line}</tspan>
+                    ))}
+                </text>
+            );
+        })}
+    </>
+);
@@ -0,0 +1,134 @@
+import React from 'react';
+import { Check, Trash2, AlertTriangle } from 'lucide-react';
+import { Area, Category, TerrainSettings } from '../types';
+import { parseLocaleNumber } from '../utils/csv';
+import { Tin, CutFill, contourLevels, elevationRange, formatElevation, MAX_CONTOUR_LEVELS } from '../utils/terrain';
+
+interface TerrainDialogProps {
+    settings: TerrainSettings;
+    categories: Category[];
+    // Saved points with an elevation, whether the filter keeps them or not
+    elevationCount: number;
+    tin: Tin;
+    areas: Area[];
+    // Cut and fill of each area, by area index
+    volumes: (CutFill | null)[];
+    // Every change is applied at once
+    onChange: (settings: TerrainSettings) => void;
+    onRemove: () => void;
+    onClose: () => void;
+}
+
+// Terrain model of the sheet: which points are triangulated, contour lines and the cut and
+// fill of the areas against a reference level
+export const TerrainDialog: React.FC<TerrainDialogProps> = ({ settings, categories, elevationCount, tin, areas, volumes, onChange, onRemove, onClose }) => {
+    const range = elevationRange(tin);
+    const levels = contourLevels(tin, settings.contourInterval);
+    const inputClass = "w-full bg-gray-900 border border-gray-700 rounded-md p-1.5 text-white";
+
+    // Numbers are read when the field is left, so partial values like "-" can be typed
+    const numberInput = (key: 'contourInterval' | 'referenceLevel', isValid: (value: number) => boolean) => (
+        <input
+            type="text"
+            inputMode="decimal"
+            key={`${key}-${settings[key]}`}
+            defaultValue={String(settings[key])}
+            onBlur={(e) => {
+                const value = parseLocaleNumber(e.target.value);
+                if (value !== null && isValid(value)) onChange({ ...settings, [key]: value });
+                else e.target.value = String(settings[key]);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className={inputClass}
+        />
+    );
+
+    return (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-30 p-4" onClick={onClose} onPointerDown={e => e.stopPropagation()}>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-2xl w-full max-w-xl max-h-full overflow-auto" onClick={e => e.stopPropagation()}>
+                <h3 className="text-xl font-bold mb-4 text-center text-blue-300">Modello del terreno</h3>
+
+                <p className="text-sm text-gray-400 mb-4">
+                    Il terreno è triangolato dai punti salvati con una quota, inserita nella tabella dei punti.
+                    {' '}{elevationCount === 0
+                        ? 'Nessun punto ha ancora una quota.'
+                        : `${tin.vertices.length} di ${elevationCount} punti quotati usati, ${tin.triangles.length} triangoli${range ? `, quote da ${formatElevation(range.min)} a ${formatElevation(range.max)}` : ''}.`}
+                </p>
+                {tin.vertices.length > 0 && tin.triangles.length === 0 && (
+                    <p className="text-sm text-yellow-400 mb-4 flex items-center gap-2"><AlertTriangle size={16} /> Servono almeno tre punti quotati non allineati.</p>
+                )}
+
+                <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+                    <label className="block text-gray-300 col-span-2">
+                        <span className="block mb-1">Punti usati</span>
+                        <select value={settings.pointFilter} onChange={(e) => onChange({ ...settings, pointFilter: e.target.value })} className={inputClass}>
+                            <option value="all">Tutti i punti quotati</option>
+                            <option value="none">Senza categoria</option>
+                            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="block text-gray-300">
+                        <span className="block mb-1">Equidistanza curve (m)</span>
+                        {numberInput('contourInterval', value => value > 0)}
+                    </label>
+                    <label className="block text-gray-300">
+                        <span className="block mb-1">Quota di riferimento (m)</span>
+                        {numberInput('referenceLevel', () => true)}
+                    </label>
+                    <label className="flex items-center gap-2 text-gray-300">
+                        <input type="checkbox" checked={settings.showTin} onChange={(e) => onChange({ ...settings, showTin: e.target.checked })} /> Mostra i triangoli
+                    </label>
+                    <label className="flex items-center gap-2 text-gray-300">
+                        <input type="checkbox" checked={settings.showContours} onChange={(e) => onChange({ ...settings, showContours: e.target.checked })} /> Mostra le curve di livello
+                    </label>
+                </div>
+                {levels === null && (
+                    <p className="text-sm text-yellow-400 mb-4 flex items-center gap-2"><AlertTriangle size={16} /> Equidistanza troppo piccola: più di {MAX_CONTOUR_LEVELS} curve, non disegnate.</p>
+                )}
+
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">Volumi delle aree rispetto a {formatElevation(settings.referenceLevel)}</h4>
+                {areas.length === 0 ? (
+                    <p className="text-sm text-gray-400 mb-4">Nessuna area salvata.</p>
+                ) : (
+                    <table className="w-full text-left text-sm mb-4">
+                        <thead className="border-b border-gray-700 text-gray-400">
+                            <tr><th className="p-1">Area</th><th className="p-1 text-right" title="Terreno sopra la quota di riferimento, da scavare">Sterro (m³)</th><th className="p-1 text-right" title="Volume sotto la quota di riferimento, da riempire">Riporto (m³)</th><th className="p-1 text-right">Netto (m³)</th></tr>
+                        </thead>
+                        <tbody>
+                            {areas.map((area, index) => {
+                                const volume = volumes[index];
+                                const coverage = volume && area.realArea > 0 ? volume.coveredArea / area.realArea : 0;
+                                return (
+                                    <tr key={index} className="border-b border-gray-700/50 align-top">
+                                        <td className="p-1">
+                                            {area.name}
+                                            {volume && coverage < 0.999 && <div className="text-xs text-yellow-300">Coperta dal modello al {(coverage * 100).toFixed(0)}%: volumi parziali</div>}
+                                        </td>
+                                        {volume ? (
+                                            <>
+                                                <td className="p-1 text-right font-mono">{volume.cut.toFixed(2)}</td>
+                                                <td className="p-1 text-right font-mono">{volume.fill.toFixed(2)}</td>
+                                                <td className="p-1 text-right font-mono">{(volume.cut - volume.fill).toFixed(2)}</td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={3} className="p-1 text-right text-gray-500">fuori dal modello</td>
+                                        )}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="flex justify-between gap-3">
+                    <button onClick={onRemove} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex items-center gap-2 text-red-300" title="Nasconde triangoli, curve e volumi; le quote dei punti restano">
+                        <Trash2 size={16} /> Rimuovi modello
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2">
+                        <Check size={16} /> Fatto
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
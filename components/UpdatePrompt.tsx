@@ -0,0 +1,19 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdatePromptProps {
+    onUpdate: () => void;
+    onDismiss: () => void;
+}
+
+// Offered when a new release has been downloaded; dismissing it keeps the current one until
+// the next start
+export const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onUpdate, onDismiss }) => (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl px-4 py-3 flex items-center gap-3 text-sm">
+        <span>È disponibile una nuova versione dell'app.</span>
+        <button onClick={onUpdate} className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 transition-colors flex items-center gap-2 font-semibold">
+            <RefreshCw size={14} /> Aggiorna
+        </button>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200 p-1 rounded-full hover:bg-gray-700" title="Più tardi"><X size={16} /></button>
+    </div>
+);
@@ -0,0 +1,74 @@
+import { LatLon } from '../types';
+
+// A position read from a location source. `accuracy` is the radius in metres within which
+// the true position lies with about 68% confidence, as reported by the Geolocation API.
+export interface LocationFix {
+    position: LatLon;
+    accuracy: number;
+    timestamp: number;
+}
+
+// Reports positions to `onFix` until the returned function is called. Errors do not stop
+// the source: a GPS may lose the signal and find it again.
+export type LocationSource = (onFix: (fix: LocationFix) => void, onError: (message: string) => void) => () => void;
+
+const GEOLOCATION_ERRORS: Record<number, string> = {
+    1: "Accesso alla posizione negato. Consentilo nelle impostazioni del browser per usare il GPS.",
+    2: "Posizione non disponibile: il dispositivo non riceve il segnale GPS.",
+    3: "Il GPS non risponde, nuovo tentativo in corso...",
+};
+
+// Position of the device, from navigator.geolocation
+export const deviceLocation: LocationSource = (onFix, onError) => {
+    if (!('geolocation' in navigator)) {
+        onError("Questo dispositivo o browser non fornisce la posizione.");
+        return () => {};
+    }
+    const watchId = navigator.geolocation.watchPosition(
+        position => onFix({
+            position: { lat: position.coords.latitude, lon: position.coords.longitude },
+            accuracy: position.coords.accuracy,
+            timestamp: position.timestamp,
+        }),
+        error => onError(GEOLOCATION_ERRORS[error.code] ?? error.message),
+        { enableHighAccuracy: true, maximumAge: 0, timeout: 30000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+};
+
+const METRES_PER_DEGREE = 111320;
+
+// Walks a circle of `radius` metres around `center`, one lap every `period` seconds, with an
+// accuracy between 2 and 8 m. For trying the GPS features away from the site.
+export const simulatedLocation = (center: LatLon, radius = 25, period = 120, interval = 1000): LocationSource => onFix => {
+    const start = Date.now();
+    const emit = () => {
+        const now = Date.now();
+        const angle = 2 * Math.PI * ((now - start) / 1000) / period;
+        onFix({
+            position: {
+                lat: center.lat + radius * Math.cos(angle) / METRES_PER_DEGREE,
+                lon: center.lon + radius * Math.sin(angle) / (METRES_PER_DEGREE * Math.cos(center.lat * Math.PI / 180)),
+            },
+            accuracy: 5 + 3 * Math.sin(angle * 3),
+            timestamp: now,
+        });
+    };
+    emit();
+    const timer = setInterval(emit, interval);
+    return () => clearInterval(timer);
+};
+
+// Ground distance in metres between two nearby positions
+export const distanceBetween = (a: LatLon, b: LatLon) => {
+    const dy = (b.lat - a.lat) * METRES_PER_DEGREE;
+    const dx = (b.lon - a.lon) * METRES_PER_DEGREE * Math.cos((a.lat + b.lat) / 2 * Math.PI / 180);
+    return Math.hypot(dx, dy);
+};
+
+// A track records a new fix once the walker has moved further than the fix is uncertain,
+// so standing still does not pile up vertices
+export const extendsTrack = (track: LocationFix[], fix: LocationFix) => {
+    const last = track[track.length - 1];
+    return !last || distanceBetween(last.position, fix.position) >= Math.max(1, fix.accuracy / 2);
+};
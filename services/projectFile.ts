@@ -0,0 +1,333 @@
+import { Project, ProjectData, Point, Area, AreaDerivation, PixelCoords, Georeference, Measurement, ReportSettings, Sheet, Category, AttributeField, CalibrationReference } from '../types';
+import { getCrs } from '../utils/projection';
+import { createThumbnail, blobToDataUrl, dataUrlToBlob, upgradeLegacyProjectData, legacySheet, FIRST_SHEET_ID } from './projectStore';
+import { createId } from '../utils/id';
+import { normalizeReportSettings } from '../utils/report';
+import { normalizeCategories } from '../utils/categories';
+import { normalizeAttributeFields, normalizeDetails, photoIdsOf } from '../utils/attributes';
+import { normalizeTerrainSettings } from '../utils/terrain';
+import { normalizeCoordinateFrame } from '../utils/coordinateFrame';
+
+// Single-file project format (.mappa) used to exchange work between devices.
+// It is a JSON document with the sheet images, the photos and the optional source PDF embedded as data URLs.
+export const MAPPA_EXTENSION = '.mappa';
+export const MAPPA_MIME_TYPE = 'application/vnd.mappatore+json';
+export const MAPPA_FORMAT = 'mappa';
+export const MAPPA_VERSION = 13;
+
+interface MappaSheet extends Sheet {
+    image: string;
+}
+
+interface MappaFile {
+    format: typeof MAPPA_FORMAT;
+    version: number;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    sourcePdf?: string;
+    activeSheetId: string;
+    sheets: MappaSheet[];
+    reportSettings: ReportSettings | null;
+    categories: Category[];
+    attributeFields: AttributeField[];
+    // By photo id
+    photos: Record<string, string>;
+}
+
+// Each entry upgrades a file from version `n` to version `n + 1`. When the format
+// changes, bump MAPPA_VERSION and add the step that converts the previous version.
+const upgradeData = (file: any) => ({ ...file, data: file.data && typeof file.data === 'object' ? upgradeLegacyProjectData(file.data) : file.data });
+
+const migrations: Record<number, (file: any) => any> = {
+    // v2 replaced the single pixelsPerMeter scalar with a calibration transform
+    1: upgradeData,
+    // v3 added the georeference
+    2: upgradeData,
+    // v4 added the measurements
+    3: upgradeData,
+    // v5 added holes to areas
+    4: upgradeData,
+    // v6 recorded how areas computed from other areas were obtained
+    5: upgradeData,
+    // v7 split the project into sheets, each with its own image and data
+    6: ({ image, data, ...file }: any) => ({
+        ...file,
+        activeSheetId: FIRST_SHEET_ID,
+        sheets: [{ ...legacySheet(data, typeof file.sourcePdf === 'string'), image }],
+    }),
+    // v8 added the report settings
+    7: (file: any) => ({ ...file, reportSettings: null }),
+    // v9 added the categories of points and areas
+    8: (file: any) => ({
+        ...file,
+        categories: [],
+        sheets: Array.isArray(file.sheets) ? file.sheets.map((sheet: any) => upgradeData(sheet)) : file.sheets,
+    }),
+    // v10 added attributes, notes and photos of points and areas
+    9: (file: any) => ({
+        ...file,
+        attributeFields: [],
+        photos: {},
+        sheets: Array.isArray(file.sheets) ? file.sheets.map((sheet: any) => upgradeData(sheet)) : file.sheets,
+    }),
+    // v11 added point elevations and the terrain model
+    10: (file: any) => ({
+        ...file,
+        sheets: Array.isArray(file.sheets) ? file.sheets.map((sheet: any) => upgradeData(sheet)) : file.sheets,
+    }),
+    // v12 added the north-aligned frame and local grids
+    11: (file: any) => ({
+        ...file,
+        sheets: Array.isArray(file.sheets) ? file.sheets.map((sheet: any) => upgradeData(sheet)) : file.sheets,
+    }),
+    // v13 added point ids, which link the georeference control points to the saved points
+    12: (file: any) => ({
+        ...file,
+        sheets: Array.isArray(file.sheets) ? file.sheets.map((sheet: any) => upgradeData(sheet)) : file.sheets,
+    }),
+};
+
+export const isProjectFile = (file: File) => file.name.toLowerCase().endsWith(MAPPA_EXTENSION);
+
+export const serializeProject = async (project: Project): Promise<Blob> => {
+    // Photos kept only for the undo history of this device are left out
+    const photoIds = [...new Set(project.sheets.flatMap(sheet => photoIdsOf(sheet.data)))].filter(id => project.photos[id]);
+    const file: MappaFile = {
+        format: MAPPA_FORMAT,
+        version: MAPPA_VERSION,
+        name: project.name,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+        sourcePdf: project.sourcePdf ? await blobToDataUrl(project.sourcePdf) : undefined,
+        activeSheetId: project.activeSheetId,
+        sheets: await Promise.all(project.sheets.map(async sheet => ({ ...sheet, image: await blobToDataUrl(project.images[sheet.id]) }))),
+        reportSettings: project.reportSettings,
+        categories: project.categories,
+        attributeFields: project.attributeFields,
+        photos: Object.fromEntries(await Promise.all(photoIds.map(async id => [id, await blobToDataUrl(project.photos[id])]))),
+    };
+    return new Blob([JSON.stringify(file)], { type: MAPPA_MIME_TYPE });
+};
+
+// Reads a .mappa file and returns it as a new project (with a fresh id) ready to be stored.
+// Throws an Error with a user-facing Italian message when the file is not valid.
+export const parseProjectFile = async (file: File): Promise<Project> => {
+    let raw: any;
+    try {
+        raw = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`Il file "${file.name}" non è un progetto valido: il contenuto non è leggibile.`);
+    }
+
+    if (!raw || typeof raw !== 'object' || raw.format !== MAPPA_FORMAT) {
+        throw new Error(`Il file "${file.name}" non è un progetto Mappatore.`);
+    }
+    if (!Number.isInteger(raw.version) || raw.version < 1) {
+        throw new Error(`Il file "${file.name}" non indica una versione del formato valida.`);
+    }
+    if (raw.version > MAPPA_VERSION) {
+        throw new Error(`Il file "${file.name}" è stato creato con una versione più recente dell'applicazione (formato v${raw.version}). Aggiorna l'app per aprirlo.`);
+    }
+
+    let migrated = raw;
+    for (let version = raw.version; version < MAPPA_VERSION; version++) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new Error(`Impossibile aggiornare il file "${file.name}" dalla versione ${version} del formato.`);
+        }
+        migrated = { ...migrate(migrated), version: version + 1 };
+    }
+
+    const validated = validateMappaFile(migrated);
+    const now = Date.now();
+    const images: Record<string, Blob> = {};
+    for (const sheet of validated.sheets) images[sheet.id] = await dataUrlToBlob(sheet.image);
+    const photos: Record<string, Blob> = {};
+    for (const [id, photo] of Object.entries(validated.photos)) photos[id] = await dataUrlToBlob(photo);
+    return {
+        id: createId(),
+        name: validated.name,
+        createdAt: validated.createdAt,
+        updatedAt: now,
+        thumbnail: await createThumbnail(validated.sheets[0].image),
+        sheets: validated.sheets.map(({ image, ...sheet }) => sheet),
+        activeSheetId: validated.activeSheetId,
+        reportSettings: validated.reportSettings,
+        categories: validated.categories,
+        attributeFields: validated.attributeFields,
+        images,
+        sourcePdf: validated.sourcePdf ? await dataUrlToBlob(validated.sourcePdf) : undefined,
+        photos,
+    };
+};
+
+const fail = (detail: string): never => {
+    throw new Error(`Il progetto non è valido: ${detail}.`);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const validateCoords = (value: any, label: string): PixelCoords => {
+    if (!value || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) fail(`coordinate mancanti o non numeriche in ${label}`);
+    return { x: value.x, y: value.y };
+};
+
+const validatePoint = (value: any, label: string): Point => {
+    if (!value || typeof value.name !== 'string') fail(`nome mancante in ${label}`);
+    if (!isFiniteNumber(value.distance) || !isFiniteNumber(value.bearing)) fail(`distanza o azimut non validi in ${label}`);
+    if (value.categoryId !== undefined && value.categoryId !== null && typeof value.categoryId !== 'string') fail(`categoria non valida in ${label}`);
+    if (value.z !== undefined && !isFiniteNumber(value.z)) fail(`quota non valida in ${label}`);
+    if (value.id !== undefined && (typeof value.id !== 'string' || !value.id)) fail(`identificativo non valido in ${label}`);
+    return {
+        ...value,
+        pixelCoords: validateCoords(value.pixelCoords, label),
+        realCoords: validateCoords(value.realCoords, label),
+    };
+};
+
+const AREA_OPERATIONS = ['union', 'intersection', 'difference', 'buffer'];
+
+const validateDerivation = (value: any, label: string): AreaDerivation | null => {
+    if (value === null) return null;
+    if (!value || !AREA_OPERATIONS.includes(value.operation)) fail(`operazione di origine non valida in ${label}`);
+    if (!Array.isArray(value.sources) || value.sources.some((s: any) => typeof s !== 'string')) fail(`aree di origine non valide in ${label}`);
+    if (value.operation === 'buffer' && !isFiniteNumber(value.distance)) fail(`distanza di buffer non valida in ${label}`);
+    return value;
+};
+
+const validateArea = (value: any, label: string): Area => {
+    if (!value || typeof value.name !== 'string') fail(`nome mancante in ${label}`);
+    if (!Array.isArray(value.points) || value.points.length < 3) fail(`${label} ha meno di 3 vertici`);
+    if (!isFiniteNumber(value.realArea)) fail(`superficie non valida in ${label}`);
+    if (!Array.isArray(value.holes) || value.holes.some((h: any) => !Array.isArray(h) || h.length < 3)) fail(`fori non validi in ${label}`);
+    if (value.categoryId !== null && typeof value.categoryId !== 'string') fail(`categoria non valida in ${label}`);
+    return {
+        ...value,
+        derivation: validateDerivation(value.derivation, label),
+        points: value.points.map((p: any, i: number) => validatePoint(p, `vertice ${i + 1} di ${label}`)),
+        holes: value.holes.map((h: any[], i: number) => h.map((p: any, j: number) => validatePoint(p, `vertice ${j + 1} del foro ${i + 1} di ${label}`))),
+    };
+};
+
+const MEASUREMENT_MIN_VERTICES: Record<string, number> = { distance: 2, polyline: 2, angle: 3 };
+
+const validateMeasurement = (value: any, label: string): Measurement => {
+    if (!value || typeof value.name !== 'string') fail(`nome mancante in ${label}`);
+    const minVertices = MEASUREMENT_MIN_VERTICES[value.kind];
+    if (!minVertices) fail(`tipo di misura non valido in ${label}`);
+    if (!Array.isArray(value.points) || value.points.length < minVertices) fail(`${label} ha troppo pochi vertici`);
+    return {
+        ...value,
+        points: value.points.map((p: any, i: number) => validatePoint(p, `vertice ${i + 1} di ${label}`)),
+    };
+};
+
+const validateCalibrationReference = (value: any, index: number): CalibrationReference => {
+    const label = `riferimento di calibrazione ${index + 1}`;
+    if (!value || (value.kind !== 'segment' && value.kind !== 'control')) fail(`tipo non valido nel ${label}`);
+    if (typeof value.enabled !== 'boolean') fail(`stato non valido nel ${label}`);
+    const id = typeof value.id === 'string' && value.id ? value.id : createId();
+    if (value.kind === 'segment') {
+        if (!isFiniteNumber(value.length) || value.length <= 0) fail(`lunghezza non valida nel ${label}`);
+        return { kind: 'segment', id, start: validateCoords(value.start, label), end: validateCoords(value.end, label), length: value.length, enabled: value.enabled };
+    }
+    return { kind: 'control', id, pixel: validateCoords(value.pixel, label), real: validateCoords(value.real, label), enabled: value.enabled };
+};
+
+const validateGeoreference = (value: any): Georeference => {
+    if (!value || typeof value !== 'object') fail('la georeferenziazione non è valida');
+    if (!getCrs(value.crs)) fail(`il sistema di riferimento "${value.crs}" non è supportato`);
+    if (!['a', 'b', 'e0', 'n0'].every(key => isFiniteNumber(value[key]))) fail('la trasformazione di georeferenziazione non è valida');
+    if (!Array.isArray(value.controlPoints)) fail('i punti di georeferenziazione sono mancanti');
+    return {
+        ...value,
+        method: value.method === 'origin-north' ? 'origin-north' : 'control-points',
+        controlPoints: value.controlPoints.map((c: any, i: number) => {
+            if (!c || !c.projected || !isFiniteNumber(c.projected.e) || !isFiniteNumber(c.projected.n)) fail(`coordinate non valide nel punto di georeferenziazione ${i + 1}`);
+            return {
+                pointId: typeof c.pointId === 'string' ? c.pointId : null,
+                name: typeof c.name === 'string' ? c.name : `Punto ${i + 1}`,
+                local: validateCoords(c.local, `punto di georeferenziazione ${i + 1}`),
+                projected: { e: c.projected.e, n: c.projected.n },
+            };
+        }),
+    };
+};
+
+// `photoIds` are the photos contained in the file: references to others are dropped
+const validateProjectData = (data: any, photoIds: Set<string>): ProjectData => {
+    if (!data || typeof data !== 'object') fail('i dati di mappatura sono mancanti');
+    if (!Array.isArray(data.calibrationPoints)) fail('i punti di calibrazione sono mancanti');
+    if (!Array.isArray(data.points)) fail("l'elenco dei punti è mancante");
+    if (!Array.isArray(data.areas)) fail("l'elenco delle aree è mancante");
+    if (!Array.isArray(data.measurements)) fail("l'elenco delle misure è mancante");
+    if (data.calibration !== null && !(Array.isArray(data.calibration) && data.calibration.length === 9 && data.calibration.every(isFiniteNumber))) fail('la trasformazione di calibrazione non è valida');
+    if (!Array.isArray(data.calibrationReferences)) fail('i riferimenti di calibrazione sono mancanti');
+    if (!['scale', 'similarity', 'affine', 'projective'].includes(data.calibrationModel)) fail('il modello di calibrazione non è valido');
+    if (!isFiniteNumber(data.knownDistance)) fail('la distanza nota non è valida');
+    if (!isFiniteNumber(data.northRotation)) fail("l'orientamento del Nord non è valido");
+
+    return {
+        ...data,
+        calibrationPoints: data.calibrationPoints.map((c: any, i: number) => validateCoords(c, `punto di calibrazione ${i + 1}`)),
+        calibrationReferences: data.calibrationReferences.map(validateCalibrationReference),
+        origin: data.origin === null ? null : validateCoords(data.origin, 'origine'),
+        georeference: data.georeference === null ? null : validateGeoreference(data.georeference),
+        points: data.points.map((p: any, i: number) => ({
+            ...validatePoint(p, `punto ${i + 1}`),
+            details: p.details === undefined ? undefined : normalizeDetails(p.details, photoIds),
+        })),
+        areas: data.areas.map((a: any, i: number) => ({ ...validateArea(a, `area ${i + 1}`), details: normalizeDetails(a.details, photoIds) })),
+        measurements: data.measurements.map((m: any, i: number) => validateMeasurement(m, `misura ${i + 1}`)),
+        terrain: normalizeTerrainSettings(data.terrain),
+        coordinateFrame: normalizeCoordinateFrame(data.coordinateFrame),
+    };
+};
+
+const validateSheet = (value: any, index: number, photoIds: Set<string>): MappaSheet => {
+    const label = `foglio ${index + 1}`;
+    if (!value || typeof value.id !== 'string' || !value.id) fail(`identificativo mancante nel ${label}`);
+    if (typeof value.image !== 'string' || !value.image.startsWith('data:image/')) fail(`l'immagine del ${label} è mancante`);
+    if (value.pageNumber !== null && !(Number.isInteger(value.pageNumber) && value.pageNumber >= 1)) fail(`numero di pagina non valido nel ${label}`);
+    if (value.renderScale !== null && !(isFiniteNumber(value.renderScale) && value.renderScale > 0)) fail(`risoluzione non valida nel ${label}`);
+    return {
+        id: value.id,
+        name: typeof value.name === 'string' && value.name.trim() ? value.name : `Foglio ${index + 1}`,
+        pageNumber: value.pageNumber,
+        renderScale: value.renderScale,
+        image: value.image,
+        data: validateProjectData(value.data, photoIds),
+    };
+};
+
+const validateMappaFile = (raw: any): MappaFile => {
+    if (raw.sourcePdf !== undefined && (typeof raw.sourcePdf !== 'string' || !raw.sourcePdf.startsWith('data:'))) fail('il PDF di origine è danneggiato');
+    if (!Array.isArray(raw.sheets) || raw.sheets.length === 0) fail('il progetto non contiene fogli');
+
+    if (!raw.photos || typeof raw.photos !== 'object') fail('le foto sono mancanti');
+    const photos: Record<string, string> = {};
+    Object.entries(raw.photos).forEach(([id, photo]) => {
+        if (typeof photo !== 'string' || !photo.startsWith('data:image/')) fail(`la foto ${id} è danneggiata`);
+        photos[id] = photo as string;
+    });
+    const photoIds = new Set(Object.keys(photos));
+
+    const sheets = raw.sheets.map((sheet: any, i: number) => validateSheet(sheet, i, photoIds));
+    if (new Set(sheets.map((s: MappaSheet) => s.id)).size !== sheets.length) fail('due fogli hanno lo stesso identificativo');
+
+    return {
+        format: MAPPA_FORMAT,
+        version: MAPPA_VERSION,
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Progetto importato',
+        createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : Date.now(),
+        updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : Date.now(),
+        sourcePdf: raw.sourcePdf,
+        activeSheetId: sheets.some((s: MappaSheet) => s.id === raw.activeSheetId) ? raw.activeSheetId : sheets[0].id,
+        sheets,
+        reportSettings: raw.reportSettings === null ? null : normalizeReportSettings(raw.reportSettings),
+        categories: normalizeCategories(raw.categories),
+        attributeFields: normalizeAttributeFields(raw.attributeFields),
+        photos,
+    };
+};
@@ -0,0 +1,462 @@
+import { AttributeField, Category, Project, ProjectData, ProjectHistory, ProjectSummary, ReportSettings, Sheet } from '../types';
+import { createId } from '../utils/id';
+import { emptyDetails, photoIdsOf } from '../utils/attributes';
+import { scaleMatrix } from '../utils/calibration';
+
+// Projects are kept in IndexedDB so they survive reloads and work offline.
+// Metadata and the mapping data of each sheet live in `projects`; the (large) sheet
+// images, photos and source PDF live in `files` so that listing projects never has to read them.
+// The undo/redo history of each sheet lives in `history` for the same reason.
+const DB_NAME = 'mappatore';
+const DB_VERSION = 3;
+const PROJECTS_STORE = 'projects';
+const FILES_STORE = 'files';
+const HISTORY_STORE = 'history';
+
+interface ProjectRecord extends ProjectSummary {
+    sheets: Sheet[];
+    activeSheetId: string;
+    // Missing in records saved before report settings existed
+    reportSettings?: ReportSettings | null;
+    // Missing in records saved before categories existed
+    categories?: Category[];
+    // Missing in records saved before attributes existed
+    attributeFields?: AttributeField[];
+}
+
+interface HistoryRecord {
+    id: string;
+    // By sheet id
+    sheets: Record<string, ProjectHistory>;
+}
+
+interface FileRecord {
+    id: string;
+    images: Record<string, Blob>;
+    sourcePdf?: Blob;
+    // Missing in records saved before photos existed
+    photos?: Record<string, Blob>;
+}
+
+// Projects created before sheets existed had a single image, rendered from the first
+// page at a fixed scale when it came from a PDF. It becomes their first sheet.
+export const FIRST_SHEET_ID = 'sheet-1';
+const LEGACY_PDF_RENDER_SCALE = 2.5;
+
+export const legacySheet = (data: ProjectData, fromPdf: boolean): Sheet => ({
+    id: FIRST_SHEET_ID,
+    name: 'Foglio 1',
+    pageNumber: fromPdf ? 1 : null,
+    renderScale: fromPdf ? LEGACY_PDF_RENDER_SCALE : null,
+    data,
+});
+
+// Rewrites records stored before version 3 of the database with their data as a first sheet
+const migrateToSheets = (tx: IDBTransaction) => {
+    const files = tx.objectStore(FILES_STORE);
+    const projects = tx.objectStore(PROJECTS_STORE);
+    const history = tx.objectStore(HISTORY_STORE);
+    files.getAll().onsuccess = (event) => {
+        const fileRecords = (event.target as IDBRequest<any[]>).result;
+        const withPdf = new Set(fileRecords.filter(f => f.sourcePdf).map(f => f.id));
+        fileRecords.forEach(({ id, image, sourcePdf }) => files.put({ id, images: { [FIRST_SHEET_ID]: image }, sourcePdf }));
+        projects.getAll().onsuccess = (event) => {
+            (event.target as IDBRequest<any[]>).result.forEach(({ data, ...record }) => {
+                projects.put({ ...record, activeSheetId: FIRST_SHEET_ID, sheets: [legacySheet(data, withPdf.has(record.id))] });
+            });
+        };
+    };
+    history.getAll().onsuccess = (event) => {
+        (event.target as IDBRequest<any[]>).result.forEach(({ id, past, future }) => {
+            history.put({ id, sheets: { [FIRST_SHEET_ID]: { past, future } } });
+        });
+    };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(FILES_STORE)) {
+                db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+            }
+            if (event.oldVersion > 0 && event.oldVersion < 3 && request.transaction) {
+                migrateToSheets(request.transaction);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const completeTransaction = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+export const emptyProjectData = (): ProjectData => ({
+    calibrationPoints: [],
+    knownDistance: 10,
+    calibrationReferences: [],
+    calibrationModel: 'scale',
+    calibration: null,
+    origin: null,
+    northRotation: 0,
+    georeference: null,
+    points: [],
+    areas: [],
+    measurements: [],
+    terrain: null,
+    coordinateFrame: { kind: 'image' },
+});
+
+// Returns all saved projects, most recently modified first
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS_STORE, 'readonly');
+    const records = await promisifyRequest<ProjectRecord[]>(tx.objectStore(PROJECTS_STORE).getAll());
+    return records
+        .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Id of a point saved before point ids, from its name and position (FNV-1a hash). The
+// snapshots of an old history are upgraded one by one, so the id must not depend on the
+// place of the point in the list: a point left unchanged between undo steps gets the same
+// id in all of them, one moved or renamed is a different point to them.
+const legacyPointId = (point: any) => {
+    const key = `${point.name}|${point.pixelCoords?.x}|${point.pixelCoords?.y}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+    return `punto-${(hash >>> 0).toString(36)}`;
+};
+
+// Brings project data saved by older versions up to the current shape:
+// - before multi-point calibration only a `pixelsPerMeter` scalar was stored
+// - before georeferencing there was no `georeference`
+// - before the measurement tools there were no `measurements`
+// - before inner rings, areas had no `holes`
+// - before area operations, areas had no `derivation`
+// - before categories, areas had no `categoryId`
+// - before attributes and photos, areas had no `details`
+// - before elevations there was no `terrain`
+// - before local grids coordinates were always in the image frame, without `coordinateFrame`
+// - before point ids, saved points had no `id` and georeference control points were linked
+//   to the saved points by name
+export const upgradeLegacyProjectData = (data: any): ProjectData => {
+    let upgraded = data;
+    if (!('calibration' in upgraded)) {
+        const { pixelsPerMeter, ...rest } = upgraded;
+        upgraded = {
+            ...rest,
+            calibrationReferences: [],
+            calibrationModel: 'scale',
+            calibration: typeof pixelsPerMeter === 'number' && pixelsPerMeter > 0 ? scaleMatrix(pixelsPerMeter) : null,
+        };
+    }
+    if (!('georeference' in upgraded)) upgraded = { ...upgraded, georeference: null };
+    if (!('measurements' in upgraded)) upgraded = { ...upgraded, measurements: [] };
+    if (Array.isArray(upgraded.areas) && upgraded.areas.some((a: any) => !('holes' in a))) {
+        upgraded = { ...upgraded, areas: upgraded.areas.map((a: any) => ({ holes: [], ...a })) };
+    }
+    if (Array.isArray(upgraded.areas) && upgraded.areas.some((a: any) => !('derivation' in a))) {
+        upgraded = { ...upgraded, areas: upgraded.areas.map((a: any) => ({ derivation: null, ...a })) };
+    }
+    if (Array.isArray(upgraded.areas) && upgraded.areas.some((a: any) => !('categoryId' in a))) {
+        upgraded = { ...upgraded, areas: upgraded.areas.map((a: any) => ({ categoryId: null, ...a })) };
+    }
+    if (Array.isArray(upgraded.areas) && upgraded.areas.some((a: any) => !('details' in a))) {
+        upgraded = { ...upgraded, areas: upgraded.areas.map((a: any) => ({ details: emptyDetails(), ...a })) };
+    }
+    if (!('terrain' in upgraded)) upgraded = { ...upgraded, terrain: null };
+    if (!('coordinateFrame' in upgraded)) upgraded = { ...upgraded, coordinateFrame: { kind: 'image' } };
+    if (Array.isArray(upgraded.points) && upgraded.points.some((p: any) => !p.id)) {
+        const used = new Map<string, number>();
+        upgraded = {
+            ...upgraded,
+            points: upgraded.points.map((p: any) => {
+                if (p.id) return p;
+                // Identical points in one snapshot are told apart by their order
+                const id = legacyPointId(p);
+                const count = used.get(id) ?? 0;
+                used.set(id, count + 1);
+                return { ...p, id: count === 0 ? id : `${id}-${count + 1}` };
+            }),
+        };
+    }
+    if (Array.isArray(upgraded.georeference?.controlPoints) && upgraded.georeference.controlPoints.some((c: any) => !('pointId' in c))) {
+        const points: any[] = Array.isArray(upgraded.points) ? upgraded.points : [];
+        const pointId = (c: any) => upgraded.georeference.method === 'control-points' ? points.find(p => p.name === c.name)?.id ?? null : null;
+        upgraded = { ...upgraded, georeference: { ...upgraded.georeference, controlPoints: upgraded.georeference.controlPoints.map((c: any) => ({ pointId: pointId(c), ...c })) } };
+    }
+    return upgraded;
+};
+
+// Photos stay stored when they are removed from a feature, so that undo can bring them
+// back. Those no longer referenced by any sheet or undo step are dropped on opening.
+export const loadProject = async (id: string): Promise<Project | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, FILES_STORE, HISTORY_STORE], 'readonly');
+    const [record, files, history] = await Promise.all([
+        promisifyRequest<ProjectRecord | undefined>(tx.objectStore(PROJECTS_STORE).get(id)),
+        promisifyRequest<FileRecord | undefined>(tx.objectStore(FILES_STORE).get(id)),
+        promisifyRequest<HistoryRecord | undefined>(tx.objectStore(HISTORY_STORE).get(id)),
+    ]);
+    if (!record || !files) return null;
+    const sheets = record.sheets.map(sheet => ({ ...sheet, data: upgradeLegacyProjectData(sheet.data) }));
+    const referenced = new Set([
+        ...sheets.flatMap(sheet => photoIdsOf(sheet.data)),
+        ...Object.values(history?.sheets ?? {}).flatMap(h => [...h.past, ...h.future].flatMap(data => photoIdsOf(upgradeLegacyProjectData(data)))),
+    ]);
+    const photos = Object.fromEntries(Object.entries(files.photos ?? {}).filter(([photoId]) => referenced.has(photoId)));
+    if (Object.keys(photos).length < Object.keys(files.photos ?? {}).length) {
+        savePhotos(id, photos).catch(error => console.error("Failed to remove unused photos:", error));
+    }
+    return {
+        ...record,
+        sheets,
+        reportSettings: record.reportSettings ?? null,
+        categories: record.categories ?? [],
+        attributeFields: record.attributeFields ?? [],
+        images: files.images,
+        sourcePdf: files.sourcePdf,
+        photos,
+    };
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, FILES_STORE], 'readwrite');
+    const { images, sourcePdf, photos, ...record } = project;
+    tx.objectStore(PROJECTS_STORE).put(record);
+    tx.objectStore(FILES_STORE).put({ id: project.id, images, sourcePdf, photos } as FileRecord);
+    await completeTransaction(tx);
+};
+
+// Updates only the mapping data of a sheet (used by autosave). The sheet being edited
+// is also the one to show when the project is opened again.
+export const saveSheetData = async (id: string, sheetId: string, data: ProjectData): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const record = await promisifyRequest<ProjectRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Progetto ${id} non trovato.`);
+    if (!record.sheets.some(sheet => sheet.id === sheetId)) throw new Error(`Foglio ${sheetId} non trovato.`);
+    store.put({
+        ...record,
+        sheets: record.sheets.map(sheet => sheet.id === sheetId ? { ...sheet, data } : sheet),
+        activeSheetId: sheetId,
+        updatedAt: Date.now(),
+    });
+    await completeTransaction(tx);
+};
+
+export const saveReportSettings = async (id: string, reportSettings: ReportSettings): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const record = await promisifyRequest<ProjectRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Progetto ${id} non trovato.`);
+    store.put({ ...record, reportSettings, updatedAt: Date.now() });
+    await completeTransaction(tx);
+};
+
+export const saveCategories = async (id: string, categories: Category[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const record = await promisifyRequest<ProjectRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Progetto ${id} non trovato.`);
+    store.put({ ...record, categories, updatedAt: Date.now() });
+    await completeTransaction(tx);
+};
+
+export const saveAttributeFields = async (id: string, attributeFields: AttributeField[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const record = await promisifyRequest<ProjectRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Progetto ${id} non trovato.`);
+    store.put({ ...record, attributeFields, updatedAt: Date.now() });
+    await completeTransaction(tx);
+};
+
+export const savePhoto = async (id: string, photoId: string, photo: Blob): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    const store = tx.objectStore(FILES_STORE);
+    const fileRecord = await promisifyRequest<FileRecord | undefined>(store.get(id));
+    if (!fileRecord) throw new Error(`Progetto ${id} non trovato.`);
+    store.put({ ...fileRecord, photos: { ...fileRecord.photos, [photoId]: photo } });
+    await completeTransaction(tx);
+};
+
+// Replaces every stored photo of a project
+const savePhotos = async (id: string, photos: Record<string, Blob>): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    const store = tx.objectStore(FILES_STORE);
+    const fileRecord = await promisifyRequest<FileRecord | undefined>(store.get(id));
+    if (!fileRecord) throw new Error(`Progetto ${id} non trovato.`);
+    store.put({ ...fileRecord, photos });
+    await completeTransaction(tx);
+};
+
+// Adds a sheet, or replaces it with the same id (e.g. after rendering it at another resolution)
+export const saveSheet = async (id: string, sheet: Sheet, image: Blob): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, FILES_STORE], 'readwrite');
+    const projects = tx.objectStore(PROJECTS_STORE);
+    const files = tx.objectStore(FILES_STORE);
+    const [record, fileRecord] = await Promise.all([
+        promisifyRequest<ProjectRecord | undefined>(projects.get(id)),
+        promisifyRequest<FileRecord | undefined>(files.get(id)),
+    ]);
+    if (!record || !fileRecord) throw new Error(`Progetto ${id} non trovato.`);
+    const exists = record.sheets.some(s => s.id === sheet.id);
+    projects.put({
+        ...record,
+        sheets: exists ? record.sheets.map(s => s.id === sheet.id ? sheet : s) : [...record.sheets, sheet],
+        updatedAt: Date.now(),
+    });
+    files.put({ ...fileRecord, images: { ...fileRecord.images, [sheet.id]: image } });
+    await completeTransaction(tx);
+};
+
+export const deleteSheet = async (id: string, sheetId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, FILES_STORE, HISTORY_STORE], 'readwrite');
+    const projects = tx.objectStore(PROJECTS_STORE);
+    const files = tx.objectStore(FILES_STORE);
+    const history = tx.objectStore(HISTORY_STORE);
+    const [record, fileRecord, historyRecord] = await Promise.all([
+        promisifyRequest<ProjectRecord | undefined>(projects.get(id)),
+        promisifyRequest<FileRecord | undefined>(files.get(id)),
+        promisifyRequest<HistoryRecord | undefined>(history.get(id)),
+    ]);
+    if (!record || !fileRecord) throw new Error(`Progetto ${id} non trovato.`);
+    const sheets = record.sheets.filter(s => s.id !== sheetId);
+    if (sheets.length === 0) throw new Error("Un progetto deve avere almeno un foglio.");
+    projects.put({
+        ...record,
+        sheets,
+        activeSheetId: record.activeSheetId === sheetId ? sheets[0].id : record.activeSheetId,
+        updatedAt: Date.now(),
+    });
+    const { [sheetId]: _image, ...images } = fileRecord.images;
+    files.put({ ...fileRecord, images });
+    if (historyRecord) {
+        const { [sheetId]: _history, ...sheetHistories } = historyRecord.sheets;
+        history.put({ id, sheets: sheetHistories });
+    }
+    await completeTransaction(tx);
+};
+
+// Sheets without a stored history (e.g. from projects created before it was stored) start with an empty one
+export const loadProjectHistory = async (id: string, sheetId: string): Promise<ProjectHistory> => {
+    const db = await openDatabase();
+    const record = await promisifyRequest<HistoryRecord | undefined>(db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).get(id));
+    const history = record?.sheets[sheetId];
+    if (!history) return { past: [], future: [] };
+    return { past: history.past.map(upgradeLegacyProjectData), future: history.future.map(upgradeLegacyProjectData) };
+};
+
+export const saveProjectHistory = async (id: string, sheetId: string, history: ProjectHistory): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    const record = await promisifyRequest<HistoryRecord | undefined>(store.get(id));
+    store.put({ id, sheets: { ...record?.sheets, [sheetId]: { past: history.past, future: history.future } } } as HistoryRecord);
+    await completeTransaction(tx);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const record = await promisifyRequest<ProjectRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Progetto ${id} non trovato.`);
+    store.put({ ...record, name, updatedAt: Date.now() });
+    await completeTransaction(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+    const project = await loadProject(id);
+    if (!project) throw new Error(`Progetto ${id} non trovato.`);
+    const now = Date.now();
+    const copy: Project = {
+        ...project,
+        id: createId(),
+        name: `${project.name} (copia)`,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await saveProject(copy);
+    const { id: copyId, name, createdAt, updatedAt, thumbnail } = copy;
+    return { id: copyId, name, createdAt, updatedAt, thumbnail };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, FILES_STORE, HISTORY_STORE], 'readwrite');
+    tx.objectStore(PROJECTS_STORE).delete(id);
+    tx.objectStore(FILES_STORE).delete(id);
+    tx.objectStore(HISTORY_STORE).delete(id);
+    await completeTransaction(tx);
+};
+
+// Renders a small JPEG preview of the image for the recent projects list
+export const createThumbnail = (imageSrc: string, maxSize = 240): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+            canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                reject(new Error('Could not get canvas context.'));
+                return;
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        img.onerror = () => reject(new Error("Impossibile generare l'anteprima del progetto."));
+        img.src = imageSrc;
+    });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const response = await fetch(dataUrl);
+    return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
@@ -0,0 +1,277 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { PixelCoords, ReportSettings, CategorySymbol } from '../types';
+import { REPORT_ORIENTATION_LABELS, reportPageSize, niceLength, formatScaleLength } from '../utils/report';
+import { SceneShape, pointSymbolShapes } from '../utils/scene';
+import { drawSceneOnPdf } from './sceneExport';
+
+// Lays out the PDF report with jsPDF: the map in a frame with its overlay as vectors, scale
+// bar and legend, a title block, then the optional tables. Units are mm.
+
+export interface ReportMap {
+    // The map image at its natural size, placed as a raster
+    image: HTMLImageElement;
+    // Overlay drawn over the image as vectors
+    shapes: SceneShape[];
+    // Null without calibration: the map is then only fitted to the page
+    pixelsPerMeter: number | null;
+    // Pixel the map is centred on when a true-scale print is larger than its frame
+    focus: PixelCoords;
+}
+
+export interface ReportLegendEntry {
+    label: string;
+    color: string;
+    symbol: 'point' | 'area' | 'line';
+    // Marker of the points of a category, instead of the plain dot
+    pointSymbol?: CategorySymbol;
+}
+
+export interface ReportTable {
+    title: string;
+    head: string[];
+    body: string[][];
+}
+
+export interface ReportContent {
+    settings: ReportSettings;
+    projectName: string;
+    sheetName: string | null;
+    map: ReportMap;
+    legend: ReportLegendEntry[];
+    tables: ReportTable[];
+}
+
+const MARGIN = 10;
+const TITLE_BLOCK_HEIGHT = 30;
+
+// The part of the image that fits `width` × `height` pixels around `focus`
+const cropRect = (image: HTMLImageElement, focus: PixelCoords, width: number, height: number) => {
+    const w = Math.min(image.naturalWidth, Math.round(width));
+    const h = Math.min(image.naturalHeight, Math.round(height));
+    const x = Math.max(0, Math.min(image.naturalWidth - w, Math.round(focus.x - w / 2)));
+    const y = Math.max(0, Math.min(image.naturalHeight - h, Math.round(focus.y - h / 2)));
+    return { x, y, width: w, height: h };
+};
+
+const cropImage = (image: HTMLImageElement, crop: { x: number; y: number; width: number; height: number }) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = crop.width;
+    canvas.height = crop.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context is not available for PDF export.");
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+    return canvas.toDataURL('image/png');
+};
+
+export const createReportPdf = (content: ReportContent): jsPDF => {
+    const { settings, map } = content;
+    const page = reportPageSize(settings);
+    const doc = new jsPDF({
+        orientation: settings.orientation === 'portrait' ? 'p' : 'l',
+        unit: 'mm',
+        format: settings.pageSize.toLowerCase(),
+    });
+    // Text and decorations grow with the sheet, less than the sheet itself
+    const k = Math.sqrt(Math.min(page.width, page.height) / 210);
+
+    // Map frame, above the title block
+    const frame = {
+        x: MARGIN,
+        y: MARGIN,
+        width: page.width - 2 * MARGIN,
+        height: page.height - 2 * MARGIN - TITLE_BLOCK_HEIGHT * k - 4 * k,
+    };
+
+    const { naturalWidth, naturalHeight } = map.image;
+    let mmPerPixel: number;
+    let crop = { x: 0, y: 0, width: naturalWidth, height: naturalHeight };
+    if (settings.printScale && map.pixelsPerMeter) {
+        mmPerPixel = 1000 / (map.pixelsPerMeter * settings.printScale);
+        if (naturalWidth * mmPerPixel > frame.width || naturalHeight * mmPerPixel > frame.height) {
+            crop = cropRect(map.image, map.focus, frame.width / mmPerPixel, frame.height / mmPerPixel);
+        }
+    } else {
+        mmPerPixel = Math.min(frame.width / naturalWidth, frame.height / naturalHeight);
+    }
+    const imageWidth = crop.width * mmPerPixel;
+    const imageHeight = crop.height * mmPerPixel;
+    const imageX = frame.x + (frame.width - imageWidth) / 2;
+    const imageY = frame.y + (frame.height - imageHeight) / 2;
+    doc.addImage(cropImage(map.image, crop), 'PNG', imageX, imageY, imageWidth, imageHeight);
+
+    // The overlay stays vector, clipped to the visible part of the image
+    doc.saveGraphicsState();
+    doc.rect(imageX, imageY, imageWidth, imageHeight, null);
+    doc.clip();
+    doc.discardPath();
+    drawSceneOnPdf(doc, map.shapes, { left: imageX - crop.x * mmPerPixel, top: imageY - crop.y * mmPerPixel, mmPerPixel });
+    doc.restoreGraphicsState();
+
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.3 * k);
+    doc.rect(frame.x, frame.y, frame.width, frame.height);
+
+    const mmPerMetre = map.pixelsPerMeter ? mmPerPixel * map.pixelsPerMeter : null;
+    if (settings.scaleBar && mmPerMetre) drawScaleBar(doc, frame, mmPerMetre, k);
+    if (settings.legend && content.legend.length > 0) drawLegend(doc, frame, content.legend, k);
+    drawTitleBlock(doc, content, page, mmPerMetre, k);
+
+    for (const table of content.tables) {
+        doc.addPage();
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12 * k);
+        doc.text(table.title, MARGIN, MARGIN + 5 * k);
+        autoTable(doc, {
+            head: [table.head],
+            body: table.body,
+            startY: MARGIN + 9 * k,
+            margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + 4 * k },
+            styles: { fontSize: 8 * k },
+        });
+    }
+
+    if (settings.pageNumbers) {
+        const count = doc.getNumberOfPages();
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8 * k);
+        for (let i = 1; i <= count; i++) {
+            doc.setPage(i);
+            doc.text(`Pagina ${i} di ${count}`, page.width - MARGIN, page.height - MARGIN / 2 + 1, { align: 'right' });
+        }
+    }
+    return doc;
+};
+
+// Alternating black and white bar in the lower left corner of the map frame
+const drawScaleBar = (doc: jsPDF, frame: { x: number; y: number; width: number; height: number }, mmPerMetre: number, k: number) => {
+    const length = niceLength(frame.width / 4 / mmPerMetre);
+    const barWidth = length * mmPerMetre;
+    const segments = 4;
+    const x = frame.x + 6 * k;
+    const y = frame.y + frame.height - 8 * k;
+    const barHeight = 1.8 * k;
+
+    doc.setFillColor(255, 255, 255);
+    doc.rect(x - 3 * k, y - 6 * k, barWidth + 6 * k + 14 * k, 10 * k, 'F');
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.2 * k);
+    for (let i = 0; i < segments; i++) {
+        const shade = i % 2 === 0 ? 0 : 255;
+        doc.setFillColor(shade, shade, shade);
+        doc.rect(x + i * barWidth / segments, y, barWidth / segments, barHeight, 'FD');
+    }
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7 * k);
+    doc.setTextColor(0);
+    doc.text('0', x, y - 1.2 * k, { align: 'center' });
+    doc.text(formatScaleLength(length / 2), x + barWidth / 2, y - 1.2 * k, { align: 'center' });
+    doc.text(formatScaleLength(length), x + barWidth, y - 1.2 * k, { align: 'center' });
+};
+
+// Symbols of the features shown on the map, in the upper right corner of the map frame
+const drawLegend = (doc: jsPDF, frame: { x: number; y: number; width: number; height: number }, entries: ReportLegendEntry[], k: number) => {
+    const rowHeight = 5 * k;
+    const width = 48 * k;
+    const height = 8 * k + entries.length * rowHeight;
+    const x = frame.x + frame.width - width - 4 * k;
+    const y = frame.y + 4 * k;
+
+    doc.setFillColor(255, 255, 255);
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.2 * k);
+    doc.rect(x, y, width, height, 'FD');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8 * k);
+    doc.setTextColor(0);
+    doc.text('Legenda', x + 3 * k, y + 5 * k);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7 * k);
+    entries.forEach((entry, i) => {
+        const cy = y + 8 * k + i * rowHeight + rowHeight / 2;
+        const sx = x + 3 * k;
+        doc.setDrawColor(entry.color);
+        doc.setFillColor(entry.color);
+        if (entry.symbol === 'point' && entry.pointSymbol) {
+            drawSceneOnPdf(doc, pointSymbolShapes({ x: 0, y: 0 }, entry.pointSymbol, entry.color, 1.2, 0.15), { left: sx + 2 * k, top: cy, mmPerPixel: k });
+            doc.setLineWidth(0.2 * k);
+        } else if (entry.symbol === 'point') {
+            doc.circle(sx + 2 * k, cy, 1.2 * k, 'F');
+        } else if (entry.symbol === 'area') {
+            doc.rect(sx, cy - 1.5 * k, 4 * k, 3 * k, 'F');
+        } else {
+            doc.setLineWidth(0.6 * k);
+            doc.line(sx, cy, sx + 4 * k, cy);
+            doc.setLineWidth(0.2 * k);
+        }
+        doc.text(entry.label, sx + 7 * k, cy + 1 * k);
+    });
+    doc.setDrawColor(0);
+};
+
+const drawTitleBlock = (doc: jsPDF, content: ReportContent, page: { width: number; height: number }, mmPerMetre: number | null, k: number) => {
+    const { settings } = content;
+    const height = TITLE_BLOCK_HEIGHT * k;
+    const x = MARGIN;
+    const y = page.height - MARGIN - height;
+    const width = page.width - 2 * MARGIN;
+    const infoWidth = 70 * k;
+    const scaleWidth = 36 * k;
+    const logoWidth = settings.logo ? height * 1.4 : 0;
+
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.3 * k);
+    doc.rect(x, y, width, height);
+    const dividers = [x + logoWidth, x + width - infoWidth - scaleWidth, x + width - scaleWidth].filter(d => d > x);
+    dividers.forEach(d => doc.line(d, y, d, y + height));
+    doc.setTextColor(0);
+
+    if (settings.logo) {
+        const { width: w, height: h, fileType } = doc.getImageProperties(settings.logo);
+        const fit = Math.min((logoWidth - 4 * k) / w, (height - 4 * k) / h);
+        doc.addImage(settings.logo, fileType, x + (logoWidth - w * fit) / 2, y + (height - h * fit) / 2, w * fit, h * fit);
+    }
+
+    // Title, project and sheet
+    const mainX = x + logoWidth + 4 * k;
+    const mainWidth = width - logoWidth - infoWidth - scaleWidth - 8 * k;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14 * k);
+    doc.text(doc.splitTextToSize(settings.title || content.projectName, mainWidth)[0] ?? '', mainX, y + 10 * k);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10 * k);
+    doc.text(doc.splitTextToSize(content.projectName, mainWidth)[0] ?? '', mainX, y + 17 * k);
+    if (content.sheetName) {
+        doc.setFontSize(8 * k);
+        doc.text(content.sheetName, mainX, y + 23 * k);
+    }
+
+    // Author, client and date
+    const infoX = x + width - infoWidth - scaleWidth + 3 * k;
+    const date = settings.date || new Date().toLocaleDateString('it-IT');
+    [['Autore', settings.author], ['Committente', settings.client], ['Data', date]].forEach(([label, value], i) => {
+        const rowY = y + 8 * k + i * 8 * k;
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(7 * k);
+        doc.text(label, infoX, rowY);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9 * k);
+        doc.text(doc.splitTextToSize(value || '-', infoWidth - 26 * k)[0] ?? '', infoX + 22 * k, rowY);
+    });
+
+    // Scale and sheet size
+    const scaleX = x + width - scaleWidth + 3 * k;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7 * k);
+    doc.text('Scala', scaleX, y + 8 * k);
+    doc.setFontSize(12 * k);
+    // A fitted map has whatever scale the sheet allows, printed rounded
+    const isTrueScale = !!(mmPerMetre && settings.printScale);
+    const scaleLabel = !mmPerMetre ? 'Non in scala' : `1:${isTrueScale ? settings.printScale : Math.round(1000 / mmPerMetre)}`;
+    doc.text(scaleLabel, scaleX, y + 15 * k);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7 * k);
+    if (mmPerMetre && !isTrueScale) doc.text('circa, adattata al foglio', scaleX, y + 19 * k);
+    doc.text(`${settings.pageSize} ${REPORT_ORIENTATION_LABELS[settings.orientation].toLowerCase()}`, scaleX, y + 25 * k);
+};
@@ -0,0 +1,210 @@
+import { jsPDF, GState } from 'jspdf';
+import { PixelCoords } from '../types';
+import { SceneShape, svgElement, haloWidth, lineHeight } from '../utils/scene';
+
+// Renderers of the overlay scene (utils/scene) for the exports: standalone SVG, canvas for
+// PNG and vector drawing with jsPDF. Hit areas of handles only exist on screen.
+
+const visible = (shapes: SceneShape[]) => shapes.filter(s => !s.hitOnly);
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Points of an arc as a polyline, for renderers without elliptical arcs
+const arcPoints = (shape: Extract<SceneShape, { kind: 'arc' }>): PixelCoords[] => {
+    const steps = Math.max(8, Math.ceil(Math.abs(shape.endAngle - shape.startAngle) / (Math.PI / 32)));
+    return Array.from({ length: steps + 1 }, (_, i) => {
+        const angle = shape.startAngle + (shape.endAngle - shape.startAngle) * i / steps;
+        return { x: shape.center.x + shape.radius * Math.cos(angle), y: shape.center.y + shape.radius * Math.sin(angle) };
+    });
+};
+
+// Standalone SVG document of the map: the image embedded as a data URL, with the scene on top
+export const sceneToSvg = (shapes: SceneShape[], image: { href: string; width: number; height: number }): string => {
+    const { width, height } = image;
+    const elements = visible(shapes).map(shape => {
+        const { tag, attributes } = svgElement(shape);
+        const attributeText = Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`).join('');
+        if (shape.kind !== 'text') return `  <${tag}${attributeText}/>`;
+        const content = shape.lines.length === 1
+            ? escapeXml(shape.lines[0])
+            : shape.lines.map((line, i) => `<tspan x="${shape.position.x}" dy="${i === 0 ? 0 : lineHeight(shape.fontSize)}">${escapeXml(line)}</tspan>`).join('');
+        return `  <text${attributeText}>${content}</text>`;
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        `  <image x="0" y="0" width="${width}" height="${height}" href="${image.href}" xlink:href="${image.href}"/>`,
+        ...elements,
+        '</svg>',
+        '',
+    ].join('\n');
+};
+
+// Draws the scene on a canvas context whose user units are image pixels
+export const drawSceneOnCanvas = (ctx: CanvasRenderingContext2D, shapes: SceneShape[]) => {
+    for (const shape of visible(shapes)) {
+        const { style } = shape;
+        ctx.save();
+        ctx.globalAlpha = style.opacity ?? 1;
+        ctx.lineWidth = style.strokeWidth ?? 1;
+        ctx.setLineDash(style.dash ?? []);
+        if (style.fill) ctx.fillStyle = style.fill;
+        if (style.stroke) ctx.strokeStyle = style.stroke;
+
+        if (shape.kind === 'text') {
+            ctx.translate(shape.position.x, shape.position.y);
+            if (shape.rotation) ctx.rotate(shape.rotation * Math.PI / 180);
+            ctx.font = `bold ${shape.fontSize}px sans-serif`;
+            ctx.textAlign = shape.anchor === 'middle' ? 'center' : 'left';
+            ctx.textBaseline = shape.baseline;
+            ctx.lineJoin = 'round';
+            shape.lines.forEach((line, i) => {
+                const y = i * lineHeight(shape.fontSize);
+                if (shape.halo) {
+                    ctx.strokeStyle = 'black';
+                    ctx.lineWidth = haloWidth(shape.fontSize);
+                    ctx.strokeText(line, 0, y);
+                }
+                ctx.fillText(line, 0, y);
+            });
+            ctx.restore();
+            continue;
+        }
+
+        ctx.beginPath();
+        if (shape.kind === 'path') {
+            shape.rings.forEach(ring => {
+                ring.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                if (shape.closed) ctx.closePath();
+            });
+        } else if (shape.kind === 'circle') {
+            ctx.arc(shape.center.x, shape.center.y, shape.radius, 0, 2 * Math.PI);
+        } else {
+            ctx.arc(shape.center.x, shape.center.y, shape.radius, shape.startAngle, shape.endAngle, shape.endAngle < shape.startAngle);
+        }
+        if (style.fill) ctx.fill('evenodd');
+        if (style.stroke) ctx.stroke();
+        ctx.restore();
+    }
+};
+
+// Red, green, blue (0–255) and alpha of the CSS colours used by the scene
+const parseColor = (color: string): { rgb: [number, number, number]; alpha: number } => {
+    if (color === 'white') return { rgb: [255, 255, 255], alpha: 1 };
+    if (color === 'black') return { rgb: [0, 0, 0], alpha: 1 };
+    if (color === 'transparent') return { rgb: [0, 0, 0], alpha: 0 };
+    const hex = color.match(/^#([0-9a-f]{6})$/i);
+    if (hex) {
+        const value = parseInt(hex[1], 16);
+        return { rgb: [(value >> 16) & 255, (value >> 8) & 255, value & 255], alpha: 1 };
+    }
+    const rgba = color.match(/^rgba?\(([^)]+)\)$/);
+    if (rgba) {
+        const [r, g, b, a = 1] = rgba[1].split(',').map(Number);
+        return { rgb: [r, g, b], alpha: a };
+    }
+    throw new Error(`Unsupported colour in the map overlay: ${color}`);
+};
+
+// Draws the scene as vectors on a jsPDF page in millimetres, with image pixel (x, y) at
+// (left + x × mmPerPixel, top + y × mmPerPixel). Clipping is left to the caller.
+export const drawSceneOnPdf = (doc: jsPDF, shapes: SceneShape[], placement: { left: number; top: number; mmPerPixel: number }) => {
+    const { left, top, mmPerPixel: k } = placement;
+    const page = (p: PixelCoords) => ({ x: left + p.x * k, y: top + p.y * k });
+    const MM_TO_PT = 72 / 25.4;
+    let opacityKey = '1/1';
+    const setOpacity = (fill: number, stroke: number) => {
+        const key = `${fill}/${stroke}`;
+        if (key === opacityKey) return;
+        doc.setGState(new GState({ opacity: fill, 'stroke-opacity': stroke }));
+        opacityKey = key;
+    };
+
+    for (const shape of visible(shapes)) {
+        const { style } = shape;
+        const opacity = style.opacity ?? 1;
+        const fill = style.fill ? parseColor(style.fill) : null;
+        const stroke = style.stroke ? parseColor(style.stroke) : null;
+        if (fill) doc.setFillColor(...fill.rgb);
+        if (stroke) doc.setDrawColor(...stroke.rgb);
+        doc.setLineWidth((style.strokeWidth ?? 1) * k);
+        doc.setLineDashPattern((style.dash ?? []).map(d => d * k), 0);
+
+        if (shape.kind === 'text') {
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(shape.fontSize * k * MM_TO_PT);
+            doc.setLineJoin('round');
+            const angle = (shape.rotation ?? 0) * Math.PI / 180;
+            // Baseline direction and the direction of the next line, turned with the text
+            const along = { x: Math.cos(angle), y: Math.sin(angle) };
+            const down = { x: -Math.sin(angle), y: Math.cos(angle) };
+            const origin = page(shape.position);
+            shape.lines.forEach((line, i) => {
+                const shift = shape.anchor === 'middle' ? -doc.getTextWidth(line) / 2 : 0;
+                const offset = i * lineHeight(shape.fontSize) * k;
+                const x = origin.x + along.x * shift + down.x * offset;
+                const y = origin.y + along.y * shift + down.y * offset;
+                // jsPDF turns text counter-clockwise
+                const options = { baseline: shape.baseline, angle: -(shape.rotation ?? 0) };
+                if (shape.halo) {
+                    setOpacity(1, opacity);
+                    doc.setDrawColor(0, 0, 0);
+                    doc.setLineWidth(haloWidth(shape.fontSize) * k);
+                    doc.text(line, x, y, { ...options, renderingMode: 'stroke' });
+                }
+                setOpacity((fill?.alpha ?? 1) * opacity, 1);
+                doc.setTextColor(...(fill?.rgb ?? [0, 0, 0]));
+                doc.text(line, x, y, { ...options, renderingMode: 'fill' });
+            });
+            doc.setLineJoin('miter');
+            continue;
+        }
+
+        const hasFill = !!fill && fill.alpha > 0;
+        const hasStroke = !!stroke && stroke.alpha > 0;
+        if (!hasFill && !hasStroke) continue;
+        setOpacity((fill?.alpha ?? 1) * opacity, (stroke?.alpha ?? 1) * opacity);
+        if (shape.kind === 'circle') {
+            const center = page(shape.center);
+            doc.circle(center.x, center.y, shape.radius * k, hasFill && hasStroke ? 'FD' : hasFill ? 'F' : 'S');
+            continue;
+        }
+        const rings = shape.kind === 'path' ? shape.rings : [arcPoints(shape)];
+        const closed = shape.kind === 'path' && shape.closed;
+        rings.forEach(ring => {
+            ring.forEach((p, i) => {
+                const { x, y } = page(p);
+                if (i === 0) doc.moveTo(x, y); else doc.lineTo(x, y);
+            });
+            if (closed) doc.close();
+        });
+        if (hasFill && hasStroke) doc.fillStrokeEvenOdd();
+        else if (hasFill) doc.fillEvenOdd();
+        else doc.stroke();
+    }
+    setOpacity(1, 1);
+    doc.setLineDashPattern([], 0);
+};
+
+// Largest PNG export, in pixels: browsers refuse bigger canvases or run out of memory
+const MAX_PNG_PIXELS = 64e6;
+
+// PNG of the map with the scene drawn at `pixelRatio` times the natural image size, so
+// lines and labels stay sharp when the image is printed or zoomed
+export const renderScenePng = (image: HTMLImageElement, shapes: SceneShape[], pixelRatio: number): Promise<Blob> => {
+    const { naturalWidth: width, naturalHeight: height } = image;
+    const ratio = Math.min(pixelRatio, Math.sqrt(MAX_PNG_PIXELS / (width * height)));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error("Canvas context is not available for PNG export."));
+    ctx.scale(canvas.width / width, canvas.height / height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0);
+    drawSceneOnCanvas(ctx, shapes);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Impossibile creare l'immagine PNG.")), 'image/png');
+    });
+};
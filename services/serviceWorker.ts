@@ -0,0 +1,39 @@
+// Registration of the service worker generated by the build (see sw.js). A new release is
+// installed in the background and waits; `onUpdate` receives the function that activates it
+// and reloads the page, to call once the user accepts.
+export const registerServiceWorker = (onUpdate: (applyUpdate: () => void) => void) => {
+    // The dev server has no generated worker
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    let reloading = false;
+    const offer = (worker: ServiceWorker) => onUpdate(() => {
+        navigator.serviceWorker.addEventListener('controllerchange', () => {
+            if (reloading) return;
+            reloading = true;
+            window.location.reload();
+        });
+        worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+
+    const register = () => {
+        navigator.serviceWorker.register('/sw.js').then(registration => {
+            // Without a controller this is the first install, not an update
+            if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+            registration.addEventListener('updatefound', () => {
+                const worker = registration.installing;
+                worker?.addEventListener('statechange', () => {
+                    if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+                });
+            });
+            // An installed app can stay open for days: look for a release when it comes back
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'visible') registration.update().catch(() => {});
+            });
+        }, err => {
+            console.log('ServiceWorker registration failed: ', err);
+        });
+    };
+    // Registering after the load event keeps the precaching off the first paint
+    if (document.readyState === 'complete') register();
+    else window.addEventListener('load', register, { once: true });
+};
@@ -0,0 +1,304 @@
+import { Point, Area, RealCoords, Category } from '../types';
+import { computeAreaMetrics } from '../utils/areaAnalytics';
+import { findCategory, categoryName } from '../utils/categories';
+import { ContourLine, CutFill } from '../utils/terrain';
+import { boundsInFrame } from '../utils/coordinateFrame';
+
+// Describes the coordinate frame used by the vector exports. Without georeferencing,
+// coordinates are written in metres in the local frame defined by the origin.
+export interface ExportFrame {
+    // Human readable name of the frame, written in the file metadata
+    name: string;
+    // EPSG code of the projected CRS, when the frame is a real one
+    epsg?: number;
+    // Converts local metric coordinates to the projected coordinates written in GeoJSON and DXF
+    toProjected: (coords: RealCoords) => [number, number];
+    // Converts local metric coordinates to WGS84 longitude/latitude, used by KML
+    toLonLat?: (coords: RealCoords) => [number, number];
+    // Converts local metric coordinates to the coordinate frame of the sheet, used for the
+    // x_m/y_m attributes; the image frame when missing
+    toLocal?: (coords: RealCoords) => RealCoords;
+}
+
+// Terrain model of the sheet written with the features, when there is one
+export interface TerrainExport {
+    contours: ContourLine[];
+    // Cut and fill of each area, by area index; null for areas the model does not reach
+    volumes: (CutFill | null)[];
+    referenceLevel: number;
+}
+
+export const localFrame: ExportFrame = {
+    name: 'Sistema locale (metri dal punto di riferimento)',
+    toProjected: ({ x, y }) => [x, y],
+};
+
+// Metres per degree at the equator, used to place a non-georeferenced map around
+// longitude/latitude 0,0 so that KML viewers still show correct shapes and sizes.
+const METERS_PER_DEGREE_LON = 111319.49;
+const METERS_PER_DEGREE_LAT = 110574.27;
+
+const approximateLonLat = ({ x, y }: RealCoords): [number, number] => [x / METERS_PER_DEGREE_LON, y / METERS_PER_DEGREE_LAT];
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+const signedRingArea = (ring: [number, number][]) => {
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const [x1, y1] = ring[i];
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        area += x1 * y2 - x2 * y1;
+    }
+    return area / 2;
+};
+
+// Returns a closed ring with counter-clockwise orientation, as GeoJSON and KML expect for
+// outer rings, or clockwise for inner rings (holes)
+const closedOrientedRing = (ring: [number, number][], clockwise = false): [number, number][] => {
+    const oriented = (signedRingArea(ring) < 0) !== clockwise ? [...ring].reverse() : [...ring];
+    return [...oriented, oriented[0]];
+};
+
+const identity = (coords: RealCoords) => coords;
+
+// Analytics of an area written as attributes by every format, in metres in the coordinate
+// frame of the sheet
+const areaAttributes = (a: Area, frame: ExportFrame) => {
+    const toLocal = frame.toLocal ?? identity;
+    const metrics = computeAreaMetrics(a);
+    const centroid = toLocal(metrics.centroid);
+    const bounds = boundsInFrame(a.points.map(p => p.realCoords), toLocal);
+    return {
+        area_m2: round(a.realArea, 3),
+        perimeter_m: round(metrics.perimeter, 3),
+        holes: a.holes.length,
+        centroid_x_m: round(centroid.x, 3),
+        centroid_y_m: round(centroid.y, 3),
+        bbox_m: [bounds.min.x, bounds.min.y, bounds.max.x, bounds.max.y].map(v => round(v, 3)),
+        self_intersecting: metrics.crossings > 0,
+    };
+};
+
+// Volumes of an area against the reference level of the terrain model, when it reaches the area
+const volumeAttributes = (terrain: TerrainExport | null, index: number) => {
+    const volume = terrain?.volumes[index];
+    if (!terrain || !volume) return {};
+    return {
+        reference_level_m: round(terrain.referenceLevel, 3),
+        cut_m3: round(volume.cut, 3),
+        fill_m3: round(volume.fill, 3),
+        volume_covered_m2: round(volume.coveredArea, 3),
+    };
+};
+
+// Points with an elevation have three coordinates; contour lines are LineStrings at their elevation
+export const exportGeoJSON = (points: Point[], areas: Area[], categories: Category[], frame: ExportFrame = localFrame, terrain: TerrainExport | null = null): string => {
+    const category = (id: string | null | undefined) => findCategory(categories, id)?.name ?? null;
+    const project = (c: RealCoords) => frame.toProjected(c).map(v => round(v, 3)) as [number, number];
+    const toLocal = frame.toLocal ?? identity;
+    const features = [
+        ...points.map(p => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: typeof p.z === 'number' ? [...project(p.realCoords), round(p.z, 3)] : project(p.realCoords) },
+            properties: {
+                name: p.name,
+                kind: 'point',
+                category: category(p.categoryId),
+                x_m: round(toLocal(p.realCoords).x, 3),
+                y_m: round(toLocal(p.realCoords).y, 3),
+                z_m: typeof p.z === 'number' ? round(p.z, 3) : null,
+                distance_m: round(p.distance, 3),
+                bearing_deg: round(p.bearing, 2),
+            },
+        })),
+        ...areas.map((a, index) => ({
+            type: 'Feature',
+            geometry: {
+                type: 'Polygon',
+                coordinates: [
+                    closedOrientedRing(a.points.map(p => project(p.realCoords))),
+                    ...a.holes.map(hole => closedOrientedRing(hole.map(p => project(p.realCoords)), true)),
+                ],
+            },
+            properties: {
+                name: a.name,
+                kind: 'area',
+                category: category(a.categoryId),
+                ...areaAttributes(a, frame),
+                ...volumeAttributes(terrain, index),
+            },
+        })),
+        ...(terrain?.contours ?? []).map(line => ({
+            type: 'Feature',
+            geometry: {
+                type: 'LineString',
+                coordinates: [...line.coords, ...(line.closed ? [line.coords[0]] : [])].map(c => [...project(c), round(line.elevation, 3)]),
+            },
+            properties: {
+                kind: 'contour',
+                elevation_m: round(line.elevation, 3),
+                index_contour: line.index,
+            },
+        })),
+    ];
+    const collection: Record<string, unknown> = { type: 'FeatureCollection', name: 'mappatura', features };
+    if (frame.epsg) {
+        collection.crs = { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${frame.epsg}` } };
+    }
+    return JSON.stringify(collection, null, 2);
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// KML colour (aabbggrr) of a '#rrggbb' colour
+const kmlColor = (color: string, alpha: string) => `${alpha}${color.slice(5, 7)}${color.slice(3, 5)}${color.slice(1, 3)}`.toLowerCase();
+
+export const exportKML = (points: Point[], areas: Area[], categories: Category[], documentName: string, frame: ExportFrame = localFrame, terrain: TerrainExport | null = null): string => {
+    const toLocal = frame.toLocal ?? identity;
+    const toLonLat = frame.toLonLat ?? ((c: RealCoords) => approximateLonLat(toLocal(c)));
+    const lonLat = (c: RealCoords) => toLonLat(c).map(v => v.toFixed(8)).join(',');
+    const description = frame.toLonLat
+        ? `Coordinate in ${frame.name}`
+        : `Mappa non georeferenziata: coordinate in ${frame.name}, con lo 0,0 a longitudine/latitudine 0,0.`;
+    // Features of a category share its style, the others keep the default ones
+    const styleUrl = (categoryId: string | null | undefined, fallback: string) => {
+        const index = categories.findIndex(c => c.id === categoryId);
+        return index < 0 ? `#${fallback}` : `#categoria-${index + 1}`;
+    };
+    const categoryData = (categoryId: string | null | undefined) => {
+        const name = categoryName(categories, categoryId);
+        return name ? `\n        <Data name="category"><value>${escapeXml(name)}</value></Data>` : '';
+    };
+    const categoryStyles = categories.map((c, i) =>
+        `    <Style id="categoria-${i + 1}"><IconStyle><color>${kmlColor(c.color, 'ff')}</color></IconStyle><LineStyle><color>${kmlColor(c.color, 'ff')}</color><width>2</width></LineStyle><PolyStyle><color>${kmlColor(c.color, '33')}</color></PolyStyle></Style>\n`
+    ).join('');
+
+    const pointPlacemarks = points.map(p => `    <Placemark>
+      <name>${escapeXml(p.name)}</name>
+      <styleUrl>${styleUrl(p.categoryId, 'punto')}</styleUrl>
+      <ExtendedData>${categoryData(p.categoryId)}
+        <Data name="x_m"><value>${toLocal(p.realCoords).x.toFixed(3)}</value></Data>
+        <Data name="y_m"><value>${toLocal(p.realCoords).y.toFixed(3)}</value></Data>${typeof p.z === 'number' ? `
+        <Data name="z_m"><value>${p.z.toFixed(3)}</value></Data>` : ''}
+        <Data name="distance_m"><value>${p.distance.toFixed(3)}</value></Data>
+        <Data name="bearing_deg"><value>${p.bearing.toFixed(2)}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${lonLat(p.realCoords)}</coordinates></Point>
+    </Placemark>`);
+
+    const ringCoordinates = (ring: Point[], clockwise = false) =>
+        closedOrientedRing(ring.map(p => [p.realCoords.x, p.realCoords.y]), clockwise).map(([x, y]) => lonLat({ x, y })).join(' ');
+
+    const areaPlacemarks = areas.map((a, index) => {
+        const attributes = Object.entries({ ...areaAttributes(a, frame), ...volumeAttributes(terrain, index) })
+            .map(([key, value]) => `        <Data name="${key}"><value>${Array.isArray(value) ? value.join(' ') : value}</value></Data>`)
+            .join('\n');
+        const innerBoundaries = a.holes
+            .map(hole => `<innerBoundaryIs><LinearRing><coordinates>${ringCoordinates(hole, true)}</coordinates></LinearRing></innerBoundaryIs>`)
+            .join('');
+        return `    <Placemark>
+      <name>${escapeXml(a.name)}</name>
+      <styleUrl>${styleUrl(a.categoryId, 'area')}</styleUrl>
+      <ExtendedData>${categoryData(a.categoryId)}
+${attributes}
+      </ExtendedData>
+      <Polygon><outerBoundaryIs><LinearRing><coordinates>${ringCoordinates(a.points)}</coordinates></LinearRing></outerBoundaryIs>${innerBoundaries}</Polygon>
+    </Placemark>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+    <description>${escapeXml(description)}</description>
+    <Style id="punto"><IconStyle><color>ffff00ff</color></IconStyle></Style>
+    <Style id="area"><LineStyle><color>ffffff00</color><width>2</width></LineStyle><PolyStyle><color>33ffff00</color></PolyStyle></Style>
+${categoryStyles}${[...pointPlacemarks, ...areaPlacemarks].join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+// DXF layer names and AutoCAD colour indexes
+const DXF_LAYERS = [
+    { name: 'PUNTI', color: 6 },
+    { name: 'ETICHETTE', color: 6 },
+    { name: 'AREE', color: 4 },
+    { name: 'CURVE_LIVELLO', color: 32 },
+    { name: 'CURVE_DIRETTRICI', color: 30 },
+];
+
+// Layer name of a category, without the characters DXF does not allow in names
+const dxfLayerName = (name: string) => name.trim().replace(/[<>\/\\":;?*|,=`]/g, '_').toUpperCase() || 'CATEGORIA';
+
+// Builds a minimal ASCII DXF (group code / value pairs) with units in metres. Points and
+// areas of a category go on a layer named after it, in the category colour. Points are at
+// their elevation, contour lines are polylines at theirs, index contours on a layer of their own.
+export const exportDXF = (points: Point[], areas: Area[], categories: Category[], frame: ExportFrame = localFrame, terrain: TerrainExport | null = null, textHeight = 0.5): string => {
+    const out: (string | number)[] = [];
+    const pair = (code: number, value: string | number) => out.push(code, value);
+    const num = (value: number) => value.toFixed(4);
+
+    const categoryLayers = new Map<string, { name: string; color: string }>();
+    categories.forEach(c => {
+        const base = dxfLayerName(c.name);
+        let name = base;
+        for (let n = 2; DXF_LAYERS.some(l => l.name === name) || [...categoryLayers.values()].some(l => l.name === name); n++) name = `${base}_${n}`;
+        categoryLayers.set(c.id, { name, color: c.color });
+    });
+    const layerOf = (categoryId: string | null | undefined, fallback: string) => (categoryId && categoryLayers.get(categoryId)?.name) || fallback;
+
+    pair(0, 'SECTION'); pair(2, 'HEADER');
+    pair(9, '$INSUNITS'); pair(70, 6);
+    pair(0, 'ENDSEC');
+
+    pair(0, 'SECTION'); pair(2, 'TABLES');
+    pair(0, 'TABLE'); pair(2, 'LAYER'); pair(70, DXF_LAYERS.length + categoryLayers.size);
+    DXF_LAYERS.forEach(layer => {
+        pair(0, 'LAYER'); pair(2, layer.name); pair(70, 0); pair(62, layer.color); pair(6, 'CONTINUOUS');
+    });
+    // Colour index 7 (white/black) for readers without true colours (group 420, 0xRRGGBB)
+    categoryLayers.forEach(layer => {
+        pair(0, 'LAYER'); pair(2, layer.name); pair(70, 0); pair(62, 7); pair(420, parseInt(layer.color.slice(1), 16)); pair(6, 'CONTINUOUS');
+    });
+    pair(0, 'ENDTAB');
+    pair(0, 'ENDSEC');
+
+    pair(0, 'SECTION'); pair(2, 'ENTITIES');
+    points.forEach(p => {
+        const [x, y] = frame.toProjected(p.realCoords);
+        pair(0, 'POINT'); pair(8, layerOf(p.categoryId, 'PUNTI'));
+        pair(10, num(x)); pair(20, num(y)); pair(30, num(p.z ?? 0));
+        pair(0, 'TEXT'); pair(8, 'ETICHETTE');
+        pair(10, num(x + textHeight * 0.5)); pair(20, num(y + textHeight * 0.5)); pair(30, num(0));
+        pair(40, num(textHeight)); pair(1, p.name);
+    });
+    areas.forEach(a => {
+        // Outer ring and holes as separate closed polylines on the same layer
+        [a.points, ...a.holes].forEach(ring => {
+            pair(0, 'LWPOLYLINE'); pair(8, layerOf(a.categoryId, 'AREE'));
+            pair(90, ring.length); pair(70, 1); // 1 = closed
+            ring.forEach(p => {
+                const [x, y] = frame.toProjected(p.realCoords);
+                pair(10, num(x)); pair(20, num(y));
+            });
+        });
+        const [cx, cy] = frame.toProjected(computeAreaMetrics(a).centroid);
+        pair(0, 'TEXT'); pair(8, 'ETICHETTE');
+        pair(10, num(cx)); pair(20, num(cy)); pair(30, num(0));
+        pair(40, num(textHeight)); pair(1, `${a.name} ${a.realArea.toFixed(2)} m2`);
+    });
+    terrain?.contours.forEach(line => {
+        pair(0, 'LWPOLYLINE'); pair(8, line.index ? 'CURVE_DIRETTRICI' : 'CURVE_LIVELLO');
+        pair(90, line.coords.length); pair(70, line.closed ? 1 : 0); pair(38, num(line.elevation));
+        line.coords.forEach(c => {
+            const [x, y] = frame.toProjected(c);
+            pair(10, num(x)); pair(20, num(y));
+        });
+    });
+    pair(0, 'ENDSEC');
+    pair(0, 'EOF');
+
+    return out.join('\n') + '\n';
+};
@@ -9,17 +9,98 @@ export interface RealCoords {
 }
 
 export interface Point {
+  // Identifier of a saved point, kept when it is renamed or moved; absent on vertices
+  id?: string;
   name: string;
   pixelCoords: PixelCoords;
   realCoords: RealCoords;
   distance: number;
   bearing: number;
+  // Elevation in metres of a saved point (spot height), absent when it was not surveyed
+  z?: number;
+  // Category of a saved point, null or absent when it has none. Area and measurement
+  // vertices do not have one.
+  categoryId?: string | null;
+  // Attributes, notes and photos of a saved point; absent on vertices and on points
+  // saved before they existed
+  details?: FeatureDetails;
+}
+
+export type AttributeType = 'text' | 'number' | 'date' | 'choice';
+
+// Field of the attribute schema of a project, e.g. "Diametro (cm)", filled in for every point and area
+export interface AttributeField {
+  id: string;
+  name: string;
+  type: AttributeType;
+  // Values offered by a 'choice' field
+  options: string[];
+}
+
+// What the surveyor recorded about a point or area
+export interface FeatureDetails {
+  // Values by field id: numbers for number fields, strings otherwise (dates as 'yyyy-mm-dd').
+  // Empty fields have no entry.
+  attributes: Record<string, string | number>;
+  notes: string;
+  // Photos stored with the project, in the order they were added
+  photoIds: string[];
+}
+
+export type CategorySymbol = 'circle' | 'square' | 'triangle' | 'diamond' | 'cross' | 'star';
+
+// User-defined layer of points and areas, e.g. trees or manholes, shared by every sheet of a project
+export interface Category {
+  id: string;
+  name: string;
+  // '#rrggbb'
+  color: string;
+  // Marker of its points
+  symbol: CategorySymbol;
+  // Names next to points and inside areas, in screen pixels; null hides them
+  labelSize: number | null;
+  visible: boolean;
+  // Locked features cannot be moved, edited or deleted
+  locked: boolean;
+}
+
+export type AreaOperation = 'union' | 'intersection' | 'difference' | 'buffer';
+
+// How an area was computed from other saved areas. The result is a copy: it does not
+// follow later edits of its sources.
+export interface AreaDerivation {
+  operation: AreaOperation;
+  // Names of the source areas at the time of the operation, in order (difference: first minus the others)
+  sources: string[];
+  // Buffer distance in metres, negative inwards
+  distance?: number;
 }
 
 export interface Area {
   name: string;
+  // Outer ring
   points: Point[];
+  // Inner rings excluded from the surface, e.g. a courtyard inside a lot
+  holes: Point[][];
+  // Outer ring surface minus the holes, in m²
   realArea: number;
+  // Null for areas drawn on the map
+  derivation: AreaDerivation | null;
+  categoryId: string | null;
+  details: FeatureDetails;
+}
+
+export type MeasurementKind = 'distance' | 'polyline' | 'angle';
+
+// A saved measurement. Vertices are stored like area vertices; lengths, azimuths and
+// angles are derived from them when shown, so they follow calibration and north changes.
+// - distance: two points
+// - polyline: two or more points
+// - angle: three points, the angle is at the middle one
+export interface Measurement {
+  name: string;
+  kind: MeasurementKind;
+  points: Point[];
 }
 
 export enum AppState {
@@ -31,4 +112,186 @@ export enum AppState {
   NAMING_POINT = 'NAMING_POINT',
   DEFINING_AREA = 'DEFINING_AREA',
   NAMING_AREA = 'NAMING_AREA',
-}
\ No newline at end of file
+  CALIBRATE_MULTI = 'CALIBRATE_MULTI',
+  RECTIFY = 'RECTIFY',
+  MEASURE_DISTANCE = 'MEASURE_DISTANCE',
+  MEASURE_POLYLINE = 'MEASURE_POLYLINE',
+  MEASURE_ANGLE = 'MEASURE_ANGLE',
+  PICK_LINE = 'PICK_LINE',
+}
+
+// Row-major 3x3 matrix. Used for the projective transform from natural image pixels to
+// the metric calibration plane; scale, similarity and affine calibrations are special
+// cases whose last row is [0, 0, 1].
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+// A known reference used to calibrate the image: either a segment of known length
+// or a control point with known coordinates in metres.
+export type CalibrationReference =
+  | { kind: 'segment'; id: string; start: PixelCoords; end: PixelCoords; length: number; enabled: boolean }
+  | { kind: 'control'; id: string; pixel: PixelCoords; real: RealCoords; enabled: boolean };
+
+// Degrees of freedom of the least-squares calibration fit:
+// - scale: uniform scale, image axes kept
+// - similarity: uniform scale and rotation (needs control points for the rotation)
+// - affine: separate X/Y scale, plus rotation and shear with control points
+// - projective: homography from at least four control points, corrects keystone distortion
+export type CalibrationModel = 'scale' | 'similarity' | 'affine' | 'projective';
+
+// Geographic coordinates in degrees on the WGS84 datum
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// Easting/northing in metres in a projected coordinate reference system
+export interface ProjectedCoords {
+  e: number;
+  n: number;
+}
+
+// A known position in the target CRS for a point of the local frame
+export interface GeoControlPoint {
+  // Saved point the control point follows, null when it is not a saved point (the origin)
+  pointId: string | null;
+  name: string;
+  local: RealCoords;
+  projected: ProjectedCoords;
+}
+
+// Places the local metric frame in a real coordinate reference system, either from
+// control points with known coordinates or from the origin plus the north direction.
+// The transform is a similarity: E = a·x − b·y + e0, N = b·x + a·y + n0
+export interface Georeference {
+  crs: string;
+  method: 'control-points' | 'origin-north';
+  controlPoints: GeoControlPoint[];
+  a: number;
+  b: number;
+  e0: number;
+  n0: number;
+}
+
+// Maps natural image pixels to screen pixels inside the map viewport:
+// screen = rotate(image * zoom) + pan, turning clockwise by `rotation` degrees
+export interface ViewTransform {
+  zoom: number;
+  panX: number;
+  panY: number;
+  rotation: number;
+}
+
+// Terrain model of a sheet, triangulated from the saved points that have an elevation
+export interface TerrainSettings {
+  // Points used: 'all', 'none' for the uncategorized ones, or a category id
+  pointFilter: string;
+  // Vertical distance between contour lines, in metres
+  contourInterval: number;
+  showTin: boolean;
+  showContours: boolean;
+  // Elevation in metres the cut and fill volumes of the areas are measured from
+  referenceLevel: number;
+}
+
+// Frame the coordinates are shown, typed and exported in. Stored coordinates (`realCoords`)
+// always follow the image axes from the origin; the other frames are derived from them:
+// - image: X to the right and Y up along the image
+// - north: X to the East and Y to the North set with the compass
+// - grid: a local grid, e.g. aligned to a building, whose Y axis points `rotation` degrees
+//   clockwise from North and where the origin has coordinates (originX, originY)
+export type CoordinateFrame =
+  | { kind: 'image' }
+  | { kind: 'north' }
+  | { kind: 'grid'; rotation: number; originX: number; originY: number };
+
+// Everything needed to restore the mapping work on a project, apart from the image itself
+export interface ProjectData {
+  calibrationPoints: PixelCoords[];
+  knownDistance: number;
+  calibrationReferences: CalibrationReference[];
+  calibrationModel: CalibrationModel;
+  calibration: Matrix3 | null;
+  origin: PixelCoords | null;
+  northRotation: number;
+  georeference: Georeference | null;
+  points: Point[];
+  areas: Area[];
+  measurements: Measurement[];
+  // Null until a terrain model is set up
+  terrain: TerrainSettings | null;
+  coordinateFrame: CoordinateFrame;
+}
+
+// Undo/redo snapshots of the mapping data. The most recent state is last in `past`
+// and first in `future`.
+export interface ProjectHistory {
+  past: ProjectData[];
+  future: ProjectData[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string;
+}
+
+// One drawing of a project, e.g. a page of a multi-page PDF, with its own image,
+// calibration, origin and mapped features
+export interface Sheet {
+  id: string;
+  name: string;
+  // 1-based page of the source PDF the image was rendered from, null for uploaded images
+  pageNumber: number | null;
+  // Image pixels per PDF unit (1/72 inch) the page was rendered at, null for uploaded images
+  renderScale: number | null;
+  data: ProjectData;
+}
+
+export type ReportPageSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0';
+export type ReportOrientation = 'portrait' | 'landscape';
+
+// Layout of the PDF report, saved with the project and reused for every export
+export interface ReportSettings {
+  pageSize: ReportPageSize;
+  orientation: ReportOrientation;
+  // Title block. An empty date prints the day of the export.
+  title: string;
+  author: string;
+  client: string;
+  date: string;
+  // Logo as a data URL
+  logo: string | null;
+  // Denominator of the print scale (200 prints at exactly 1:200), null to fit the map to the page
+  printScale: number | null;
+  scaleBar: boolean;
+  legend: boolean;
+  pointsTable: boolean;
+  areasTable: boolean;
+  measurementsTable: boolean;
+  pageNumbers: boolean;
+}
+
+export interface Project extends ProjectSummary {
+  sheets: Sheet[];
+  // Sheet shown when the project is opened
+  activeSheetId: string;
+  // Null until the report is first configured
+  reportSettings: ReportSettings | null;
+  categories: Category[];
+  attributeFields: AttributeField[];
+  // Image of each sheet, by sheet id
+  images: Record<string, Blob>;
+  sourcePdf?: Blob;
+  // Photos attached to points and areas of every sheet, by photo id
+  photos: Record<string, Blob>;
+}
+
+// A named position typed or imported by the user, in metres in the coordinate frame of the sheet
+export interface CoordinateEntry {
+  name: string;
+  realCoords: RealCoords;
+  // Elevation in metres, when given
+  z?: number;
+}
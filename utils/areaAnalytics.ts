@@ -0,0 +1,180 @@
+import { Area, AreaDerivation, AreaOperation, Point, RealCoords } from '../types';
+import { calculateDistance, calculatePolygonArea } from './geometry';
+
+export interface AreaMetrics {
+    // Outer boundary length; hole boundaries are reported separately
+    perimeter: number;
+    holesPerimeter: number;
+    // Length of each outer side, side i going from vertex i to vertex i + 1
+    sideLengths: number[];
+    holesArea: number;
+    centroid: RealCoords;
+    bounds: { min: RealCoords; max: RealCoords };
+    // Pairs of edges that cross each other, counting outer ring and holes together.
+    // Any crossing makes the area value meaningless.
+    crossings: number;
+}
+
+const ringCoords = (ring: Point[]) => ring.map(p => p.realCoords);
+
+const ringPerimeter = (ring: RealCoords[]) =>
+    ring.reduce((sum, p, i) => sum + calculateDistance(p, ring[(i + 1) % ring.length]), 0);
+
+// Centroid of a simple polygon, weighted by signed area
+const ringCentroid = (ring: RealCoords[]): { centroid: RealCoords; area: number } => {
+    let twiceArea = 0;
+    let cx = 0;
+    let cy = 0;
+    ring.forEach((p, i) => {
+        const q = ring[(i + 1) % ring.length];
+        const cross = p.x * q.y - q.x * p.y;
+        twiceArea += cross;
+        cx += (p.x + q.x) * cross;
+        cy += (p.y + q.y) * cross;
+    });
+    if (twiceArea === 0) {
+        // Degenerate ring: fall back to the vertex average
+        const count = ring.length || 1;
+        return { centroid: { x: ring.reduce((s, p) => s + p.x, 0) / count, y: ring.reduce((s, p) => s + p.y, 0) / count }, area: 0 };
+    }
+    return { centroid: { x: cx / (3 * twiceArea), y: cy / (3 * twiceArea) }, area: Math.abs(twiceArea / 2) };
+};
+
+const orientation = (a: RealCoords, b: RealCoords, c: RealCoords) => Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+
+// Proper crossing or touching of segments a–b and c–d
+const segmentsIntersect = (a: RealCoords, b: RealCoords, c: RealCoords, d: RealCoords) => {
+    const o1 = orientation(a, b, c);
+    const o2 = orientation(a, b, d);
+    const o3 = orientation(c, d, a);
+    const o4 = orientation(c, d, b);
+    if (o1 !== o2 && o3 !== o4) return true;
+    const onSegment = (p: RealCoords, q: RealCoords, r: RealCoords) =>
+        Math.min(p.x, q.x) <= r.x && r.x <= Math.max(p.x, q.x) && Math.min(p.y, q.y) <= r.y && r.y <= Math.max(p.y, q.y);
+    return (o1 === 0 && onSegment(a, b, c)) || (o2 === 0 && onSegment(a, b, d))
+        || (o3 === 0 && onSegment(c, d, a)) || (o4 === 0 && onSegment(c, d, b));
+};
+
+const edges = (ring: RealCoords[]) => ring.map((p, i) => [p, ring[(i + 1) % ring.length]] as const);
+
+// Number of pairs of non-adjacent edges of the ring that cross
+export const countRingCrossings = (ring: RealCoords[]) => {
+    const ringEdges = edges(ring);
+    const n = ringEdges.length;
+    let count = 0;
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            // Adjacent edges share a vertex by construction
+            if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+            if (segmentsIntersect(ringEdges[i][0], ringEdges[i][1], ringEdges[j][0], ringEdges[j][1])) count++;
+        }
+    }
+    return count;
+};
+
+const countCrossingsBetween = (a: RealCoords[], b: RealCoords[]) => {
+    let count = 0;
+    edges(a).forEach(([p, q]) => edges(b).forEach(([r, s]) => {
+        if (segmentsIntersect(p, q, r, s)) count++;
+    }));
+    return count;
+};
+
+// Ray casting
+export const isPointInRing = (point: RealCoords, ring: RealCoords[]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i];
+        const b = ring[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// Surface of the outer ring minus the holes
+export const computeRealArea = (area: Pick<Area, 'points' | 'holes'>) =>
+    calculatePolygonArea(ringCoords(area.points)) - area.holes.reduce((sum, hole) => sum + calculatePolygonArea(ringCoords(hole)), 0);
+
+// Returns the area with `realArea` updated for its current vertices
+export const withRealArea = (area: Area): Area => ({ ...area, realArea: computeRealArea(area) });
+
+export const computeAreaMetrics = (area: Area): AreaMetrics => {
+    const outer = ringCoords(area.points);
+    const holes = area.holes.map(ringCoords);
+
+    const outerCentroid = ringCentroid(outer);
+    const holeCentroids = holes.map(ringCentroid);
+    const holesArea = holeCentroids.reduce((sum, h) => sum + h.area, 0);
+    const netArea = outerCentroid.area - holesArea;
+    const centroid = netArea > 0
+        ? {
+            x: (outerCentroid.centroid.x * outerCentroid.area - holeCentroids.reduce((sum, h) => sum + h.centroid.x * h.area, 0)) / netArea,
+            y: (outerCentroid.centroid.y * outerCentroid.area - holeCentroids.reduce((sum, h) => sum + h.centroid.y * h.area, 0)) / netArea,
+        }
+        : outerCentroid.centroid;
+
+    const rings = [outer, ...holes];
+    let crossings = rings.reduce((sum, ring) => sum + countRingCrossings(ring), 0);
+    for (let i = 0; i < rings.length; i++) {
+        for (let j = i + 1; j < rings.length; j++) crossings += countCrossingsBetween(rings[i], rings[j]);
+    }
+
+    return {
+        perimeter: ringPerimeter(outer),
+        holesPerimeter: holes.reduce((sum, hole) => sum + ringPerimeter(hole), 0),
+        sideLengths: outer.map((p, i) => calculateDistance(p, outer[(i + 1) % outer.length])),
+        holesArea,
+        centroid,
+        bounds: {
+            min: { x: Math.min(...outer.map(p => p.x)), y: Math.min(...outer.map(p => p.y)) },
+            max: { x: Math.max(...outer.map(p => p.x)), y: Math.max(...outer.map(p => p.y)) },
+        },
+        crossings,
+    };
+};
+
+// Checks a newly drawn ring before it is saved. Returns a user-facing message when it is
+// not valid, null otherwise. Holes must lie inside the outer ring without touching it.
+export const validateNewRing = (ring: Point[], outer?: Point[], otherHoles: Point[][] = []): string | null => {
+    const coords = ringCoords(ring);
+    if (countRingCrossings(coords) > 0) return 'I lati si intersecano: ridisegna il poligono senza incroci.';
+    if (!outer) return null;
+    const outerCoords = ringCoords(outer);
+    if (countCrossingsBetween(coords, outerCoords) > 0 || !coords.every(p => isPointInRing(p, outerCoords))) {
+        return "Il foro deve trovarsi interamente all'interno dell'area.";
+    }
+    if (otherHoles.some(hole => countCrossingsBetween(coords, ringCoords(hole)) > 0 || isPointInRing(hole[0].realCoords, coords) || isPointInRing(coords[0], ringCoords(hole)))) {
+        return 'Il foro si sovrappone a un altro foro della stessa area.';
+    }
+    return null;
+};
+
+export const AREA_OPERATION_LABELS: Record<AreaOperation, string> = {
+    union: 'Unione',
+    intersection: 'Intersezione',
+    difference: 'Differenza',
+    buffer: 'Buffer',
+};
+
+const formatSignedDistance = (distance: number) => `${distance > 0 ? '+' : ''}${distance} m`;
+
+// Default name of an area computed from others; kept to characters the PDF fonts can print
+export const derivedAreaName = (derivation: AreaDerivation) => derivation.operation === 'buffer'
+    ? `Buffer ${formatSignedDistance(derivation.distance ?? 0)} (${derivation.sources.join(', ')})`
+    : `${AREA_OPERATION_LABELS[derivation.operation]} (${derivation.sources.join(', ')})`;
+
+// One-line description of where a computed area comes from, for the list and reports
+export const describeDerivation = (derivation: AreaDerivation) => {
+    switch (derivation.operation) {
+        case 'union':
+            return `Unione di ${derivation.sources.join(', ')}`;
+        case 'intersection':
+            return `Intersezione di ${derivation.sources.join(', ')}`;
+        case 'difference':
+            return `${derivation.sources[0]} meno ${derivation.sources.slice(1).join(', ')}`;
+        case 'buffer':
+            return `Buffer ${formatSignedDistance(derivation.distance ?? 0)} da ${derivation.sources.join(', ')}`;
+    }
+};
@@ -0,0 +1,90 @@
+import { AttributeField, AttributeType, FeatureDetails, ProjectData } from '../types';
+import { createId } from './id';
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+    text: 'Testo',
+    number: 'Numero',
+    date: 'Data',
+    choice: 'Scelta',
+};
+
+export const createAttributeField = (existing: AttributeField[]): AttributeField => ({
+    id: createId(),
+    name: `Campo ${existing.length + 1}`,
+    type: 'text',
+    options: [],
+});
+
+export const emptyDetails = (): FeatureDetails => ({ attributes: {}, notes: '', photoIds: [] });
+
+// Details of a point or area; points saved before details existed have none
+export const featureDetails = (feature: { details?: FeatureDetails }): FeatureDetails => feature.details ?? emptyDetails();
+
+// Value of a field as shown in tables and exports, '' when empty
+export const formatAttribute = (field: AttributeField, details: FeatureDetails | undefined): string => {
+    const value = details?.attributes[field.id];
+    if (value === undefined) return '';
+    if (field.type === 'date' && typeof value === 'string') {
+        const [year, month, day] = value.split('-');
+        return day ? `${day}/${month}/${year}` : value;
+    }
+    return String(value);
+};
+
+// Ids of the photos referenced by the points and areas of a sheet
+export const photoIdsOf = (data: ProjectData): string[] =>
+    [...data.points, ...data.areas].flatMap(feature => feature.details?.photoIds ?? []);
+
+// Fields with every invalid entry replaced by its default, for fields read from a file.
+// Entries without an id are dropped since values refer to fields by id.
+export const normalizeAttributeFields = (value: any): AttributeField[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter(f => f && typeof f.id === 'string' && f.id)
+        .map((f, i) => ({
+            id: f.id,
+            name: typeof f.name === 'string' && f.name.trim() ? f.name : `Campo ${i + 1}`,
+            type: f.type in ATTRIBUTE_TYPE_LABELS ? f.type : 'text',
+            options: Array.isArray(f.options) ? f.options.filter((o: unknown) => typeof o === 'string') : [],
+        }));
+};
+
+// Details read from a file, keeping only values of the right type and photos the file contains
+export const normalizeDetails = (value: any, photoIds: Set<string>): FeatureDetails => {
+    if (!value || typeof value !== 'object') return emptyDetails();
+    const attributes = value.attributes && typeof value.attributes === 'object' ? value.attributes : {};
+    return {
+        attributes: Object.fromEntries(Object.entries(attributes).filter(([, v]) => typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v)))) as Record<string, string | number>,
+        notes: typeof value.notes === 'string' ? value.notes : '',
+        photoIds: Array.isArray(value.photoIds) ? value.photoIds.filter((id: unknown) => typeof id === 'string' && photoIds.has(id)) : [],
+    };
+};
+
+// Longest side of stored photos, in pixels: phone photos are reduced to keep projects small
+const PHOTO_MAX_SIZE = 2048;
+
+// Photo taken or chosen by the user, as a JPEG no larger than PHOTO_MAX_SIZE
+export const preparePhoto = (file: File): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+            canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                reject(new Error('Could not get canvas context.'));
+                return;
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Impossibile salvare la foto.")), 'image/jpeg', 0.85);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Il file "${file.name}" non è un'immagine leggibile.`));
+        };
+        img.src = url;
+    });
@@ -0,0 +1,177 @@
+import { CalibrationModel, CalibrationReference, Matrix3, PixelCoords } from '../types';
+import { applyMatrix, invertMatrix, multiplyMatrices, solveLeastSquares } from './linearAlgebra';
+import { calculateDistance } from './geometry';
+import { createId } from './id';
+
+export interface CalibrationFit {
+    // Pixel → metric plane transform
+    matrix: Matrix3;
+    // True when control points fixed the translation, so the plane coordinates are the
+    // surveyed ones and the origin should be placed where they are (0, 0)
+    hasControlPoints: boolean;
+    // Per reference, in the same order: length error (m) for segments, position error (m)
+    // for control points. Disabled references get a residual too, so outliers can be judged.
+    residuals: number[];
+    // Root mean square of the residuals of the enabled references
+    rms: number;
+}
+
+export type CalibrationFitResult = { ok: true; fit: CalibrationFit } | { ok: false; error: string };
+
+// Calibration from a single pair of clicks against a known distance, as in the quick flow
+export const scaleMatrix = (pixelsPerMeter: number): Matrix3 => [
+    1 / pixelsPerMeter, 0, 0,
+    0, -1 / pixelsPerMeter, 0,
+    0, 0, 1,
+];
+
+// Horizontal segment across an image of known scale, so a scale read from a file or typed
+// in becomes a reference of the advanced calibration like a measured one
+export const scaleReference = (pixelsPerMeter: number, width: number, height: number): CalibrationReference => ({
+    kind: 'segment',
+    id: createId(),
+    start: { x: 0, y: height / 2 },
+    end: { x: width, y: height / 2 },
+    length: width / pixelsPerMeter,
+    enabled: true,
+});
+
+// Fits the transform from segments only. Segments carry no position or direction
+// information, so the result has no translation and no rotation.
+const fitSegments = (segments: Extract<CalibrationReference, { kind: 'segment' }>[], model: CalibrationModel): Matrix3 | string => {
+    if (model === 'projective') return 'La correzione prospettica richiede almeno quattro punti di controllo.';
+    if (segments.length === 0) return 'Aggiungi almeno un segmento di lunghezza nota o due punti di controllo.';
+
+    if (model === 'affine') {
+        // length² = sx²·dx² + sy²·dy², linear in (sx², sy²)
+        if (segments.length < 2) return 'La calibrazione affine richiede almeno due segmenti con direzioni diverse.';
+        const A = segments.map(s => [(s.end.x - s.start.x) ** 2, (s.end.y - s.start.y) ** 2]);
+        const b = segments.map(s => s.length ** 2);
+        const solution = solveLeastSquares(A, b);
+        if (!solution || solution[0] <= 0 || solution[1] <= 0) {
+            return 'I segmenti non permettono di stimare scale X/Y separate: usa segmenti orizzontali e verticali.';
+        }
+        const [sx, sy] = solution.map(Math.sqrt);
+        return [sx, 0, 0, 0, -sy, 0, 0, 0, 1];
+    }
+
+    // length = s·pixelLength, closed form of the least-squares solution
+    let numerator = 0;
+    let denominator = 0;
+    segments.forEach(s => {
+        const pixelLength = calculateDistance(s.start, s.end);
+        numerator += s.length * pixelLength;
+        denominator += pixelLength ** 2;
+    });
+    if (denominator === 0) return 'I segmenti di calibrazione hanno lunghezza nulla.';
+    const scale = numerator / denominator;
+    return [scale, 0, 0, 0, -scale, 0, 0, 0, 1];
+};
+
+// Similarity that moves the centroid of the points to (0, 0) and scales their mean
+// distance from it to √2 (Hartley normalisation, keeps the homography fit well conditioned)
+const normalizingMatrix = (points: PixelCoords[]): Matrix3 => {
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const meanDistance = points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / points.length || 1;
+    const s = Math.SQRT2 / meanDistance;
+    return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+};
+
+// Direct linear transform with h₈ = 1, solved by least squares on normalised coordinates:
+// x = (h₀u + h₁v + h₂) / (h₆u + h₇v + 1), y = (h₃u + h₄v + h₅) / (h₆u + h₇v + 1)
+const fitHomography = (controls: Extract<CalibrationReference, { kind: 'control' }>[]): Matrix3 | string => {
+    if (controls.length < 4) return 'La correzione prospettica richiede almeno quattro punti di controllo.';
+    const pixelNorm = normalizingMatrix(controls.map(c => c.pixel));
+    const realNorm = normalizingMatrix(controls.map(c => c.real));
+    const A: number[][] = [];
+    const b: number[] = [];
+    controls.forEach(c => {
+        const { x: u, y: v } = applyMatrix(pixelNorm, c.pixel);
+        const { x, y } = applyMatrix(realNorm, c.real);
+        A.push([u, v, 1, 0, 0, 0, -u * x, -v * x]); b.push(x);
+        A.push([0, 0, 0, u, v, 1, -u * y, -v * y]); b.push(y);
+    });
+    const solution = solveLeastSquares(A, b);
+    const realDenorm = invertMatrix(realNorm);
+    if (!solution || !realDenorm) return 'Tre dei punti di controllo sono allineati: impossibile calcolare la correzione prospettica.';
+    const normalized = [...solution, 1] as Matrix3;
+    const matrix = multiplyMatrices(realDenorm, multiplyMatrices(normalized, pixelNorm));
+    // Scale so that the last element is 1, as for the other models
+    return matrix.map(v => v / matrix[8]) as Matrix3;
+};
+
+// True when the calibration includes a perspective component
+export const isProjective = (matrix: Matrix3) => Math.abs(matrix[6]) > 1e-12 || Math.abs(matrix[7]) > 1e-12;
+
+// Fits the transform from control points (pixel u, v → metres x, y; image rows point down)
+const fitControlPoints = (controls: Extract<CalibrationReference, { kind: 'control' }>[], model: CalibrationModel): Matrix3 | string => {
+    const A: number[][] = [];
+    const b: number[] = [];
+
+    if (model === 'scale') {
+        // x = s·u + tx, y = -s·v + ty
+        if (controls.length < 2) return 'Servono almeno due punti di controllo.';
+        controls.forEach(({ pixel: { x: u, y: v }, real }) => {
+            A.push([u, 1, 0]); b.push(real.x);
+            A.push([-v, 0, 1]); b.push(real.y);
+        });
+        const solution = solveLeastSquares(A, b);
+        if (!solution || solution[0] <= 0) return 'I punti di controllo non definiscono una scala valida.';
+        const [s, tx, ty] = solution;
+        return [s, 0, tx, 0, -s, ty, 0, 0, 1];
+    }
+
+    if (model === 'similarity') {
+        // x = p·u + q·v + tx, y = q·u - p·v + ty (scale and rotation with Y flipped)
+        if (controls.length < 2) return 'Servono almeno due punti di controllo.';
+        controls.forEach(({ pixel: { x: u, y: v }, real }) => {
+            A.push([u, v, 1, 0]); b.push(real.x);
+            A.push([-v, u, 0, 1]); b.push(real.y);
+        });
+        const solution = solveLeastSquares(A, b);
+        if (!solution) return 'I punti di controllo coincidono: impossibile calcolare la trasformazione.';
+        const [p, q, tx, ty] = solution;
+        return [p, q, tx, q, -p, ty, 0, 0, 1];
+    }
+
+    if (model === 'projective') return fitHomography(controls);
+
+    // Affine: x = a·u + b·v + tx, y = c·u + d·v + ty
+    if (controls.length < 3) return 'La calibrazione affine richiede almeno tre punti di controllo.';
+    controls.forEach(({ pixel: { x: u, y: v }, real }) => {
+        A.push([u, v, 1, 0, 0, 0]); b.push(real.x);
+        A.push([0, 0, 0, u, v, 1]); b.push(real.y);
+    });
+    const solution = solveLeastSquares(A, b);
+    if (!solution) return 'I punti di controllo sono allineati: impossibile calcolare una trasformazione affine.';
+    const [a, bb, tx, c, d, ty] = solution;
+    return [a, bb, tx, c, d, ty, 0, 0, 1];
+};
+
+const planeDistance = (matrix: Matrix3, p1: PixelCoords, p2: PixelCoords) =>
+    calculateDistance(applyMatrix(matrix, p1), applyMatrix(matrix, p2));
+
+// Least-squares calibration from the enabled references. When at least two control points
+// are enabled they define the transform; segments are then only checked against it.
+export const fitCalibration = (references: CalibrationReference[], model: CalibrationModel): CalibrationFitResult => {
+    const enabled = references.filter(r => r.enabled);
+    const segments = enabled.filter((r): r is Extract<CalibrationReference, { kind: 'segment' }> => r.kind === 'segment');
+    const controls = enabled.filter((r): r is Extract<CalibrationReference, { kind: 'control' }> => r.kind === 'control');
+    const hasControlPoints = controls.length >= 2;
+
+    const matrix = hasControlPoints ? fitControlPoints(controls, model) : fitSegments(segments, model);
+    if (typeof matrix === 'string') return { ok: false, error: matrix };
+
+    const residuals = references.map(r => r.kind === 'segment'
+        ? planeDistance(matrix, r.start, r.end) - r.length
+        // Without control points in the fit the translation is arbitrary, so only positions relative to each other matter
+        : hasControlPoints ? calculateDistance(applyMatrix(matrix, r.pixel), r.real) : NaN);
+
+    const used = references
+        .map((r, i) => ({ r, residual: residuals[i] }))
+        .filter(({ r, residual }) => r.enabled && Number.isFinite(residual));
+    const rms = used.length > 0 ? Math.sqrt(used.reduce((sum, { residual }) => sum + residual ** 2, 0) / used.length) : 0;
+
+    return { ok: true, fit: { matrix, hasControlPoints, residuals, rms } };
+};
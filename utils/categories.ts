@@ -0,0 +1,59 @@
+import { Category, CategorySymbol } from '../types';
+import { createId } from './id';
+
+export const CATEGORY_SYMBOL_LABELS: Record<CategorySymbol, string> = {
+    circle: 'Cerchio',
+    square: 'Quadrato',
+    triangle: 'Triangolo',
+    diamond: 'Rombo',
+    cross: 'Croce',
+    star: 'Stella',
+};
+
+export const LABEL_SIZES = [
+    { label: 'Piccole', value: 10 },
+    { label: 'Normali', value: 12 },
+    { label: 'Grandi', value: 16 },
+];
+
+// Colours proposed for new categories, in turn
+const CATEGORY_PALETTE = ['#22C55E', '#3B82F6', '#EF4444', '#F59E0B', '#A855F7', '#14B8A6', '#EC4899', '#84CC16'];
+
+export const createCategory = (existing: Category[]): Category => ({
+    id: createId(),
+    name: `Categoria ${existing.length + 1}`,
+    color: CATEGORY_PALETTE[existing.length % CATEGORY_PALETTE.length],
+    symbol: 'circle',
+    labelSize: 12,
+    visible: true,
+    locked: false,
+});
+
+// Category of a feature; features whose category was deleted count as uncategorized
+export const findCategory = (categories: Category[], id: string | null | undefined): Category | null =>
+    id ? categories.find(c => c.id === id) ?? null : null;
+
+export const categoryName = (categories: Category[], id: string | null | undefined) => findCategory(categories, id)?.name ?? '';
+
+// CSS colour of a '#rrggbb' colour at the given opacity
+export const withAlpha = (color: string, alpha: number) => {
+    const value = parseInt(color.slice(1), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+// Categories with every invalid field replaced by its default, for categories read from a file.
+// Entries without an id are dropped since features refer to categories by id.
+export const normalizeCategories = (value: any): Category[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter(c => c && typeof c.id === 'string' && c.id)
+        .map((c, i) => ({
+            id: c.id,
+            name: typeof c.name === 'string' && c.name.trim() ? c.name : `Categoria ${i + 1}`,
+            color: typeof c.color === 'string' && /^#[0-9a-f]{6}$/i.test(c.color) ? c.color : CATEGORY_PALETTE[i % CATEGORY_PALETTE.length],
+            symbol: c.symbol in CATEGORY_SYMBOL_LABELS ? c.symbol : 'circle',
+            labelSize: c.labelSize === null || (typeof c.labelSize === 'number' && c.labelSize > 0) ? c.labelSize : 12,
+            visible: typeof c.visible === 'boolean' ? c.visible : true,
+            locked: typeof c.locked === 'boolean' ? c.locked : false,
+        }));
+};
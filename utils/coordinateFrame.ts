@@ -0,0 +1,80 @@
+import { CoordinateFrame, PixelCoords, RealCoords, Matrix3 } from '../types';
+import { normalizeDegrees, pixelToReal } from './geometry';
+
+export const COORDINATE_FRAME_LABELS: Record<CoordinateFrame['kind'], string> = {
+    image: 'Immagine',
+    north: 'Nord',
+    grid: 'Griglia locale',
+};
+
+export const defaultCoordinateFrame = (): CoordinateFrame => ({ kind: 'image' });
+
+// Frame read from a file, falling back to the image frame
+export const normalizeCoordinateFrame = (value: any): CoordinateFrame => {
+    if (!value || typeof value !== 'object') return defaultCoordinateFrame();
+    const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+    if (value.kind === 'north') return { kind: 'north' };
+    if (value.kind === 'grid') {
+        return {
+            kind: 'grid',
+            rotation: isNumber(value.rotation) ? normalizeDegrees(value.rotation) : 0,
+            originX: isNumber(value.originX) ? value.originX : 0,
+            originY: isNumber(value.originY) ? value.originY : 0,
+        };
+    }
+    return defaultCoordinateFrame();
+};
+
+// Clockwise angle in degrees from the image +Y axis to the Y axis of the frame
+export const frameRotation = (frame: CoordinateFrame, northRotation: number) =>
+    frame.kind === 'image' ? 0 : frame.kind === 'north' ? northRotation : northRotation + frame.rotation;
+
+export interface FrameTransform {
+    // Metres along the image axes from the origin to coordinates in the frame
+    toFrame: (real: RealCoords) => RealCoords;
+    // Inverse of toFrame
+    fromFrame: (coords: RealCoords) => RealCoords;
+}
+
+export const frameTransform = (frame: CoordinateFrame, northRotation: number): FrameTransform => {
+    const angle = frameRotation(frame, northRotation) * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const offset = frame.kind === 'grid' ? { x: frame.originX, y: frame.originY } : { x: 0, y: 0 };
+    return {
+        toFrame: ({ x, y }) => ({ x: x * cos - y * sin + offset.x, y: x * sin + y * cos + offset.y }),
+        fromFrame: (coords) => {
+            const x = coords.x - offset.x;
+            const y = coords.y - offset.y;
+            return { x: x * cos + y * sin, y: y * cos - x * sin };
+        },
+    };
+};
+
+// Bounding box of positions in the frame of `toFrame`: in a rotated frame it is not the
+// rotated bounding box of the image frame
+export const boundsInFrame = (coords: RealCoords[], toFrame: (real: RealCoords) => RealCoords) => {
+    const local = coords.map(toFrame);
+    return {
+        min: { x: Math.min(...local.map(c => c.x)), y: Math.min(...local.map(c => c.y)) },
+        max: { x: Math.max(...local.map(c => c.x)), y: Math.max(...local.map(c => c.y)) },
+    };
+};
+
+// Name of the frame written in the metadata of the exports of a map without georeferencing
+export const frameDescription = (frame: CoordinateFrame) => {
+    switch (frame.kind) {
+        case 'image': return 'Sistema locale (metri dal punto di riferimento)';
+        case 'north': return 'Sistema locale orientato al Nord (metri dal punto di riferimento)';
+        case 'grid': return `Griglia locale (asse Y a ${Number(frame.rotation.toFixed(4))}° dal Nord, punto di riferimento in ${frame.originX}, ${frame.originY} m)`;
+    }
+};
+
+// Azimuth of the line from a to b in degrees clockwise from the image +Y axis, or null when
+// the two clicks are the same position
+export const lineAzimuth = (a: PixelCoords, b: PixelCoords, origin: PixelCoords, calibration: Matrix3): number | null => {
+    const from = pixelToReal(a, origin, calibration);
+    const to = pixelToReal(b, origin, calibration);
+    if (Math.hypot(to.x - from.x, to.y - from.y) < 1e-9) return null;
+    return normalizeDegrees(Math.atan2(to.x - from.x, to.y - from.y) * 180 / Math.PI);
+};
@@ -0,0 +1,83 @@
+// Helpers for reading coordinate lists exported from spreadsheets
+
+export type Delimiter = ',' | ';' | '\t';
+
+// Picks the delimiter that splits the first lines into the most consistent number of columns.
+// Italian spreadsheets use ';' because ',' is the decimal separator.
+export const detectDelimiter = (text: string): Delimiter => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+    const candidates: Delimiter[] = ['\t', ';', ','];
+    let best: Delimiter = ',';
+    let bestScore = -1;
+    for (const delimiter of candidates) {
+        const counts = lines.map(line => parseDelimited(line, delimiter)[0]?.length ?? 0);
+        if (counts.length === 0 || counts[0] < 2) continue;
+        const consistent = counts.filter(c => c === counts[0]).length;
+        const score = consistent * 100 + counts[0];
+        if (score > bestScore) {
+            best = delimiter;
+            bestScore = score;
+        }
+    }
+    return best;
+};
+
+// Splits delimited text into rows of fields, honouring double-quoted fields
+export const parseDelimited = (text: string, delimiter: Delimiter): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+// Parses numbers written with either a decimal comma or a decimal point, with optional
+// thousands separators ("1.234,56", "1,234.56", "12,5", "-3.25"). Returns null when invalid.
+export const parseLocaleNumber = (value: string): number | null => {
+    let text = value.trim().replace(/\s/g, '');
+    if (!text) return null;
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma > -1 && lastDot > -1) {
+        // The separator that appears last is the decimal one
+        text = lastComma > lastDot
+            ? text.replace(/\./g, '').replace(',', '.')
+            : text.replace(/,/g, '');
+    } else if (lastComma > -1) {
+        text = text.replace(',', '.');
+    }
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) return null;
+    const number = Number(text);
+    return Number.isFinite(number) ? number : null;
+};
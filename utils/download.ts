@@ -0,0 +1,15 @@
+// Triggers a browser download of the given content
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, filename: string, mimeType: string) => {
+    downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+};
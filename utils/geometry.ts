@@ -0,0 +1,162 @@
+import { PixelCoords, RealCoords, Matrix3 } from '../types';
+import { applyMatrix, invertMatrix } from './linearAlgebra';
+
+export const normalizeDegrees = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+export const calculateDistance = (p1: PixelCoords, p2: PixelCoords) => {
+    return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+};
+
+// Point of segment a–b nearest to p
+export const closestPointOnSegment = (p: PixelCoords, a: PixelCoords, b: PixelCoords): PixelCoords => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return { ...a };
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+// Converts natural image pixels to metres from the origin (Y axis pointing up), through
+// the calibration transform from pixels to the metric plane
+export const pixelToReal = (pixel: PixelCoords, origin: PixelCoords, calibration: Matrix3): RealCoords => {
+    const p = applyMatrix(calibration, pixel);
+    const o = applyMatrix(calibration, origin);
+    return {
+        x: p.x - o.x,
+        y: p.y - o.y,
+    };
+};
+
+// Inverse of pixelToReal: places metres from the origin on the image
+export const realToPixel = (real: RealCoords, origin: PixelCoords, calibration: Matrix3): PixelCoords | null => {
+    const inverse = invertMatrix(calibration);
+    if (!inverse) return null;
+    const o = applyMatrix(calibration, origin);
+    return applyMatrix(inverse, { x: real.x + o.x, y: real.y + o.y });
+};
+
+// Image pixels per metre around the given pixel. Constant for scale, similarity and affine
+// calibrations (geometric mean of the axis scales), varies across the image for projective ones.
+export const localPixelsPerMeter = (calibration: Matrix3, at: PixelCoords): number => {
+    const step = 1;
+    const p = applyMatrix(calibration, at);
+    const px = applyMatrix(calibration, { x: at.x + step, y: at.y });
+    const py = applyMatrix(calibration, { x: at.x, y: at.y + step });
+    const det = (px.x - p.x) * (py.y - p.y) - (px.y - p.y) * (py.x - p.x);
+    return det === 0 ? 0 : step / Math.sqrt(Math.abs(det));
+};
+
+export const calculateDistanceAndBearing = (realCoords: RealCoords, rotation: number) => {
+    const distance = Math.sqrt(realCoords.x ** 2 + realCoords.y ** 2);
+
+    // Calculate bearing in degrees from North (positive Y axis)
+    const angleRad = Math.atan2(realCoords.x, realCoords.y);
+    const angleDeg = angleRad * (180 / Math.PI);
+
+    // Adjust for compass rotation and normalize to 0-360
+    const bearing = normalizeDegrees(angleDeg - rotation);
+
+    return { distance, bearing };
+};
+
+// Inverse of calculateDistanceAndBearing: a distance and azimuth from the origin to coordinates
+export const polarToReal = (distance: number, bearing: number, rotation: number): RealCoords => {
+    const angleRad = (bearing + rotation) * (Math.PI / 180);
+    return {
+        x: distance * Math.sin(angleRad),
+        y: distance * Math.cos(angleRad),
+    };
+};
+
+// Shoelace formula
+export const calculatePolygonArea = (coords: RealCoords[]): number => {
+    let area = 0;
+    const n = coords.length;
+    if (n < 3) return 0;
+    for (let i = 0; i < n; i++) {
+        const j = (i + 1) % n;
+        area += coords[i].x * coords[j].y;
+        area -= coords[j].x * coords[i].y;
+    }
+    return Math.abs(area / 2);
+};
+
+// Liang–Barsky clipping of a segment to the rectangle [0, width] × [0, height].
+// Keeps the direction of the segment; returns null when it lies entirely outside.
+export const clipSegmentToRect = (a: PixelCoords, b: PixelCoords, width: number, height: number): [PixelCoords, PixelCoords] | null => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    let t0 = 0;
+    let t1 = 1;
+    const edges: [number, number][] = [[-dx, a.x], [dx, width - a.x], [-dy, a.y], [dy, height - a.y]];
+    for (const [p, q] of edges) {
+        if (p === 0) {
+            if (q < 0) return null;
+            continue;
+        }
+        const t = q / p;
+        if (p < 0) t0 = Math.max(t0, t);
+        else t1 = Math.min(t1, t);
+        if (t0 > t1) return null;
+    }
+    return [{ x: a.x + t0 * dx, y: a.y + t0 * dy }, { x: a.x + t1 * dx, y: a.y + t1 * dy }];
+};
+
+export interface AxisGeometry {
+    // Axis segments clipped to the image, ordered from the negative to the positive end
+    xAxis: [PixelCoords, PixelCoords];
+    yAxis: [PixelCoords, PixelCoords];
+    xTicks: PixelCoords[];
+    yTicks: PixelCoords[];
+}
+
+// Computes the X/Y axes of the metric frame through the origin, as image pixel segments
+// covering the image, with a tick every `interval` metres. Works for rotated, affine and
+// projective calibrations because straight lines stay straight under all of them.
+// `rotation` turns the axes clockwise, so that Y follows North or a local grid.
+export const computeAxes = (
+    origin: PixelCoords,
+    calibration: Matrix3,
+    width: number,
+    height: number,
+    interval: number,
+    rotation = 0
+): AxisGeometry | null => {
+    const angle = rotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const toAxes = ({ x, y }: RealCoords): RealCoords => ({ x: x * cos - y * sin, y: x * sin + y * cos });
+    const fromAxes = ({ x, y }: RealCoords): RealCoords => ({ x: x * cos + y * sin, y: y * cos - x * sin });
+    const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: 0, y: height }, { x: width, y: height }]
+        .map(c => toAxes(pixelToReal(c, origin, calibration)));
+    const min = { x: Math.min(...corners.map(c => c.x)), y: Math.min(...corners.map(c => c.y)) };
+    const max = { x: Math.max(...corners.map(c => c.x)), y: Math.max(...corners.map(c => c.y)) };
+    const isInside = (p: PixelCoords | null): p is PixelCoords => !!p && p.x >= 0 && p.y >= 0 && p.x <= width && p.y <= height;
+
+    const toPixel = (coords: RealCoords) => realToPixel(fromAxes(coords), origin, calibration);
+    const xStart = toPixel({ x: min.x, y: 0 });
+    const xEnd = toPixel({ x: max.x, y: 0 });
+    const yStart = toPixel({ x: 0, y: min.y });
+    const yEnd = toPixel({ x: 0, y: max.y });
+    if (!xStart || !xEnd || !yStart || !yEnd) return null;
+    const xAxis = clipSegmentToRect(xStart, xEnd, width, height);
+    const yAxis = clipSegmentToRect(yStart, yEnd, width, height);
+    if (!xAxis || !yAxis) return null;
+
+    const ticks = (axis: 'x' | 'y') => {
+        const result: PixelCoords[] = [];
+        const from = Math.ceil(min[axis] / interval);
+        const to = Math.floor(max[axis] / interval);
+        // Guard against absurd tick counts on very small scales
+        if (to - from > 2000) return result;
+        for (let k = from; k <= to; k++) {
+            if (k === 0) continue;
+            const p = toPixel(axis === 'x' ? { x: k * interval, y: 0 } : { x: 0, y: k * interval });
+            if (isInside(p)) result.push(p);
+        }
+        return result;
+    };
+
+    return { xAxis, yAxis, xTicks: ticks('x'), yTicks: ticks('y') };
+};
@@ -0,0 +1,105 @@
+import { GeoControlPoint, Georeference, LatLon, ProjectedCoords, RealCoords } from '../types';
+import { CrsDefinition, getCrs, gridParameters, projectedToWgs84, wgs84ToProjected } from './projection';
+
+export interface GeoreferenceFit {
+    georeference: Georeference;
+    // Position error (m) of each control point, in the same order
+    residuals: number[];
+    rms: number;
+    // Scale of the local frame in the CRS; far from 1 it hints at a wrong calibration or CRS
+    scale: number;
+}
+
+export type GeoreferenceFitResult = { ok: true; fit: GeoreferenceFit } | { ok: false; error: string };
+
+export const localToProjected = (georeference: Georeference, { x, y }: RealCoords): ProjectedCoords => ({
+    e: georeference.a * x - georeference.b * y + georeference.e0,
+    n: georeference.b * x + georeference.a * y + georeference.n0,
+});
+
+export const projectedToLocal = (georeference: Georeference, { e, n }: ProjectedCoords): RealCoords => {
+    const { a, b } = georeference;
+    const det = a * a + b * b;
+    const de = e - georeference.e0;
+    const dn = n - georeference.n0;
+    return { x: (a * de + b * dn) / det, y: (a * dn - b * de) / det };
+};
+
+export const localToWgs84 = (georeference: Georeference, coords: RealCoords): LatLon | null => {
+    const crs = getCrs(georeference.crs);
+    return crs ? projectedToWgs84(localToProjected(georeference, coords), crs) : null;
+};
+
+export const wgs84ToLocal = (georeference: Georeference, coords: LatLon): RealCoords | null => {
+    const crs = getCrs(georeference.crs);
+    return crs ? projectedToLocal(georeference, wgs84ToProjected(coords, crs)) : null;
+};
+
+// Ground metres per metre of the local frame
+export const georeferenceScale = (georeference: Georeference) => Math.hypot(georeference.a, georeference.b);
+
+// Least-squares similarity from the local frame to the CRS (closed form on centred coordinates)
+export const fitGeoreference = (crs: CrsDefinition, controlPoints: GeoControlPoint[]): GeoreferenceFitResult => {
+    if (controlPoints.length < 2) return { ok: false, error: 'Servono almeno due punti con coordinate note.' };
+
+    const count = controlPoints.length;
+    const cx = controlPoints.reduce((sum, c) => sum + c.local.x, 0) / count;
+    const cy = controlPoints.reduce((sum, c) => sum + c.local.y, 0) / count;
+    const ce = controlPoints.reduce((sum, c) => sum + c.projected.e, 0) / count;
+    const cn = controlPoints.reduce((sum, c) => sum + c.projected.n, 0) / count;
+
+    let sumA = 0;
+    let sumB = 0;
+    let norm = 0;
+    controlPoints.forEach(c => {
+        const x = c.local.x - cx;
+        const y = c.local.y - cy;
+        const e = c.projected.e - ce;
+        const n = c.projected.n - cn;
+        sumA += x * e + y * n;
+        sumB += x * n - y * e;
+        norm += x * x + y * y;
+    });
+    if (norm === 0) return { ok: false, error: 'I punti scelti coincidono: impossibile calcolare la georeferenziazione.' };
+
+    const a = sumA / norm;
+    const b = sumB / norm;
+    const georeference: Georeference = {
+        crs: crs.code,
+        method: 'control-points',
+        controlPoints,
+        a,
+        b,
+        e0: ce - a * cx + b * cy,
+        n0: cn - b * cx - a * cy,
+    };
+
+    const residuals = controlPoints.map(c => {
+        const p = localToProjected(georeference, c.local);
+        return Math.hypot(p.e - c.projected.e, p.n - c.projected.n);
+    });
+    const rms = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / count);
+    return { ok: true, fit: { georeference, residuals, rms, scale: georeferenceScale(georeference) } };
+};
+
+// Georeference from the projected coordinates of the origin and the north direction set
+// with the compass. The compass gives true north, so the grid convergence and the point
+// scale factor of the projection at the origin are applied too.
+export const georeferenceFromOrigin = (crs: CrsDefinition, origin: ProjectedCoords, northRotation: number): Georeference => {
+    const { convergence, scaleFactor } = gridParameters(projectedToWgs84(origin, crs), crs);
+    // Grid bearing = local angle from +Y − north rotation + convergence
+    const theta = (convergence - northRotation) * Math.PI / 180;
+    return {
+        crs: crs.code,
+        method: 'origin-north',
+        controlPoints: [{ pointId: null, name: 'Origine', local: { x: 0, y: 0 }, projected: origin }],
+        a: scaleFactor * Math.cos(theta),
+        b: -scaleFactor * Math.sin(theta),
+        e0: origin.e,
+        n0: origin.n,
+    };
+};
+
+export const formatProjected = ({ e, n }: ProjectedCoords) => `E ${e.toFixed(2)}, N ${n.toFixed(2)}`;
+
+export const formatLatLon = (coords: LatLon | null) => coords ? `${coords.lat.toFixed(7)}°, ${coords.lon.toFixed(7)}°` : '–';
@@ -0,0 +1,31 @@
+import { ProjectData, ProjectHistory } from '../types';
+
+// Older snapshots are dropped beyond this many undo steps
+export const HISTORY_LIMIT = 100;
+
+export const emptyHistory = (): ProjectHistory => ({ past: [], future: [] });
+
+// Records the state before a change. A new change makes the redo steps meaningless.
+export const pushHistory = (history: ProjectHistory, previous: ProjectData): ProjectHistory => ({
+    past: [...history.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+});
+
+// Returns the state to restore and the updated history, or null when there is nothing to undo
+export const undoHistory = (history: ProjectHistory, current: ProjectData): { history: ProjectHistory; snapshot: ProjectData } | null => {
+    if (history.past.length === 0) return null;
+    return {
+        snapshot: history.past[history.past.length - 1],
+        history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    };
+};
+
+export const redoHistory = (history: ProjectHistory, current: ProjectData): { history: ProjectHistory; snapshot: ProjectData } | null => {
+    if (history.future.length === 0) return null;
+    return {
+        snapshot: history.future[0],
+        history: { past: [...history.past, current].slice(-HISTORY_LIMIT), future: history.future.slice(1) },
+    };
+};
+
+export const isSameProjectData = (a: ProjectData, b: ProjectData) => JSON.stringify(a) === JSON.stringify(b);
@@ -0,0 +1,5 @@
+// Unique identifier for projects, calibration references and other stored records
+export const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,76 @@
+import { PixelCoords, Matrix3 } from '../types';
+
+// Solves A·x = b by Gaussian elimination with partial pivoting. Returns null when singular.
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+    const n = b.length;
+    const m = A.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+};
+
+// Least-squares solution of an overdetermined system through the normal equations (AᵀA)·x = Aᵀb
+export const solveLeastSquares = (A: number[][], b: number[]): number[] | null => {
+    if (A.length === 0) return null;
+    const n = A[0].length;
+    const AtA = Array.from({ length: n }, () => new Array(n).fill(0));
+    const Atb = new Array(n).fill(0);
+    A.forEach((row, r) => {
+        for (let i = 0; i < n; i++) {
+            Atb[i] += row[i] * b[r];
+            for (let j = 0; j < n; j++) AtA[i][j] += row[i] * row[j];
+        }
+    });
+    return solveLinearSystem(AtA, Atb);
+};
+
+export const identityMatrix = (): Matrix3 => [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Applies a projective 3x3 matrix (row-major) to a 2D point
+export const applyMatrix = (m: Matrix3, p: PixelCoords): PixelCoords => {
+    const w = m[6] * p.x + m[7] * p.y + m[8];
+    return {
+        x: (m[0] * p.x + m[1] * p.y + m[2]) / w,
+        y: (m[3] * p.x + m[4] * p.y + m[5]) / w,
+    };
+};
+
+export const multiplyMatrices = (a: Matrix3, b: Matrix3): Matrix3 => {
+    const r = new Array(9).fill(0);
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            for (let k = 0; k < 3; k++) r[i * 3 + j] += a[i * 3 + k] * b[k * 3 + j];
+        }
+    }
+    return r as Matrix3;
+};
+
+export const invertMatrix = (m: Matrix3): Matrix3 | null => {
+    const [a, b, c, d, e, f, g, h, i] = m;
+    const A = e * i - f * h;
+    const B = -(d * i - f * g);
+    const C = d * h - e * g;
+    const det = a * A + b * B + c * C;
+    if (Math.abs(det) < 1e-18) return null;
+    return [
+        A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+        B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+        C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+    ];
+};
@@ -0,0 +1,75 @@
+import { Measurement, MeasurementKind, PixelCoords, RealCoords } from '../types';
+import { calculateDistance, normalizeDegrees } from './geometry';
+
+// Vertices needed to complete each kind of measurement; polylines are closed by the user
+export const REQUIRED_VERTICES: Record<MeasurementKind, number | null> = {
+    distance: 2,
+    polyline: null,
+    angle: 3,
+};
+
+export const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+    distance: 'Distanza',
+    polyline: 'Polilinea',
+    angle: 'Angolo',
+};
+
+export const segmentLengths = (vertices: RealCoords[]) =>
+    vertices.slice(1).map((v, i) => calculateDistance(vertices[i], v));
+
+export const polylineLength = (vertices: RealCoords[]) =>
+    segmentLengths(vertices).reduce((sum, length) => sum + length, 0);
+
+// Azimuth from `from` to `to`, in degrees clockwise from the north set with the compass
+export const azimuth = (from: RealCoords, to: RealCoords, northRotation: number) =>
+    normalizeDegrees(Math.atan2(to.x - from.x, to.y - from.y) * 180 / Math.PI - northRotation);
+
+// Angle at `vertex` between the directions to `a` and `b`, in degrees (0–180).
+// Computed on metric coordinates so it stays correct with affine or perspective calibrations.
+export const angleAtVertex = (a: RealCoords, vertex: RealCoords, b: RealCoords) => {
+    const ax = a.x - vertex.x;
+    const ay = a.y - vertex.y;
+    const bx = b.x - vertex.x;
+    const by = b.y - vertex.y;
+    return Math.abs(Math.atan2(ax * by - ay * bx, ax * bx + ay * by)) * 180 / Math.PI;
+};
+
+// One-line description of the measured values, used in the list, on the map and in reports
+export const summarizeMeasurement = (measurement: Measurement, northRotation: number) => {
+    const vertices = measurement.points.map(p => p.realCoords);
+    switch (measurement.kind) {
+        case 'distance':
+            return `${polylineLength(vertices).toFixed(2)} m · Az ${azimuth(vertices[0], vertices[1], northRotation).toFixed(2)}°`;
+        case 'polyline':
+            return `${polylineLength(vertices).toFixed(2)} m`;
+        case 'angle':
+            return `${angleAtVertex(vertices[0], vertices[1], vertices[2]).toFixed(2)}°`;
+    }
+};
+
+// Where the value label is drawn on the map: the middle of a distance, the end of a
+// polyline, the vertex of an angle
+export const measurementLabelAnchor = (measurement: Measurement): PixelCoords => {
+    const pixels = measurement.points.map(p => p.pixelCoords);
+    if (measurement.kind === 'distance') {
+        return { x: (pixels[0].x + pixels[1].x) / 2, y: (pixels[0].y + pixels[1].y) / 2 };
+    }
+    return measurement.kind === 'angle' ? pixels[1] : pixels[pixels.length - 1];
+};
+
+// Arc between the two arms of an angle, in pixel space, as start/end points and sweep flag for drawing
+export const angleArc = (measurement: Measurement, radius: number) => {
+    const [a, vertex, b] = measurement.points.map(p => p.pixelCoords);
+    const startAngle = Math.atan2(a.y - vertex.y, a.x - vertex.x);
+    let sweep = Math.atan2(b.y - vertex.y, b.x - vertex.x) - startAngle;
+    // Take the short way round so the arc marks the measured (≤ 180°) angle
+    if (sweep > Math.PI) sweep -= 2 * Math.PI;
+    if (sweep < -Math.PI) sweep += 2 * Math.PI;
+    return {
+        start: { x: vertex.x + radius * Math.cos(startAngle), y: vertex.y + radius * Math.sin(startAngle) },
+        end: { x: vertex.x + radius * Math.cos(startAngle + sweep), y: vertex.y + radius * Math.sin(startAngle + sweep) },
+        startAngle,
+        endAngle: startAngle + sweep,
+        clockwise: sweep > 0,
+    };
+};
@@ -0,0 +1,153 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { PixelCoords } from '../types';
+
+// Rendering of PDF pages to images with PDF.js, bundled with its worker so it works offline.
+// PDF units are 1/72 inch, so a render scale of s gives s × 72 dots per inch.
+
+export interface PdfResolution {
+    dpi: number;
+    label: string;
+}
+
+export const PDF_RESOLUTIONS: PdfResolution[] = [
+    { dpi: 100, label: 'Bassa (100 dpi)' },
+    { dpi: 180, label: 'Media (180 dpi)' },
+    { dpi: 300, label: 'Alta (300 dpi)' },
+    { dpi: 450, label: 'Molto alta (450 dpi)' },
+];
+
+export const DEFAULT_PDF_DPI = 180;
+
+export const dpiToScale = (dpi: number) => dpi / 72;
+export const scaleToDpi = (scale: number) => Math.round(scale * 72);
+
+// Browsers refuse to allocate larger canvases; big sheets are rendered at a lower scale
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_PIXELS = 2 ** 26;
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const loadPdfDocument = async (source: Blob | ArrayBuffer): Promise<PDFDocumentProxy> => {
+    const data = source instanceof Blob ? await source.arrayBuffer() : source;
+    return pdfjsLib.getDocument({ data }).promise;
+};
+
+// Largest scale not above `scale` whose canvas the browser can allocate for the page
+export const fitRenderScale = (page: PDFPageProxy, scale: number) => {
+    const { width, height } = page.getViewport({ scale: 1 });
+    return Math.min(scale, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+};
+
+const renderToCanvas = async (page: PDFPageProxy, scale: number) => {
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Could not get canvas context.");
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas;
+};
+
+// Renders a page (1-based) as a PNG data URL. The scale actually used may be lower than
+// the requested one for very large pages.
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, scale: number): Promise<{ dataUrl: string; scale: number; width: number; height: number }> => {
+    const page = await pdf.getPage(pageNumber);
+    const usedScale = fitRenderScale(page, scale);
+    const canvas = await renderToCanvas(page, usedScale);
+    return { dataUrl: canvas.toDataURL('image/png'), scale: usedScale, width: canvas.width, height: canvas.height };
+};
+
+// Small JPEG preview of a page, fitting in a `maxSize` square
+export const renderPdfThumbnail = async (pdf: PDFDocumentProxy, pageNumber: number, maxSize = 160): Promise<string> => {
+    const page = await pdf.getPage(pageNumber);
+    const { width, height } = page.getViewport({ scale: 1 });
+    const canvas = await renderToCanvas(page, maxSize / Math.max(width, height));
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+type Transform = [number, number, number, number, number, number];
+
+const multiplyTransforms = (m: Transform, n: Transform): Transform => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+// Vertices closer than this, in image pixels, are merged
+const VERTEX_PRECISION = 0.5;
+// Drawings with more vertices than this are cut short to keep snapping responsive
+const MAX_VERTICES = 500000;
+
+// End points of the lines, curves and rectangles drawn on a page, in the pixels of the page
+// rendered at `scale`. Read from the PDF.js operator list, following the current
+// transformation matrix through save/restore and form XObjects.
+export const extractPageVertices = async (pdf: PDFDocumentProxy, pageNumber: number, scale: number): Promise<PixelCoords[]> => {
+    const { OPS } = pdfjsLib;
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const { fnArray, argsArray } = await page.getOperatorList();
+
+    const vertices = new Map<string, PixelCoords>();
+    const addVertex = (ctm: Transform, x: number, y: number) => {
+        const px = ctm[0] * x + ctm[2] * y + ctm[4];
+        const py = ctm[1] * x + ctm[3] * y + ctm[5];
+        if (!Number.isFinite(px) || !Number.isFinite(py)) return;
+        const key = `${Math.round(px / VERTEX_PRECISION)},${Math.round(py / VERTEX_PRECISION)}`;
+        if (!vertices.has(key)) vertices.set(key, { x: px, y: py });
+    };
+
+    let ctm = viewport.transform as Transform;
+    const stack: Transform[] = [];
+    for (let i = 0; i < fnArray.length && vertices.size < MAX_VERTICES; i++) {
+        const args = argsArray[i];
+        switch (fnArray[i]) {
+            case OPS.save:
+                stack.push(ctm);
+                break;
+            case OPS.restore:
+                ctm = stack.pop() ?? ctm;
+                break;
+            case OPS.transform:
+                ctm = multiplyTransforms(ctm, args as Transform);
+                break;
+            case OPS.paintFormXObjectBegin:
+                stack.push(ctm);
+                if (Array.isArray(args[0]) && args[0].length === 6) ctm = multiplyTransforms(ctm, args[0] as Transform);
+                break;
+            case OPS.paintFormXObjectEnd:
+                ctm = stack.pop() ?? ctm;
+                break;
+            case OPS.constructPath: {
+                const [ops, coords] = args as [number[], number[]];
+                let j = 0;
+                for (const op of ops) {
+                    if (op === OPS.moveTo || op === OPS.lineTo) {
+                        addVertex(ctm, coords[j], coords[j + 1]);
+                        j += 2;
+                    } else if (op === OPS.curveTo) {
+                        addVertex(ctm, coords[j + 4], coords[j + 5]);
+                        j += 6;
+                    } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+                        addVertex(ctm, coords[j + 2], coords[j + 3]);
+                        j += 4;
+                    } else if (op === OPS.rectangle) {
+                        const [x, y, w, h] = coords.slice(j, j + 4);
+                        addVertex(ctm, x, y);
+                        addVertex(ctm, x + w, y);
+                        addVertex(ctm, x + w, y + h);
+                        addVertex(ctm, x, y + h);
+                        j += 4;
+                    }
+                }
+                break;
+            }
+        }
+    }
+    return [...vertices.values()];
+};
@@ -0,0 +1,283 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Scale information embedded in PDF pages (ISO 32000-1, 12.9 "Measurement properties").
+// CAD programs write it as viewports (/VP) of the page, each with a /Measure dictionary
+// whose number formats convert PDF units to real units, e.g. "1 cm = 1 m".
+// PDF.js does not expose these dictionaries, so the page object is read from the file
+// itself, including objects packed in compressed object streams.
+
+export interface PdfMeasure {
+    // Name of the viewport, when the producer gave one
+    name: string;
+    // Scale ratio as written in the file, e.g. "1:100" or "1 in = 10 ft"
+    ratio: string;
+    // Metres per PDF unit (1/72 inch on paper)
+    metresPerUnit: number;
+}
+
+// Metres per PDF unit at a paper scale of 1:`denominator`
+export const paperScaleMetresPerUnit = (denominator: number) => denominator * 0.0254 / 72;
+
+// Image pixels per metre for a PDF page rendered at `renderScale`
+export const pixelsPerMeterAt = (metresPerUnit: number, renderScale: number) => renderScale / metresPerUnit;
+
+const UNIT_METRES: Record<string, number> = {
+    km: 1000,
+    m: 1,
+    dm: 0.1,
+    cm: 0.01,
+    mm: 0.001,
+    mi: 1609.344,
+    yd: 0.9144,
+    ft: 0.3048,
+    in: 0.0254,
+};
+
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfValue[] | PdfDict;
+interface PdfName { name: string }
+interface PdfString { text: string }
+interface PdfRef { ref: number }
+interface PdfDict { dict: Record<string, PdfValue> }
+
+const WHITESPACE = ' \t\r\n\f\0';
+const DELIMITERS = '()<>[]{}/%';
+
+const isName = (value: PdfValue): value is PdfName => typeof value === 'object' && value !== null && 'name' in value;
+const isString = (value: PdfValue): value is PdfString => typeof value === 'object' && value !== null && 'text' in value;
+const isRef = (value: PdfValue): value is PdfRef => typeof value === 'object' && value !== null && 'ref' in value;
+const isDict = (value: PdfValue): value is PdfDict => typeof value === 'object' && value !== null && 'dict' in value;
+
+// Reads one object of the PDF syntax starting at `start`. Only what the measure
+// dictionaries need is supported; unknown keywords read as null.
+const parseValue = (text: string, start: number): { value: PdfValue; end: number } => {
+    let pos = start;
+    const skipWhitespace = () => {
+        while (pos < text.length) {
+            if (WHITESPACE.includes(text[pos])) pos++;
+            else if (text[pos] === '%') while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+            else break;
+        }
+    };
+    const readToken = () => {
+        const from = pos;
+        while (pos < text.length && !WHITESPACE.includes(text[pos]) && !DELIMITERS.includes(text[pos])) pos++;
+        return text.slice(from, pos);
+    };
+    const readInteger = () => {
+        skipWhitespace();
+        const token = readToken();
+        return /^\d+$/.test(token) ? Number(token) : null;
+    };
+
+    const parse = (): PdfValue => {
+        skipWhitespace();
+        const c = text[pos];
+        if (c === '<' && text[pos + 1] === '<') {
+            pos += 2;
+            const dict: Record<string, PdfValue> = {};
+            for (;;) {
+                skipWhitespace();
+                if (pos >= text.length) break;
+                if (text[pos] === '>' && text[pos + 1] === '>') { pos += 2; break; }
+                const key = parse();
+                const value = parse();
+                if (isName(key)) dict[key.name] = value;
+            }
+            return { dict };
+        }
+        if (c === '<') {
+            const close = text.indexOf('>', pos);
+            const hex = text.slice(pos + 1, close < 0 ? text.length : close).replace(/\s/g, '');
+            pos = close < 0 ? text.length : close + 1;
+            let bytes = '';
+            for (let i = 0; i < hex.length; i += 2) bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+            return { text: decodeTextString(bytes) };
+        }
+        if (c === '[') {
+            pos++;
+            const items: PdfValue[] = [];
+            for (;;) {
+                skipWhitespace();
+                if (pos >= text.length) break;
+                if (text[pos] === ']') { pos++; break; }
+                items.push(parse());
+            }
+            return items;
+        }
+        if (c === '(') return { text: decodeTextString(readLiteralString()) };
+        if (c === '/') {
+            pos++;
+            return { name: readToken().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+        }
+        if (c === ')' || c === '>' || c === ']' || c === '{' || c === '}') {
+            pos++;
+            return null;
+        }
+        const token = readToken();
+        if (token === '') {
+            pos++;
+            return null;
+        }
+        if (token === 'true' || token === 'false') return token === 'true';
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+            // "12 0 R" is a reference to object 12
+            if (/^\d+$/.test(token)) {
+                const back = pos;
+                const generation = readInteger();
+                skipWhitespace();
+                if (generation !== null && readToken() === 'R') return { ref: Number(token) };
+                pos = back;
+            }
+            return Number(token);
+        }
+        return null;
+    };
+
+    const readLiteralString = () => {
+        pos++;
+        let depth = 1;
+        let result = '';
+        while (pos < text.length) {
+            const c = text[pos++];
+            if (c === '\\') {
+                const next = text[pos++];
+                const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+                if (next in escapes) result += escapes[next];
+                else if (/[0-7]/.test(next)) {
+                    let octal = next;
+                    while (octal.length < 3 && /[0-7]/.test(text[pos])) octal += text[pos++];
+                    result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+                } else if (next === '\r') {
+                    if (text[pos] === '\n') pos++;
+                } else if (next !== '\n') result += next;
+            } else if (c === '(') {
+                depth++;
+                result += c;
+            } else if (c === ')') {
+                if (--depth === 0) break;
+                result += c;
+            } else result += c;
+        }
+        return result;
+    };
+
+    const value = parse();
+    return { value, end: pos };
+};
+
+// Text strings are UTF-16BE with a byte order mark, or single-byte otherwise
+const decodeTextString = (bytes: string) => {
+    if (bytes.charCodeAt(0) === 0xfe && bytes.charCodeAt(1) === 0xff) {
+        let result = '';
+        for (let i = 2; i + 1 < bytes.length; i += 2) result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+        return result;
+    }
+    return bytes;
+};
+
+// One character per byte. TextDecoder's 'latin1' is really windows-1252, which remaps 0x80–0x9F.
+const bytesToText = (bytes: Uint8Array) => {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 8192) text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+    return text;
+};
+
+const inflate = async (bytes: Uint8Array): Promise<string> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return bytesToText(new Uint8Array(await new Response(stream).arrayBuffer()));
+};
+
+// Random access to the objects of a PDF file by number. Later definitions win, as with
+// incremental updates.
+const createObjectReader = (bytes: Uint8Array) => {
+    const text = bytesToText(bytes);
+    let packed: Map<number, PdfValue> | null = null;
+
+    const findObject = (num: number): PdfValue | undefined => {
+        const pattern = new RegExp(`(?:^|[^\\d])${num}\\s+\\d+\\s+obj\\b`, 'g');
+        let last: RegExpExecArray | null = null;
+        for (let match = pattern.exec(text); match; match = pattern.exec(text)) last = match;
+        if (!last) return undefined;
+        return parseValue(text, last.index + last[0].length).value;
+    };
+
+    const resolve = async (value: PdfValue | undefined): Promise<PdfValue | undefined> => {
+        if (value === undefined || !isRef(value)) return value;
+        const direct = findObject(value.ref);
+        if (direct !== undefined) return direct;
+        packed ??= await readObjectStreams();
+        return packed.get(value.ref);
+    };
+
+    // Objects inside compressed object streams (/Type /ObjStm), which plain text search
+    // cannot see. Only Flate-compressed streams are supported.
+    const readObjectStreams = async () => {
+        const objects = new Map<number, PdfValue>();
+        const pattern = /\d+\s+\d+\s+obj\s*<</g;
+        for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+            const { value: header, end } = parseValue(text, match.index + match[0].length - 2);
+            if (!isDict(header)) continue;
+            const { Type, Filter, N, First } = header.dict;
+            if (!isName(Type) || Type.name !== 'ObjStm' || typeof N !== 'number' || typeof First !== 'number') continue;
+            if (!isName(Filter) || Filter.name !== 'FlateDecode') continue;
+            const streamStart = text.indexOf('stream', end);
+            if (streamStart < 0) continue;
+            let dataStart = streamStart + 'stream'.length;
+            if (text[dataStart] === '\r') dataStart++;
+            if (text[dataStart] === '\n') dataStart++;
+            const length = header.dict.Length;
+            const dataEnd = typeof length === 'number' ? dataStart + length : text.indexOf('endstream', dataStart);
+            try {
+                const content = await inflate(bytes.subarray(dataStart, dataEnd));
+                const offsets = content.slice(0, First).trim().split(/\s+/).map(Number);
+                for (let i = 0; i + 1 < offsets.length && i / 2 < N; i += 2) {
+                    if (!objects.has(offsets[i])) objects.set(offsets[i], parseValue(content, First + offsets[i + 1]).value);
+                }
+            } catch (error) {
+                console.warn("Unreadable PDF object stream:", error);
+            }
+        }
+        return objects;
+    };
+
+    return { resolve };
+};
+
+// Reads the scale of every viewport of a page (1-based) of the PDF loaded with PDF.js from
+// `data`. Viewports measuring something else than lengths, such as geospatial ones, are skipped.
+export const readPageMeasures = async (pdf: PDFDocumentProxy, data: ArrayBuffer, pageNumber: number): Promise<PdfMeasure[]> => {
+    const { ref } = await pdf.getPage(pageNumber);
+    if (!ref) return [];
+    const { resolve } = createObjectReader(new Uint8Array(data));
+    const page = await resolve({ ref: ref.num });
+    if (!page || !isDict(page)) return [];
+    const viewports = await resolve(page.dict.VP);
+    if (!Array.isArray(viewports)) return [];
+
+    const measures: PdfMeasure[] = [];
+    for (const item of viewports) {
+        const viewport = await resolve(item);
+        if (!viewport || !isDict(viewport)) continue;
+        const measure = await resolve(viewport.dict.Measure);
+        if (!measure || !isDict(measure)) continue;
+        const subtype = measure.dict.Subtype;
+        if (isName(subtype) && subtype.name !== 'RL') continue;
+
+        // Distances use /D when present, otherwise the X axis format
+        const formats = await resolve(measure.dict.D ?? measure.dict.X);
+        const first = Array.isArray(formats) ? await resolve(formats[0]) : undefined;
+        if (!first || !isDict(first)) continue;
+        const { U: unit, C: factor } = first.dict;
+        const unitMetres = isString(unit) ? UNIT_METRES[unit.text.trim().toLowerCase()] : undefined;
+        if (typeof factor !== 'number' || factor <= 0 || !unitMetres) continue;
+
+        const name = await resolve(viewport.dict.Name);
+        const ratio = await resolve(measure.dict.R);
+        measures.push({
+            name: name && isString(name) ? name.text : '',
+            ratio: ratio && isString(ratio) ? ratio.text : '',
+            metresPerUnit: factor * unitMetres,
+        });
+    }
+    return measures;
+};
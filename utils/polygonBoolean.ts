@@ -0,0 +1,262 @@
+import { RealCoords } from '../types';
+import { isPointInRing } from './areaAnalytics';
+
+// Polygon in metric coordinates: an outer ring and the holes inside it. Rings are open
+// (the first vertex is not repeated at the end) and may have any orientation.
+export interface PolygonRings {
+    outer: RealCoords[];
+    holes: RealCoords[][];
+}
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference';
+
+// Vertices closer than this (m) are the same vertex
+const EPSILON = 1e-7;
+// Rings with a smaller surface (m²) are slivers left by rounding and are dropped
+const MIN_RING_AREA = 1e-6;
+// Vertices used for a full circle when buffering
+const BUFFER_SEGMENTS = 32;
+
+interface Edge {
+    a: RealCoords;
+    b: RealCoords;
+}
+
+const sub = (p: RealCoords, q: RealCoords): RealCoords => ({ x: p.x - q.x, y: p.y - q.y });
+const cross = (p: RealCoords, q: RealCoords) => p.x * q.y - p.y * q.x;
+const dot = (p: RealCoords, q: RealCoords) => p.x * q.x + p.y * q.y;
+
+const signedArea = (ring: RealCoords[]) =>
+    ring.reduce((sum, p, i) => sum + cross(p, ring[(i + 1) % ring.length]), 0) / 2;
+
+const oriented = (ring: RealCoords[], counterClockwise: boolean) =>
+    (signedArea(ring) > 0) === counterClockwise ? ring : [...ring].reverse();
+
+// Edges with the filled region on their left: outer rings counter-clockwise, holes clockwise
+const polygonEdges = (polygons: PolygonRings[]): Edge[] => polygons.flatMap(polygon =>
+    [oriented(polygon.outer, true), ...polygon.holes.map(hole => oriented(hole, false))]
+        .flatMap(ring => ring.map((a, i) => ({ a, b: ring[(i + 1) % ring.length] })))
+);
+
+const polygonRings = (polygons: PolygonRings[]) => polygons.flatMap(p => [p.outer, ...p.holes]);
+
+// Even-odd rule over every ring of a valid set of polygons
+const isInside = (point: RealCoords, rings: RealCoords[][]) =>
+    rings.reduce((inside, ring) => isPointInRing(point, ring) ? !inside : inside, false);
+
+// Merges vertices closer than EPSILON, so that edges split at the same crossing share
+// their end vertices exactly. `id` returns the index of the vertex in `vertices`.
+const createVertexPool = () => {
+    const vertices: RealCoords[] = [];
+    const cells = new Map<string, number[]>();
+    const id = (p: RealCoords): number => {
+        const cx = Math.floor(p.x / EPSILON);
+        const cy = Math.floor(p.y / EPSILON);
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                const found = cells.get(`${cx + dx},${cy + dy}`)?.find(i => Math.hypot(vertices[i].x - p.x, vertices[i].y - p.y) <= EPSILON);
+                if (found !== undefined) return found;
+            }
+        }
+        const index = vertices.push(p) - 1;
+        const key = `${cx},${cy}`;
+        cells.set(key, [...(cells.get(key) ?? []), index]);
+        return index;
+    };
+    return { vertices, id };
+};
+
+type VertexPool = ReturnType<typeof createVertexPool>;
+
+// Parameters (0–1) along `edge` where `other` crosses or overlaps it, excluding the end points
+const splitParameters = (edge: Edge, other: Edge): number[] => {
+    const r = sub(edge.b, edge.a);
+    const s = sub(other.b, other.a);
+    const lengthR = Math.hypot(r.x, r.y);
+    const lengthS = Math.hypot(s.x, s.y);
+    if (lengthR === 0 || lengthS === 0) return [];
+    const isInterior = (t: number) => t * lengthR > EPSILON && (1 - t) * lengthR > EPSILON;
+    const qp = sub(other.a, edge.a);
+    const denominator = cross(r, s);
+
+    if (Math.abs(denominator) > 1e-12 * lengthR * lengthS) {
+        const t = cross(qp, s) / denominator;
+        const u = cross(qp, r) / denominator;
+        const uTolerance = EPSILON / lengthS;
+        return isInterior(t) && u >= -uTolerance && u <= 1 + uTolerance ? [t] : [];
+    }
+    // Parallel: only collinear overlaps split the edge, at the ends of the other edge
+    if (Math.abs(cross(qp, r)) / lengthR > EPSILON) return [];
+    return [other.a, other.b].map(p => dot(sub(p, edge.a), r) / (lengthR * lengthR)).filter(isInterior);
+};
+
+interface Fragment {
+    from: number;
+    to: number;
+    mid: RealCoords;
+}
+
+// Splits every edge of `edges` where the edges of `others` cross it
+const fragmentEdges = (edges: Edge[], others: Edge[], pool: VertexPool): Fragment[] => edges.flatMap(edge => {
+    const minX = Math.min(edge.a.x, edge.b.x) - EPSILON;
+    const maxX = Math.max(edge.a.x, edge.b.x) + EPSILON;
+    const minY = Math.min(edge.a.y, edge.b.y) - EPSILON;
+    const maxY = Math.max(edge.a.y, edge.b.y) + EPSILON;
+    const parameters = [0, 1];
+    others.forEach(other => {
+        if (Math.max(other.a.x, other.b.x) < minX || Math.min(other.a.x, other.b.x) > maxX
+            || Math.max(other.a.y, other.b.y) < minY || Math.min(other.a.y, other.b.y) > maxY) return;
+        parameters.push(...splitParameters(edge, other));
+    });
+    parameters.sort((p, q) => p - q);
+    const at = (t: number) => ({ x: edge.a.x + t * (edge.b.x - edge.a.x), y: edge.a.y + t * (edge.b.y - edge.a.y) });
+    const fragments: Fragment[] = [];
+    for (let i = 1; i < parameters.length; i++) {
+        const from = pool.id(at(parameters[i - 1]));
+        const to = pool.id(at(parameters[i]));
+        if (from !== to) fragments.push({ from, to, mid: at((parameters[i - 1] + parameters[i]) / 2) });
+    }
+    return fragments;
+});
+
+// Drops vertices lying on the straight line between their neighbours, left by edge splits
+const removeCollinear = (ring: RealCoords[]) => ring.filter((p, i) => {
+    const prev = ring[(i + ring.length - 1) % ring.length];
+    const next = ring[(i + 1) % ring.length];
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+    return length === 0 || Math.abs(cross(sub(p, prev), sub(next, prev))) / length > EPSILON;
+});
+
+// Chains the kept edges into closed rings. Where several edges leave the same vertex
+// (polygons touching at a corner) the sharpest left turn keeps the rings apart.
+const buildRings = (edges: { from: number; to: number }[], vertices: RealCoords[]): RealCoords[][] => {
+    const outgoing = new Map<number, number[]>();
+    edges.forEach((e, i) => outgoing.set(e.from, [...(outgoing.get(e.from) ?? []), i]));
+    const used = new Set<number>();
+    const rings: RealCoords[][] = [];
+
+    edges.forEach((_, start) => {
+        if (used.has(start)) return;
+        const ring: number[] = [];
+        let current = start;
+        while (true) {
+            used.add(current);
+            const edge = edges[current];
+            ring.push(edge.from);
+            if (edge.to === edges[start].from) {
+                rings.push(ring.map(i => vertices[i]));
+                return;
+            }
+            const incoming = sub(vertices[edge.to], vertices[edge.from]);
+            const candidates = (outgoing.get(edge.to) ?? []).filter(i => !used.has(i));
+            // An open chain means the input was not valid; its edges are dropped
+            if (candidates.length === 0) return;
+            const turn = (i: number) => {
+                const out = sub(vertices[edges[i].to], vertices[edges[i].from]);
+                return Math.atan2(cross(incoming, out), dot(incoming, out));
+            };
+            current = candidates.reduce((best, i) => turn(i) > turn(best) ? i : best);
+        }
+    });
+    return rings;
+};
+
+// Groups rings into polygons: counter-clockwise rings are outer boundaries, clockwise ones
+// are holes of the smallest outer ring that contains them
+const assemblePolygons = (rings: RealCoords[][]): PolygonRings[] => {
+    const cleaned = rings.map(removeCollinear).filter(ring => ring.length >= 3 && Math.abs(signedArea(ring)) > MIN_RING_AREA);
+    const outers = cleaned.filter(ring => signedArea(ring) > 0).sort((a, b) => signedArea(a) - signedArea(b));
+    const polygons: PolygonRings[] = outers.map(outer => ({ outer, holes: [] }));
+    cleaned.filter(ring => signedArea(ring) < 0).forEach(hole => {
+        const probe = { x: (hole[0].x + hole[1].x) / 2, y: (hole[0].y + hole[1].y) / 2 };
+        const parent = polygons.find(p => isPointInRing(probe, p.outer));
+        parent?.holes.push(hole);
+    });
+    return polygons;
+};
+
+// Union, intersection or difference (a − b) of two sets of non-overlapping polygons.
+// Edges of each input are split where they meet the other input and kept or dropped
+// depending on which side of the other input they fall; edges shared by both inputs
+// are kept once when the regions lie on the same side of them.
+export const booleanOperation = (a: PolygonRings[], b: PolygonRings[], operation: BooleanOperation): PolygonRings[] => {
+    const edgesA = polygonEdges(a);
+    const edgesB = polygonEdges(b);
+    const pool = createVertexPool();
+    const fragmentsA = fragmentEdges(edgesA, edgesB, pool);
+    const fragmentsB = fragmentEdges(edgesB, edgesA, pool);
+    const ringsA = polygonRings(a);
+    const ringsB = polygonRings(b);
+
+    const keyOf = (from: number, to: number) => `${from}>${to}`;
+    const keysA = new Set(fragmentsA.map(f => keyOf(f.from, f.to)));
+    const keysB = new Set(fragmentsB.map(f => keyOf(f.from, f.to)));
+    const kept: { from: number; to: number }[] = [];
+
+    fragmentsA.forEach(f => {
+        const sameDirection = keysB.has(keyOf(f.from, f.to));
+        const oppositeDirection = keysB.has(keyOf(f.to, f.from));
+        let keep: boolean;
+        if (sameDirection) keep = operation !== 'difference';
+        else if (oppositeDirection) keep = operation === 'difference';
+        else keep = isInside(f.mid, ringsB) === (operation === 'intersection');
+        if (keep) kept.push(f);
+    });
+    fragmentsB.forEach(f => {
+        // Shared edges were settled with the fragments of `a`
+        if (keysA.has(keyOf(f.from, f.to)) || keysA.has(keyOf(f.to, f.from))) return;
+        const inside = isInside(f.mid, ringsA);
+        if (operation === 'union' && !inside) kept.push(f);
+        if (operation === 'intersection' && inside) kept.push(f);
+        // Parts of `b` inside `a` bound the difference, with the region on the other side
+        if (operation === 'difference' && inside) kept.push({ from: f.to, to: f.from });
+    });
+
+    return assemblePolygons(buildRings(kept, pool.vertices));
+};
+
+// Union of many polygons, merged in pairs to keep the intermediate results small
+export const unionAll = (polygons: PolygonRings[][]): PolygonRings[] => {
+    let layer = polygons;
+    while (layer.length > 1) {
+        const next: PolygonRings[][] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            next.push(i + 1 < layer.length ? booleanOperation(layer[i], layer[i + 1], 'union') : layer[i]);
+        }
+        layer = next;
+    }
+    return layer[0] ?? [];
+};
+
+// Region within `radius` of segment a–b: a rectangle with half circles at the ends.
+// Arc vertices sit on a fixed angular grid, so the capsules of consecutive edges share
+// them exactly around the common vertex.
+const capsule = (a: RealCoords, b: RealCoords, radius: number): PolygonRings | null => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) return null;
+    const step = 2 * Math.PI / BUFFER_SEGMENTS;
+    const direction = Math.atan2(b.y - a.y, b.x - a.x);
+    const arc = (center: RealCoords, from: number) => {
+        const at = (angle: number) => ({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+        const vertices = [at(from)];
+        for (let k = Math.floor(from / step) + 1; k * step < from + Math.PI - 1e-9; k++) {
+            if (k * step - from > 1e-9) vertices.push(at(((k % BUFFER_SEGMENTS) + BUFFER_SEGMENTS) % BUFFER_SEGMENTS * step));
+        }
+        vertices.push(at(from + Math.PI));
+        return vertices;
+    };
+    return { outer: [...arc(b, direction - Math.PI / 2), ...arc(a, direction + Math.PI / 2)], holes: [] };
+};
+
+// Offsets a polygon by `distance` metres: outwards when positive, inwards when negative.
+// The band within |distance| of the boundary (outer ring and holes) is added to or
+// removed from the polygon; corners are rounded.
+export const bufferPolygon = (polygon: PolygonRings, distance: number): PolygonRings[] => {
+    if (distance === 0) return [polygon];
+    const radius = Math.abs(distance);
+    const band = unionAll([polygon.outer, ...polygon.holes]
+        .flatMap(ring => ring.map((p, i) => capsule(p, ring[(i + 1) % ring.length], radius)))
+        .filter((c): c is PolygonRings => c !== null)
+        .map(c => [c]));
+    return booleanOperation([polygon], band, distance > 0 ? 'union' : 'difference');
+};
@@ -0,0 +1,220 @@
+import { LatLon, ProjectedCoords } from '../types';
+
+// Offline map projection math: Transverse Mercator (UTM, Gauss-Boaga) on the WGS84,
+// GRS80 and International 1924 ellipsoids, with a Helmert datum shift for Roma 1940.
+
+interface Ellipsoid {
+    a: number;
+    f: number;
+}
+
+// Seven-parameter Helmert transformation to WGS84, position vector convention
+// (translations in metres, rotations in arc seconds, scale in ppm)
+interface DatumShift {
+    tx: number; ty: number; tz: number;
+    rx: number; ry: number; rz: number;
+    ds: number;
+}
+
+export interface CrsDefinition {
+    code: string;
+    epsg: number;
+    name: string;
+    ellipsoid: Ellipsoid;
+    // Undefined when the datum is WGS84 or coincides with it at metre level (ETRS89)
+    toWgs84?: DatumShift;
+    centralMeridian: number;
+    scaleFactor: number;
+    falseEasting: number;
+    falseNorthing: number;
+}
+
+const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+const GRS80: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+const INTERNATIONAL_1924: Ellipsoid = { a: 6378388, f: 1 / 297 };
+
+// Roma 1940 → WGS84 for mainland Italy. Accuracy is a few metres; for cadastral precision
+// use control points surveyed directly in the target system.
+const ROMA40_TO_WGS84: DatumShift = { tx: -104.1, ty: -49.1, tz: -9.9, rx: 0.971, ry: -2.917, rz: 0.714, ds: -11.68 };
+
+const utm = (code: string, epsg: number, name: string, ellipsoid: Ellipsoid, zone: number): CrsDefinition => ({
+    code, epsg, name, ellipsoid,
+    centralMeridian: zone * 6 - 183,
+    scaleFactor: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: 0,
+});
+
+export const CRS_LIST: CrsDefinition[] = [
+    utm('EPSG:25832', 25832, 'ETRS89 / UTM fuso 32N', GRS80, 32),
+    utm('EPSG:25833', 25833, 'ETRS89 / UTM fuso 33N', GRS80, 33),
+    utm('EPSG:25834', 25834, 'ETRS89 / UTM fuso 34N', GRS80, 34),
+    utm('EPSG:32632', 32632, 'WGS84 / UTM fuso 32N', WGS84, 32),
+    utm('EPSG:32633', 32633, 'WGS84 / UTM fuso 33N', WGS84, 33),
+    utm('EPSG:32634', 32634, 'WGS84 / UTM fuso 34N', WGS84, 34),
+    {
+        code: 'EPSG:3003', epsg: 3003, name: 'Monte Mario / Gauss-Boaga fuso Ovest',
+        ellipsoid: INTERNATIONAL_1924, toWgs84: ROMA40_TO_WGS84,
+        centralMeridian: 9, scaleFactor: 0.9996, falseEasting: 1500000, falseNorthing: 0,
+    },
+    {
+        code: 'EPSG:3004', epsg: 3004, name: 'Monte Mario / Gauss-Boaga fuso Est',
+        ellipsoid: INTERNATIONAL_1924, toWgs84: ROMA40_TO_WGS84,
+        centralMeridian: 15, scaleFactor: 0.9996, falseEasting: 2520000, falseNorthing: 0,
+    },
+];
+
+export const getCrs = (code: string): CrsDefinition | undefined => CRS_LIST.find(c => c.code === code);
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+const ARCSEC = Math.PI / (180 * 3600);
+
+// Meridian arc length from the equator (Snyder, Map Projections: A Working Manual, 3-21)
+const meridianArc = (phi: number, { a, f }: Ellipsoid) => {
+    const e2 = f * (2 - f);
+    const e4 = e2 * e2;
+    const e6 = e4 * e2;
+    return a * (
+        (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi
+        - (3 * e2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi)
+        + (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi)
+        - (35 * e6 / 3072) * Math.sin(6 * phi)
+    );
+};
+
+// Transverse Mercator forward projection on the CRS ellipsoid (Snyder 8-9 to 8-10)
+const transverseMercator = ({ lat, lon }: LatLon, crs: CrsDefinition): ProjectedCoords => {
+    const { a, f } = crs.ellipsoid;
+    const e2 = f * (2 - f);
+    const ep2 = e2 / (1 - e2);
+    const phi = toRad(lat);
+    const k0 = crs.scaleFactor;
+
+    const N = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const T = Math.tan(phi) ** 2;
+    const C = ep2 * Math.cos(phi) ** 2;
+    const A = toRad(lon - crs.centralMeridian) * Math.cos(phi);
+    const M = meridianArc(phi, crs.ellipsoid);
+
+    const x = k0 * N * (A + (1 - T + C) * A ** 3 / 6 + (5 - 18 * T + T * T + 72 * C - 58 * ep2) * A ** 5 / 120);
+    const y = k0 * (M + N * Math.tan(phi) * (
+        A * A / 2
+        + (5 - T + 9 * C + 4 * C * C) * A ** 4 / 24
+        + (61 - 58 * T + T * T + 600 * C - 330 * ep2) * A ** 6 / 720
+    ));
+    return { e: crs.falseEasting + x, n: crs.falseNorthing + y };
+};
+
+// Transverse Mercator inverse projection (Snyder 8-12 to 8-18)
+const inverseTransverseMercator = ({ e, n }: ProjectedCoords, crs: CrsDefinition): LatLon => {
+    const { a, f } = crs.ellipsoid;
+    const e2 = f * (2 - f);
+    const ep2 = e2 / (1 - e2);
+    const k0 = crs.scaleFactor;
+    const x = e - crs.falseEasting;
+    const M = (n - crs.falseNorthing) / k0;
+
+    const mu = M / (a * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 ** 3 / 256));
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1 = mu
+        + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+        + (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+        + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+        + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+    const C1 = ep2 * Math.cos(phi1) ** 2;
+    const T1 = Math.tan(phi1) ** 2;
+    const N1 = a / Math.sqrt(1 - e2 * Math.sin(phi1) ** 2);
+    const R1 = a * (1 - e2) / Math.pow(1 - e2 * Math.sin(phi1) ** 2, 1.5);
+    const D = x / (N1 * k0);
+
+    const phi = phi1 - (N1 * Math.tan(phi1) / R1) * (
+        D * D / 2
+        - (5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * D ** 4 / 24
+        + (61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) * D ** 6 / 720
+    );
+    const lambda = (D - (1 + 2 * T1 + C1) * D ** 3 / 6 + (5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) * D ** 5 / 120) / Math.cos(phi1);
+    return { lat: toDeg(phi), lon: crs.centralMeridian + toDeg(lambda) };
+};
+
+const geodeticToGeocentric = ({ lat, lon }: LatLon, { a, f }: Ellipsoid) => {
+    const e2 = f * (2 - f);
+    const phi = toRad(lat);
+    const lambda = toRad(lon);
+    const N = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    return {
+        x: N * Math.cos(phi) * Math.cos(lambda),
+        y: N * Math.cos(phi) * Math.sin(lambda),
+        z: N * (1 - e2) * Math.sin(phi),
+    };
+};
+
+const geocentricToGeodetic = ({ x, y, z }: { x: number; y: number; z: number }, { a, f }: Ellipsoid): LatLon => {
+    const e2 = f * (2 - f);
+    const p = Math.hypot(x, y);
+    let phi = Math.atan2(z, p * (1 - e2));
+    // Converges to sub-millimetre in a few iterations for points near the surface
+    for (let i = 0; i < 5; i++) {
+        const N = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+        phi = Math.atan2(z + e2 * N * Math.sin(phi), p);
+    }
+    return { lat: toDeg(phi), lon: toDeg(Math.atan2(y, x)) };
+};
+
+const helmert = (p: { x: number; y: number; z: number }, s: DatumShift) => {
+    const k = 1 + s.ds * 1e-6;
+    const rx = s.rx * ARCSEC;
+    const ry = s.ry * ARCSEC;
+    const rz = s.rz * ARCSEC;
+    return {
+        x: s.tx + k * (p.x - rz * p.y + ry * p.z),
+        y: s.ty + k * (rz * p.x + p.y - rx * p.z),
+        z: s.tz + k * (-ry * p.x + rx * p.y + p.z),
+    };
+};
+
+// The shift is a near-identity map, so a fixed-point iteration inverts it exactly
+const inverseHelmert = (target: { x: number; y: number; z: number }, s: DatumShift) => {
+    let p = { ...target };
+    for (let i = 0; i < 4; i++) {
+        const mapped = helmert(p, s);
+        p = { x: p.x + target.x - mapped.x, y: p.y + target.y - mapped.y, z: p.z + target.z - mapped.z };
+    }
+    return p;
+};
+
+// WGS84 latitude/longitude → projected coordinates in the given CRS
+export const wgs84ToProjected = (coords: LatLon, crs: CrsDefinition): ProjectedCoords => {
+    let local = coords;
+    if (crs.toWgs84) {
+        const geocentric = inverseHelmert(geodeticToGeocentric(coords, WGS84), crs.toWgs84);
+        local = geocentricToGeodetic(geocentric, crs.ellipsoid);
+    }
+    return transverseMercator(local, crs);
+};
+
+// Projected coordinates in the given CRS → WGS84 latitude/longitude
+export const projectedToWgs84 = (coords: ProjectedCoords, crs: CrsDefinition): LatLon => {
+    const local = inverseTransverseMercator(coords, crs);
+    if (!crs.toWgs84) return local;
+    const geocentric = helmert(geodeticToGeocentric(local, crs.ellipsoid), crs.toWgs84);
+    return geocentricToGeodetic(geocentric, WGS84);
+};
+
+// Grid convergence and point scale factor at a location, computed numerically.
+// `convergence` is the grid bearing of true north in degrees (clockwise from grid north).
+export const gridParameters = (coords: LatLon, crs: CrsDefinition) => {
+    const step = 1e-4; // degrees of latitude, about 11 m
+    const p0 = wgs84ToProjected(coords, crs);
+    const p1 = wgs84ToProjected({ lat: coords.lat + step, lon: coords.lon }, crs);
+    const { a, f } = WGS84;
+    const e2 = f * (2 - f);
+    const phi = toRad(coords.lat);
+    const meridianRadius = a * (1 - e2) / Math.pow(1 - e2 * Math.sin(phi) ** 2, 1.5);
+    const gridDistance = Math.hypot(p1.e - p0.e, p1.n - p0.n);
+    return {
+        convergence: toDeg(Math.atan2(p1.e - p0.e, p1.n - p0.n)),
+        scaleFactor: gridDistance / (meridianRadius * toRad(step)),
+    };
+};
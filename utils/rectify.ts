@@ -0,0 +1,81 @@
+import { Matrix3, RealCoords } from '../types';
+import { applyMatrix, invertMatrix } from './linearAlgebra';
+
+const MAX_OUTPUT_SIZE = 6000;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("L'immagine della mappa non può essere caricata per la rettifica."));
+        img.src = src;
+    });
+
+// Resamples the image onto the metric plane of the calibration, so that the result has a
+// uniform scale of `pixelsPerMeter` with north-up metric axes (bilinear interpolation).
+// `min`/`max` are the plane coordinates, in metres, of the region to export.
+export const renderRectifiedImage = async (
+    imageSrc: string,
+    calibration: Matrix3,
+    min: RealCoords,
+    max: RealCoords,
+    pixelsPerMeter: number
+): Promise<Blob> => {
+    const inverse = invertMatrix(calibration);
+    if (!inverse) throw new Error('La trasformazione di calibrazione non è invertibile.');
+
+    const img = await loadImage(imageSrc);
+    const source = document.createElement('canvas');
+    source.width = img.naturalWidth;
+    source.height = img.naturalHeight;
+    const sourceCtx = source.getContext('2d');
+    if (!sourceCtx) throw new Error('Could not get canvas context.');
+    sourceCtx.drawImage(img, 0, 0);
+    const { data: src, width: sw, height: sh } = sourceCtx.getImageData(0, 0, source.width, source.height);
+
+    // Limit the output size so the canvas stays within browser limits
+    const spanX = max.x - min.x;
+    const spanY = max.y - min.y;
+    const scale = Math.min(pixelsPerMeter, MAX_OUTPUT_SIZE / Math.max(spanX, spanY));
+    const width = Math.max(1, Math.round(spanX * scale));
+    const height = Math.max(1, Math.round(spanY * scale));
+
+    const target = document.createElement('canvas');
+    target.width = width;
+    target.height = height;
+    const targetCtx = target.getContext('2d');
+    if (!targetCtx) throw new Error('Could not get canvas context.');
+    const output = targetCtx.createImageData(width, height);
+    const dst = output.data;
+
+    for (let row = 0; row < height; row++) {
+        // Output rows go downwards, the metric Y axis goes up
+        const y = max.y - (row + 0.5) / scale;
+        for (let col = 0; col < width; col++) {
+            const x = min.x + (col + 0.5) / scale;
+            const p = applyMatrix(inverse, { x, y });
+            const u = p.x - 0.5;
+            const v = p.y - 0.5;
+            const u0 = Math.floor(u);
+            const v0 = Math.floor(v);
+            if (!Number.isFinite(u) || !Number.isFinite(v) || u0 < 0 || v0 < 0 || u0 + 1 >= sw || v0 + 1 >= sh) continue;
+            const fu = u - u0;
+            const fv = v - v0;
+            const i00 = (v0 * sw + u0) * 4;
+            const i10 = i00 + 4;
+            const i01 = i00 + sw * 4;
+            const i11 = i01 + 4;
+            const o = (row * width + col) * 4;
+            for (let c = 0; c < 4; c++) {
+                const top = src[i00 + c] * (1 - fu) + src[i10 + c] * fu;
+                const bottom = src[i01 + c] * (1 - fu) + src[i11 + c] * fu;
+                dst[o + c] = top * (1 - fv) + bottom * fv;
+            }
+        }
+    }
+    targetCtx.putImageData(output, 0, 0);
+
+    return new Promise((resolve, reject) => {
+        target.toBlob(blob => blob ? resolve(blob) : reject(new Error("Impossibile creare l'immagine rettificata.")), 'image/png');
+    });
+};
@@ -0,0 +1,74 @@
+import { ReportOrientation, ReportPageSize, ReportSettings } from '../types';
+
+// ISO 216 sheet sizes in millimetres, portrait
+export const REPORT_PAGE_SIZES: Record<ReportPageSize, { width: number; height: number }> = {
+    A4: { width: 210, height: 297 },
+    A3: { width: 297, height: 420 },
+    A2: { width: 420, height: 594 },
+    A1: { width: 594, height: 841 },
+    A0: { width: 841, height: 1189 },
+};
+
+export const REPORT_ORIENTATION_LABELS: Record<ReportOrientation, string> = {
+    portrait: 'Verticale',
+    landscape: 'Orizzontale',
+};
+
+export const defaultReportSettings = (): ReportSettings => ({
+    pageSize: 'A4',
+    orientation: 'portrait',
+    title: 'Mappa calibrata',
+    author: '',
+    client: '',
+    date: '',
+    logo: null,
+    printScale: null,
+    scaleBar: true,
+    legend: true,
+    pointsTable: true,
+    areasTable: true,
+    measurementsTable: true,
+    pageNumbers: true,
+});
+
+// Settings with every missing or invalid field replaced by its default, for settings
+// saved by older versions or read from a file
+export const normalizeReportSettings = (value: any): ReportSettings => {
+    const defaults = defaultReportSettings();
+    if (!value || typeof value !== 'object') return defaults;
+    const text = (key: 'title' | 'author' | 'client' | 'date') => typeof value[key] === 'string' ? value[key] : defaults[key];
+    const flag = (key: 'scaleBar' | 'legend' | 'pointsTable' | 'areasTable' | 'measurementsTable' | 'pageNumbers') =>
+        typeof value[key] === 'boolean' ? value[key] : defaults[key];
+    return {
+        pageSize: value.pageSize in REPORT_PAGE_SIZES ? value.pageSize : defaults.pageSize,
+        orientation: value.orientation in REPORT_ORIENTATION_LABELS ? value.orientation : defaults.orientation,
+        title: text('title'),
+        author: text('author'),
+        client: text('client'),
+        date: text('date'),
+        logo: typeof value.logo === 'string' && value.logo.startsWith('data:image/') ? value.logo : null,
+        printScale: typeof value.printScale === 'number' && Number.isFinite(value.printScale) && value.printScale > 0 ? value.printScale : null,
+        scaleBar: flag('scaleBar'),
+        legend: flag('legend'),
+        pointsTable: flag('pointsTable'),
+        areasTable: flag('areasTable'),
+        measurementsTable: flag('measurementsTable'),
+        pageNumbers: flag('pageNumbers'),
+    };
+};
+
+// Page size in millimetres for the chosen sheet and orientation
+export const reportPageSize = (settings: ReportSettings) => {
+    const { width, height } = REPORT_PAGE_SIZES[settings.pageSize];
+    return settings.orientation === 'portrait' ? { width, height } : { width: height, height: width };
+};
+
+// Largest 1–2–5 × 10ⁿ length not above `maxLength`, for scale bars
+export const niceLength = (maxLength: number) => {
+    const magnitude = 10 ** Math.floor(Math.log10(maxLength));
+    const step = [5, 2, 1].find(f => f * magnitude <= maxLength) ?? 1;
+    return step * magnitude;
+};
+
+export const formatScaleLength = (metres: number) =>
+    metres >= 1000 ? `${metres / 1000} km` : metres >= 1 ? `${metres} m` : `${Math.round(metres * 100)} cm`;
@@ -0,0 +1,481 @@
+import { AppState, Area, Point, PixelCoords, RealCoords, Measurement, CalibrationReference, Category, CategorySymbol } from '../types';
+import { PendingCalibrationReference } from '../components/CalibrationPanel';
+import { AxisGeometry } from './geometry';
+import { computeAreaMetrics } from './areaAnalytics';
+import { summarizeMeasurement, measurementLabelAnchor, angleArc } from './measurement';
+import { findCategory, withAlpha } from './categories';
+import { Tin, ContourLine, formatElevation } from './terrain';
+
+// Device-independent description of the map overlay: points, areas, measurements, axes,
+// calibration markers, labels and compass as a flat list of shapes in natural image
+// pixels. The same scene is rendered on screen (components/SceneLayer), to standalone
+// SVG, to high-DPI PNG and to vector PDF (services/sceneExport), so exports match the view.
+
+export const SCENE_COLORS = {
+    point: '#FF00FF',
+    area: '#00FFFF',
+    derivedArea: '#C084FC',
+    measurement: '#FFA500',
+    calibration: '#FFD700',
+    // Features being drawn and references waiting for their value
+    pending: '#00FFFF',
+    // Areas selected for an operation, and the snapped vertex
+    selection: '#FACC15',
+    gps: '#3B82F6',
+    tin: '#94A3B8',
+    contour: '#D2A15A',
+};
+
+export interface SceneStyle {
+    // CSS colours; no fill or no stroke when absent
+    fill?: string;
+    stroke?: string;
+    strokeWidth?: number;
+    dash?: number[];
+    opacity?: number;
+}
+
+// Handle of a saved feature being dragged on the overlay
+export type DragTarget =
+    | { kind: 'point'; index: number }
+    // `hole` is the index of the inner ring, absent for the outer ring
+    | { kind: 'area-vertex'; index: number; vertex: number; hole?: number }
+    | { kind: 'measurement-vertex'; index: number; vertex: number }
+    | { kind: 'origin' };
+
+// Saved point or area, e.g. the one whose details are shown
+export type FeatureRef = { kind: 'point' | 'area'; index: number };
+
+// What a shape does when the user interacts with it on screen; exports ignore it
+export type SceneHandle =
+    | { kind: 'drag'; target: DragTarget }
+    // Clicking an edge of an area inserts a vertex there
+    | { kind: 'edge'; area: number; edge: number }
+    // Clicking a feature that cannot be dragged (an area, a locked point) shows its details
+    | { kind: 'select'; feature: FeatureRef };
+
+export type SceneGeometry =
+    // Polyline or polygon; several closed rings are filled with the even-odd rule
+    | { kind: 'path'; rings: PixelCoords[][]; closed: boolean }
+    | { kind: 'circle'; center: PixelCoords; radius: number }
+    // Angles in radians, measured clockwise from the image X axis as on screen
+    | { kind: 'arc'; center: PixelCoords; radius: number; startAngle: number; endAngle: number }
+    // Bold sans-serif text filled with `style.fill`; a halo keeps it readable on any map
+    | {
+        kind: 'text';
+        position: PixelCoords;
+        lines: string[];
+        fontSize: number;
+        anchor: 'start' | 'middle';
+        baseline: 'alphabetic' | 'middle';
+        // Degrees clockwise around `position`
+        rotation?: number;
+        halo?: boolean;
+    };
+
+export type SceneShape = SceneGeometry & {
+    style: SceneStyle;
+    handle?: SceneHandle;
+    // Invisible hit area of a handle, drawn only on screen
+    hitOnly?: boolean;
+    // Tooltip on screen
+    title?: string;
+};
+
+export interface SceneInput {
+    appState: AppState;
+    // Image pixels per screen pixel: strokes, markers and labels are sized in screen pixels
+    unit: number;
+    points: Point[];
+    areas: Area[];
+    measurements: Measurement[];
+    // Hidden categories are left out, locked ones cannot be dragged or edited
+    categories: Category[];
+    northRotation: number;
+    origin: PixelCoords | null;
+    axes: AxisGeometry | null;
+    // Image position of metric coordinates, null without calibration
+    toPixel: (coords: RealCoords) => PixelCoords | null;
+    selectedAreaIndices: number[];
+    currentAreaPoints: Point[];
+    currentMeasurePoints: Point[];
+    calibrationPoints: PixelCoords[];
+    calibrationReferences: CalibrationReference[];
+    pendingSegmentStart: PixelCoords | null;
+    pendingReference: PendingCalibrationReference | null;
+    rectifyCorners: PixelCoords[];
+    // First click of a line picked to set north or the grid axis
+    linePickStart: PixelCoords | null;
+    tempPoint: PixelCoords | null;
+    snapVertex: PixelCoords | null;
+    mousePixelCoords: PixelCoords | null;
+    // Radius in screen pixels of the invisible hit area around draggable markers, so they can
+    // be picked with a finger; 0 for none
+    hitRadius: number;
+    // Terrain model drawn under the features: the triangles of the TIN, null when hidden, and
+    // the contour lines
+    terrain: { tin: Tin | null; contours: ContourLine[] } | null;
+    // Compass drawn on the map, for exports; on screen it is a separate control
+    compass: { center: PixelCoords; radius: number } | null;
+}
+
+// Areas take the colour of their category; without one, drawn areas are cyan and areas
+// computed from other areas violet. Computed areas have a dashed outline.
+export const areaStyle = (area: Area, selected: boolean, category: Category | null) => {
+    const color = category?.color ?? (area.derivation ? SCENE_COLORS.derivedArea : SCENE_COLORS.area);
+    return {
+        color,
+        fill: category ? withAlpha(category.color, 0.2) : area.derivation ? 'rgba(192, 132, 252, 0.25)' : 'rgba(0, 255, 255, 0.2)',
+        stroke: selected ? SCENE_COLORS.selection : color,
+        dashed: !!area.derivation,
+    };
+};
+
+const square = (center: PixelCoords, half: number): PixelCoords[] => [
+    { x: center.x - half, y: center.y - half },
+    { x: center.x + half, y: center.y - half },
+    { x: center.x + half, y: center.y + half },
+    { x: center.x - half, y: center.y + half },
+];
+
+// Marker of a point of radius about `size`, outlined in white like the default dot
+export const pointSymbolShapes = (center: PixelCoords, symbol: CategorySymbol, color: string, size: number, unit: number): SceneShape[] => {
+    const style = { fill: color, stroke: 'white', strokeWidth: unit };
+    const polygon = (corners: number, radius: (i: number) => number, turn = 0): PixelCoords[] => Array.from({ length: corners }, (_, i) => {
+        const angle = turn + i * 2 * Math.PI / corners - Math.PI / 2;
+        return { x: center.x + radius(i) * Math.cos(angle), y: center.y + radius(i) * Math.sin(angle) };
+    });
+    switch (symbol) {
+        case 'circle':
+            return [{ kind: 'circle', center, radius: size, style }];
+        case 'square':
+            return [{ kind: 'path', rings: [square(center, size * 0.9)], closed: true, style }];
+        case 'triangle':
+            return [{ kind: 'path', rings: [polygon(3, () => size * 1.3)], closed: true, style }];
+        case 'diamond':
+            return [{ kind: 'path', rings: [polygon(4, () => size * 1.25)], closed: true, style }];
+        case 'star':
+            return [{ kind: 'path', rings: [polygon(10, i => i % 2 === 0 ? size * 1.4 : size * 0.6)], closed: true, style }];
+        case 'cross': {
+            const arms = [[{ x: center.x - size, y: center.y - size }, { x: center.x + size, y: center.y + size }], [{ x: center.x - size, y: center.y + size }, { x: center.x + size, y: center.y - size }]];
+            return [
+                { kind: 'path', rings: arms, closed: false, style: { stroke: 'white', strokeWidth: unit * 4 } },
+                { kind: 'path', rings: arms, closed: false, style: { stroke: color, strokeWidth: unit * 2 } },
+            ];
+        }
+    }
+};
+
+export const buildScene = (input: SceneInput): SceneShape[] => {
+    const { appState, unit: u, origin, axes, mousePixelCoords } = input;
+    const editing = appState === AppState.READY;
+    const shapes: SceneShape[] = [];
+    const label = (position: PixelCoords, text: string, color: string, fontSize = 12): SceneShape =>
+        ({ kind: 'text', position, lines: [text], fontSize: u * fontSize, anchor: 'start', baseline: 'alphabetic', halo: true, style: { fill: color } });
+    // Dashed line from the last clicked vertex to the mouse
+    const rubberBand = (from: PixelCoords, color: string) => {
+        if (!mousePixelCoords) return;
+        shapes.push({ kind: 'path', rings: [[from, mousePixelCoords]], closed: false, style: { stroke: color, strokeWidth: u * 2, dash: [u * 5, u * 5] } });
+    };
+    const hitArea = (center: PixelCoords, handle: SceneHandle) => {
+        if (input.hitRadius > 0) shapes.push({ kind: 'circle', center, radius: u * input.hitRadius, style: { fill: 'transparent' }, hitOnly: true, handle });
+    };
+
+    if (input.terrain?.tin) {
+        const { tin } = input.terrain;
+        const vertex = (v: number) => input.points[tin.pointIndices[v]].pixelCoords;
+        shapes.push({ kind: 'path', rings: tin.triangles.map(t => t.map(vertex)), closed: true, style: { stroke: SCENE_COLORS.tin, strokeWidth: u, opacity: 0.7 } });
+    }
+    input.terrain?.contours.forEach(line => {
+        const coords = line.coords.map(input.toPixel);
+        if (coords.some(c => !c)) return;
+        shapes.push({ kind: 'path', rings: [coords as PixelCoords[]], closed: line.closed, style: { stroke: SCENE_COLORS.contour, strokeWidth: u * (line.index ? 2 : 1) } });
+        if (line.index) {
+            const middle = coords[Math.floor(coords.length / 2)] as PixelCoords;
+            shapes.push({
+                kind: 'text', position: middle, lines: [formatElevation(line.elevation)], fontSize: u * 10,
+                anchor: 'middle', baseline: 'middle', halo: true, style: { fill: SCENE_COLORS.contour },
+            });
+        }
+    });
+
+    input.areas.forEach((area, index) => {
+        const category = findCategory(input.categories, area.categoryId);
+        if (category && !category.visible) return;
+        const selected = input.selectedAreaIndices.includes(index);
+        const style = areaStyle(area, selected, category);
+        shapes.push({
+            kind: 'path',
+            rings: [area.points, ...area.holes].map(ring => ring.map(p => p.pixelCoords)),
+            closed: true,
+            style: { fill: style.fill, stroke: style.stroke, strokeWidth: u * (selected ? 3 : 2), dash: style.dashed ? [u * 6, u * 4] : undefined },
+            handle: { kind: 'select', feature: { kind: 'area', index } },
+        });
+        if (editing && !category?.locked) {
+            area.points.forEach((p, i) => shapes.push({
+                kind: 'path',
+                rings: [[p.pixelCoords, area.points[(i + 1) % area.points.length].pixelCoords]],
+                closed: false,
+                style: { stroke: 'transparent', strokeWidth: u * Math.max(10, input.hitRadius) },
+                handle: { kind: 'edge', area: index, edge: i },
+                hitOnly: true,
+            }));
+            [area.points, ...area.holes].forEach((ring, h) => ring.forEach((p, i) => {
+                const handle: SceneHandle = { kind: 'drag', target: { kind: 'area-vertex', index, vertex: i, hole: h === 0 ? undefined : h - 1 } };
+                hitArea(p.pixelCoords, handle);
+                shapes.push({
+                    kind: 'path',
+                    rings: [square(p.pixelCoords, u * (h === 0 ? 4 : 3))],
+                    closed: true,
+                    style: { fill: style.color, stroke: 'white', strokeWidth: u },
+                    handle,
+                });
+            }));
+        }
+        const centroid = input.toPixel(computeAreaMetrics(area).centroid);
+        const labelSize = category ? category.labelSize : 12;
+        if (centroid && labelSize) {
+            shapes.push({
+                kind: 'text', position: centroid, lines: [area.name, `${area.realArea.toFixed(2)} m²`], fontSize: u * labelSize,
+                anchor: 'middle', baseline: 'alphabetic', halo: true, style: { fill: style.color },
+            });
+        }
+    });
+
+    const current = input.currentAreaPoints.map(p => p.pixelCoords);
+    if (current.length > 1) shapes.push({ kind: 'path', rings: [current], closed: false, style: { stroke: SCENE_COLORS.pending, strokeWidth: u * 2 } });
+    current.forEach(c => shapes.push({ kind: 'circle', center: c, radius: u * 4, style: { fill: SCENE_COLORS.pending } }));
+    if (appState === AppState.DEFINING_AREA && current.length > 0) rubberBand(current[current.length - 1], SCENE_COLORS.pending);
+
+    input.measurements.forEach((m, index) => {
+        shapes.push({ kind: 'path', rings: [m.points.map(p => p.pixelCoords)], closed: false, style: { stroke: SCENE_COLORS.measurement, strokeWidth: u * 2 } });
+        m.points.forEach((p, i) => {
+            const handle: SceneHandle = { kind: 'drag', target: { kind: 'measurement-vertex', index, vertex: i } };
+            if (editing) hitArea(p.pixelCoords, handle);
+            shapes.push({ kind: 'circle', center: p.pixelCoords, radius: u * (editing ? 4 : 3), style: { fill: SCENE_COLORS.measurement }, handle });
+        });
+        if (m.kind === 'angle') {
+            const arc = angleArc(m, u * 20);
+            shapes.push({ kind: 'arc', center: m.points[1].pixelCoords, radius: u * 20, startAngle: arc.startAngle, endAngle: arc.endAngle, style: { stroke: SCENE_COLORS.measurement, strokeWidth: u * 1.5 } });
+        }
+        const anchor = measurementLabelAnchor(m);
+        shapes.push(label({ x: anchor.x + u * 8, y: anchor.y - u * 8 }, summarizeMeasurement(m, input.northRotation), SCENE_COLORS.measurement));
+    });
+
+    const measuring = input.currentMeasurePoints.map(p => p.pixelCoords);
+    if (measuring.length > 0) {
+        shapes.push({ kind: 'path', rings: [measuring], closed: false, style: { stroke: SCENE_COLORS.measurement, strokeWidth: u * 2 } });
+        measuring.forEach(c => shapes.push({ kind: 'circle', center: c, radius: u * 4, style: { fill: SCENE_COLORS.measurement } }));
+        rubberBand(measuring[measuring.length - 1], SCENE_COLORS.measurement);
+    }
+
+    const calibrationMarker = { stroke: SCENE_COLORS.calibration, strokeWidth: u * 2 };
+    input.calibrationPoints.slice(0, 2).forEach(c => shapes.push({ kind: 'circle', center: c, radius: u * 5, style: calibrationMarker }));
+    if (input.calibrationPoints.length > 1) {
+        shapes.push({ kind: 'path', rings: [input.calibrationPoints.slice(0, 2)], closed: false, style: { ...calibrationMarker, dash: [u * 5, u * 5] } });
+    }
+
+    if (origin && axes) {
+        const axisStyle = { stroke: SCENE_COLORS.point, strokeWidth: u };
+        ([['x', axes.xAxis, axes.xTicks], ['y', axes.yAxis, axes.yTicks]] as const).forEach(([name, [start, end], ticks]) => {
+            shapes.push({ kind: 'path', rings: [[start, end]], closed: false, style: axisStyle });
+            // Ticks perpendicular to the axis, one every 10 metres
+            const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+            const normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+            const tick = u * 5;
+            if (ticks.length > 0) {
+                shapes.push({
+                    kind: 'path',
+                    rings: ticks.map(t => [{ x: t.x - normal.x * tick, y: t.y - normal.y * tick }, { x: t.x + normal.x * tick, y: t.y + normal.y * tick }]),
+                    closed: false,
+                    style: axisStyle,
+                });
+            }
+            // Axis name near the positive end
+            const direction = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+            shapes.push({
+                kind: 'text',
+                position: { x: end.x - direction.x * u * 15 + normal.x * u * 12, y: end.y - direction.y * u * 15 + normal.y * u * 12 },
+                lines: [name.toUpperCase()], fontSize: u * 14, anchor: 'middle', baseline: 'middle', style: { fill: SCENE_COLORS.point },
+            });
+        });
+    }
+
+    if (appState === AppState.RECTIFY && input.rectifyCorners.length > 0) {
+        const corners = input.rectifyCorners;
+        const outline = corners.length === 4 ? [...corners, corners[0]] : mousePixelCoords ? [...corners, mousePixelCoords] : corners;
+        shapes.push({ kind: 'path', rings: [outline], closed: false, style: { ...calibrationMarker, dash: [u * 5, u * 5] } });
+        corners.forEach((c, i) => {
+            shapes.push({ kind: 'circle', center: c, radius: u * 6, style: calibrationMarker });
+            shapes.push(label({ x: c.x + u * 8, y: c.y - u * 8 }, String(i + 1), SCENE_COLORS.calibration));
+        });
+    }
+
+    if (appState === AppState.PICK_LINE && input.linePickStart) {
+        shapes.push({ kind: 'circle', center: input.linePickStart, radius: u * 5, style: { stroke: SCENE_COLORS.pending, strokeWidth: u * 2 } });
+        rubberBand(input.linePickStart, SCENE_COLORS.pending);
+    }
+
+    if (appState === AppState.CALIBRATE_MULTI) {
+        input.calibrationReferences.forEach((r, i) => {
+            const style = { ...calibrationMarker, opacity: r.enabled ? 1 : 0.35 };
+            if (r.kind === 'segment') {
+                shapes.push({ kind: 'path', rings: [[r.start, r.end]], closed: false, style: { ...style, dash: [u * 5, u * 5] } });
+                shapes.push({ kind: 'circle', center: r.start, radius: u * 5, style });
+                shapes.push({ kind: 'circle', center: r.end, radius: u * 5, style });
+            } else {
+                shapes.push({ kind: 'path', rings: [square(r.pixel, u * 6)], closed: true, style });
+            }
+            const anchor = r.kind === 'segment' ? { x: (r.start.x + r.end.x) / 2, y: (r.start.y + r.end.y) / 2 } : r.pixel;
+            const text = label({ x: anchor.x + u * 8, y: anchor.y - u * 8 }, r.kind === 'segment' ? `S${i + 1}` : `C${i + 1}`, SCENE_COLORS.calibration);
+            shapes.push({ ...text, style: { ...text.style, opacity: style.opacity } });
+        });
+        if (input.pendingSegmentStart) {
+            shapes.push({ kind: 'circle', center: input.pendingSegmentStart, radius: u * 5, style: calibrationMarker });
+            rubberBand(input.pendingSegmentStart, SCENE_COLORS.calibration);
+        }
+        const pending = input.pendingReference;
+        const pendingStyle = { stroke: SCENE_COLORS.pending, strokeWidth: u * 2 };
+        if (pending?.kind === 'segment') shapes.push({ kind: 'path', rings: [[pending.start, pending.end]], closed: false, style: pendingStyle });
+        if (pending?.kind === 'control') shapes.push({ kind: 'path', rings: [square(pending.pixel, u * 6)], closed: true, style: pendingStyle });
+    }
+
+    if (origin) {
+        const originStyle = { stroke: SCENE_COLORS.point, strokeWidth: u * 2 };
+        shapes.push({ kind: 'circle', center: origin, radius: u * 8, style: originStyle });
+        if (editing) {
+            shapes.push({
+                kind: 'circle', center: origin, radius: u * Math.max(12, input.hitRadius), style: { fill: 'transparent' }, hitOnly: true,
+                handle: { kind: 'drag', target: { kind: 'origin' } }, title: 'Trascina per spostare il punto di riferimento',
+            });
+        }
+        shapes.push({
+            kind: 'path',
+            rings: [[{ x: origin.x - u * 15, y: origin.y }, { x: origin.x + u * 15, y: origin.y }], [{ x: origin.x, y: origin.y - u * 15 }, { x: origin.x, y: origin.y + u * 15 }]],
+            closed: false,
+            style: originStyle,
+        });
+        shapes.push(label({ x: origin.x + u * 18, y: origin.y + u * 20 }, 'PUNTO DI RIFERIMENTO', SCENE_COLORS.point, 14));
+    }
+
+    input.points.forEach((p, i) => {
+        const category = findCategory(input.categories, p.categoryId);
+        if (category && !category.visible) return;
+        const color = category?.color ?? SCENE_COLORS.point;
+        const handle: SceneHandle = category?.locked ? { kind: 'select', feature: { kind: 'point', index: i } } : { kind: 'drag', target: { kind: 'point', index: i } };
+        if (editing) hitArea(p.pixelCoords, handle);
+        shapes.push(...pointSymbolShapes(p.pixelCoords, category?.symbol ?? 'circle', color, u * 5, u).map(shape => ({ ...shape, handle })));
+        const labelSize = category ? category.labelSize : 12;
+        const text = typeof p.z === 'number' ? `${p.name} (${formatElevation(p.z)})` : p.name;
+        if (labelSize) shapes.push(label({ x: p.pixelCoords.x + u * 8, y: p.pixelCoords.y + u * 4 }, text, color, labelSize));
+    });
+
+    if (input.tempPoint) shapes.push({ kind: 'circle', center: input.tempPoint, radius: u * 6, style: { stroke: SCENE_COLORS.pending, strokeWidth: u * 2 } });
+    if (input.snapVertex) shapes.push({ kind: 'path', rings: [square(input.snapVertex, u * 6)], closed: true, style: { stroke: SCENE_COLORS.selection, strokeWidth: u * 2 } });
+
+    if (input.compass) shapes.push(...compassShapes(input.compass.center, input.compass.radius, input.northRotation));
+    return shapes;
+};
+
+// Live GPS position with its accuracy circle and the track being recorded, drawn on screen
+// over the scene; `radius` is in image pixels
+export const gpsShapes = (position: { center: PixelCoords; radius: number } | null, track: PixelCoords[], unit: number): SceneShape[] => {
+    const shapes: SceneShape[] = [];
+    if (track.length > 1) shapes.push({ kind: 'path', rings: [track], closed: false, style: { stroke: SCENE_COLORS.gps, strokeWidth: unit * 3, dash: [unit * 6, unit * 3] } });
+    if (position) {
+        shapes.push({ kind: 'circle', center: position.center, radius: position.radius, style: { fill: withAlpha(SCENE_COLORS.gps, 0.15), stroke: SCENE_COLORS.gps, strokeWidth: unit } });
+        shapes.push({ kind: 'circle', center: position.center, radius: unit * 7, style: { fill: SCENE_COLORS.gps, stroke: 'white', strokeWidth: unit * 2 } });
+    }
+    return shapes;
+};
+
+// Shapes for a view turned by `rotation` degrees, with the text turned back to stay upright
+export const uprightText = (shapes: SceneShape[], rotation: number): SceneShape[] =>
+    rotation === 0 ? shapes : shapes.map(shape => shape.kind === 'text' ? { ...shape, rotation: (shape.rotation ?? 0) - rotation } : shape);
+
+// Compass rose of radius `radius` with north `rotation` degrees clockwise from the image
+// top. Designed on a 100 × 100 grid centred on 50,50.
+export const compassShapes = (center: PixelCoords, radius: number, rotation: number): SceneShape[] => {
+    const k = radius / 50;
+    const angle = rotation * Math.PI / 180;
+    // Grid coordinates relative to the centre, turned by `turn` degrees and the rotation
+    const at = (x: number, y: number, turn = 0): PixelCoords => {
+        const a = angle + turn * Math.PI / 180;
+        return { x: center.x + k * (x * Math.cos(a) - y * Math.sin(a)), y: center.y + k * (x * Math.sin(a) + y * Math.cos(a)) };
+    };
+    const pointer = (outline: [number, number][], turn: number, fill: string): SceneShape =>
+        ({ kind: 'path', rings: [outline.map(([x, y]) => at(x, y, turn))], closed: true, style: { fill } });
+    const letter = (text: string, x: number, y: number, fill: string): SceneShape =>
+        ({ kind: 'text', position: at(x, y), lines: [text], fontSize: k * 10, anchor: 'middle', baseline: 'alphabetic', rotation, style: { fill } });
+
+    return [
+        { kind: 'circle', center, radius, style: { fill: 'rgba(17, 24, 39, 0.8)' } },
+        { kind: 'circle', center, radius: k * 46, style: { stroke: '#4b5563', strokeWidth: k } },
+        ...[45, 135, 225, 315].map(turn => pointer([[0, -28], [4, -5], [-4, -5]], turn, '#9ca3af')),
+        ...[0, 90, 180, 270].map(turn => pointer([[0, -38], [7, -5], [0, -12], [-7, -5]], turn, turn === 0 ? '#ef4444' : '#f9fafb')),
+        { kind: 'circle', center, radius: k * 6, style: { fill: '#111827', stroke: '#4b5563', strokeWidth: k } },
+        letter('N', 0, -40, '#ef4444'),
+        letter('E', 42, 4, '#f9fafb'),
+        letter('S', 0, 44, '#f9fafb'),
+        letter('W', -42, 4, '#f9fafb'),
+    ];
+};
+
+// Compass placed in the lower right corner of an image of `width` × `height`, as the
+// on-screen control sits in the corner of the fitted view
+export const cornerCompass = (width: number, height: number, unit: number) => ({
+    center: { x: width - unit * 96, y: height - unit * 96 },
+    radius: unit * 64,
+});
+
+// SVG element of a shape, with attribute names as in SVG markup
+export const svgElement = (shape: SceneShape): { tag: 'path' | 'circle' | 'text'; attributes: Record<string, string | number> } => {
+    const { style } = shape;
+    const attributes: Record<string, string | number> = {
+        fill: style.fill ?? 'none',
+        stroke: style.stroke ?? 'none',
+    };
+    if (style.stroke && style.strokeWidth !== undefined) attributes['stroke-width'] = style.strokeWidth;
+    if (style.dash) attributes['stroke-dasharray'] = style.dash.join(',');
+    if (style.opacity !== undefined && style.opacity < 1) attributes.opacity = style.opacity;
+
+    switch (shape.kind) {
+        case 'path':
+            attributes.d = shape.rings.map(ring => `M ${ring.map(p => `${p.x} ${p.y}`).join(' L ')}${shape.closed ? ' Z' : ''}`).join(' ');
+            if (shape.closed && shape.rings.length > 1) attributes['fill-rule'] = 'evenodd';
+            return { tag: 'path', attributes };
+        case 'circle':
+            return { tag: 'circle', attributes: { ...attributes, cx: shape.center.x, cy: shape.center.y, r: shape.radius } };
+        case 'arc': {
+            const { center, radius, startAngle, endAngle } = shape;
+            const start = { x: center.x + radius * Math.cos(startAngle), y: center.y + radius * Math.sin(startAngle) };
+            const end = { x: center.x + radius * Math.cos(endAngle), y: center.y + radius * Math.sin(endAngle) };
+            const large = Math.abs(endAngle - startAngle) > Math.PI ? 1 : 0;
+            attributes.d = `M ${start.x} ${start.y} A ${radius} ${radius} 0 ${large} ${endAngle > startAngle ? 1 : 0} ${end.x} ${end.y}`;
+            return { tag: 'path', attributes };
+        }
+        case 'text': {
+            const { position, fontSize } = shape;
+            Object.assign(attributes, {
+                x: position.x,
+                y: position.y,
+                'font-family': 'sans-serif',
+                'font-size': fontSize,
+                'font-weight': 'bold',
+                'text-anchor': shape.anchor,
+            });
+            if (shape.baseline === 'middle') attributes['dominant-baseline'] = 'middle';
+            if (shape.rotation) attributes.transform = `rotate(${shape.rotation} ${position.x} ${position.y})`;
+            if (shape.halo) {
+                Object.assign(attributes, { stroke: 'black', 'stroke-width': haloWidth(fontSize), 'stroke-linejoin': 'round', 'paint-order': 'stroke' });
+            }
+            return { tag: 'text', attributes };
+        }
+    }
+};
+
+// Outline drawn behind a label, in the units of its font size
+export const haloWidth = (fontSize: number) => fontSize / 4;
+
+// Vertical distance between the lines of a label
+export const lineHeight = (fontSize: number) => fontSize * 14 / 12;
@@ -0,0 +1,35 @@
+import { Area, CalibrationReference, Matrix3, Point, ProjectData, ProjectHistory } from '../types';
+
+export const sheetLabel = (pageNumber: number | null, index: number) =>
+    pageNumber !== null ? `Pagina ${pageNumber}` : `Foglio ${index + 1}`;
+
+// Rescales everything stored in image pixels by `factor`, e.g. after rendering a PDF page
+// at another resolution. Metric values are unchanged: the calibration is adjusted so that
+// the new pixels map to the same metres.
+export const scaleProjectData = (data: ProjectData, factor: number): ProjectData => {
+    const scale = <T extends { x: number; y: number }>(p: T): T => ({ ...p, x: p.x * factor, y: p.y * factor });
+    const scalePoint = (p: Point): Point => ({ ...p, pixelCoords: scale(p.pixelCoords) });
+    const scaleReference = (r: CalibrationReference): CalibrationReference => r.kind === 'segment'
+        ? { ...r, start: scale(r.start), end: scale(r.end) }
+        : { ...r, pixel: scale(r.pixel) };
+    const scaleArea = (a: Area): Area => ({ ...a, points: a.points.map(scalePoint), holes: a.holes.map(hole => hole.map(scalePoint)) });
+    // pixels → metres becomes H · diag(1/f, 1/f, 1)
+    const calibration = data.calibration
+        ? data.calibration.map((value, i) => i % 3 === 2 ? value : value / factor) as Matrix3
+        : null;
+    return {
+        ...data,
+        calibrationPoints: data.calibrationPoints.map(scale),
+        calibrationReferences: data.calibrationReferences.map(scaleReference),
+        calibration,
+        origin: data.origin ? scale(data.origin) : null,
+        points: data.points.map(scalePoint),
+        areas: data.areas.map(scaleArea),
+        measurements: data.measurements.map(m => ({ ...m, points: m.points.map(scalePoint) })),
+    };
+};
+
+export const scaleProjectHistory = (history: ProjectHistory, factor: number): ProjectHistory => ({
+    past: history.past.map(data => scaleProjectData(data, factor)),
+    future: history.future.map(data => scaleProjectData(data, factor)),
+});
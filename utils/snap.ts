@@ -0,0 +1,43 @@
+import { PixelCoords } from '../types';
+
+// Grid of vertices for finding the one nearest to the pointer without scanning them all
+export interface SnapIndex {
+    cellSize: number;
+    cells: Map<string, PixelCoords[]>;
+}
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+export const createSnapIndex = (vertices: PixelCoords[], cellSize = 16): SnapIndex => {
+    const cells = new Map<string, PixelCoords[]>();
+    for (const vertex of vertices) {
+        const key = cellKey(Math.floor(vertex.x / cellSize), Math.floor(vertex.y / cellSize));
+        const cell = cells.get(key);
+        if (cell) cell.push(vertex);
+        else cells.set(key, [vertex]);
+    }
+    return { cellSize, cells };
+};
+
+// Nearest vertex within `radius` of `position`, both in image pixels
+export const findSnapVertex = (index: SnapIndex, position: PixelCoords, radius: number): PixelCoords | null => {
+    const { cellSize, cells } = index;
+    const minX = Math.floor((position.x - radius) / cellSize);
+    const maxX = Math.floor((position.x + radius) / cellSize);
+    const minY = Math.floor((position.y - radius) / cellSize);
+    const maxY = Math.floor((position.y + radius) / cellSize);
+    let best: PixelCoords | null = null;
+    let bestDistance = radius;
+    for (let cx = minX; cx <= maxX; cx++) {
+        for (let cy = minY; cy <= maxY; cy++) {
+            for (const vertex of cells.get(cellKey(cx, cy)) ?? []) {
+                const distance = Math.hypot(vertex.x - position.x, vertex.y - position.y);
+                if (distance <= bestDistance) {
+                    best = vertex;
+                    bestDistance = distance;
+                }
+            }
+        }
+    }
+    return best;
+};
@@ -0,0 +1,306 @@
+import { Area, Point, RealCoords, TerrainSettings } from '../types';
+
+// Ground surface of a small survey: a triangulated irregular network (TIN) through the spot
+// heights of the points, in metres in the local frame. The surface is flat on each triangle,
+// so contour lines are straight inside a triangle and volumes are exact for the model.
+
+export interface TinVertex extends RealCoords {
+    z: number;
+}
+
+export interface Tin {
+    vertices: TinVertex[];
+    // Vertex indices, counter-clockwise
+    triangles: [number, number, number][];
+    // Saved points the vertices come from, by vertex index
+    pointIndices: number[];
+}
+
+export interface ContourLine {
+    elevation: number;
+    // Every fifth contour (elevation a multiple of 5 intervals) is an index contour, drawn
+    // thicker and labelled
+    index: boolean;
+    coords: RealCoords[];
+    closed: boolean;
+}
+
+// Earth to remove (cut, terrain above the reference level) and to bring in (fill, below it),
+// in m³, over the part of an area covered by the model
+export interface CutFill {
+    cut: number;
+    fill: number;
+    // Surface of the area covered by the model, in m²: less than the area when it reaches
+    // beyond the triangulated points, whose volume is then partial
+    coveredArea: number;
+}
+
+export const defaultTerrainSettings = (): TerrainSettings => ({
+    pointFilter: 'all',
+    contourInterval: 1,
+    showTin: true,
+    showContours: true,
+    referenceLevel: 0,
+});
+
+// Settings with every invalid field replaced by its default, for settings read from a file;
+// null when there is no terrain model
+export const normalizeTerrainSettings = (value: any): TerrainSettings | null => {
+    if (!value || typeof value !== 'object') return null;
+    const defaults = defaultTerrainSettings();
+    const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+    return {
+        pointFilter: typeof value.pointFilter === 'string' && value.pointFilter ? value.pointFilter : defaults.pointFilter,
+        contourInterval: isNumber(value.contourInterval) && value.contourInterval > 0 ? value.contourInterval : defaults.contourInterval,
+        showTin: typeof value.showTin === 'boolean' ? value.showTin : defaults.showTin,
+        showContours: typeof value.showContours === 'boolean' ? value.showContours : defaults.showContours,
+        referenceLevel: isNumber(value.referenceLevel) ? value.referenceLevel : defaults.referenceLevel,
+    };
+};
+
+// Beyond this many levels no contour is traced: the interval is too small for the relief
+export const MAX_CONTOUR_LEVELS = 500;
+
+// Points closer than this (m) are the same position; only the first one is triangulated
+const DUPLICATE_DISTANCE = 1e-6;
+// Triangles with a smaller surface (m²) are slivers of collinear points and are dropped
+const MIN_TRIANGLE_AREA = 1e-9;
+
+const cross = (o: RealCoords, a: RealCoords, b: RealCoords) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const circumcircle = (a: RealCoords, b: RealCoords, c: RealCoords) => {
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    // Collinear vertices: no point may ever fall inside, the triangle is dropped at the end
+    if (d === 0) return { x: 0, y: 0, r2: -1 };
+    const a2 = a.x * a.x + a.y * a.y;
+    const b2 = b.x * b.x + b.y * b.y;
+    const c2 = c.x * c.x + c.y * c.y;
+    const x = (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d;
+    const y = (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d;
+    return { x, y, r2: (a.x - x) ** 2 + (a.y - y) ** 2 };
+};
+
+// Delaunay triangulation (Bowyer-Watson) of distinct positions, as counter-clockwise vertex
+// index triples. Quadratic, which is plenty for the hundreds of points of a small survey.
+export const delaunay = (positions: RealCoords[]): [number, number, number][] => {
+    if (positions.length < 3) return [];
+    // Relative to the centre of the bounding box, so circumcircles are computed on small numbers
+    const xs = positions.map(p => p.x);
+    const ys = positions.map(p => p.y);
+    const cx = (Math.min(...xs) + Math.max(...xs)) / 2;
+    const cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+    const span = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys), 1);
+    const vertices = positions.map(p => ({ x: p.x - cx, y: p.y - cy }));
+    // Super-triangle containing every position, removed at the end
+    const n = vertices.length;
+    vertices.push({ x: -20 * span, y: -10 * span }, { x: 20 * span, y: -10 * span }, { x: 0, y: 20 * span });
+
+    type Triangle = { v: [number, number, number]; circle: { x: number; y: number; r2: number } };
+    const makeTriangle = (a: number, b: number, c: number): Triangle => {
+        const v: [number, number, number] = cross(vertices[a], vertices[b], vertices[c]) < 0 ? [a, c, b] : [a, b, c];
+        return { v, circle: circumcircle(vertices[v[0]], vertices[v[1]], vertices[v[2]]) };
+    };
+    let triangles: Triangle[] = [makeTriangle(n, n + 1, n + 2)];
+
+    for (let i = 0; i < n; i++) {
+        const p = vertices[i];
+        const bad: Triangle[] = [];
+        const kept: Triangle[] = [];
+        triangles.forEach(t => ((p.x - t.circle.x) ** 2 + (p.y - t.circle.y) ** 2 < t.circle.r2 ? bad : kept).push(t));
+        // Edges of the cavity: those of a single removed triangle
+        const edges = new Map<string, [number, number]>();
+        bad.forEach(t => t.v.forEach((a, k) => {
+            const b = t.v[(k + 1) % 3];
+            const key = a < b ? `${a},${b}` : `${b},${a}`;
+            if (edges.has(key)) edges.delete(key);
+            else edges.set(key, [a, b]);
+        }));
+        triangles = kept;
+        edges.forEach(([a, b]) => triangles.push(makeTriangle(a, b, i)));
+    }
+
+    return triangles
+        .filter(t => t.v.every(v => v < n) && cross(vertices[t.v[0]], vertices[t.v[1]], vertices[t.v[2]]) / 2 > MIN_TRIANGLE_AREA)
+        .map(t => t.v);
+};
+
+// Points the model is built from: those with an elevation matching the filter of the settings
+export const terrainPointIndices = (points: Point[], settings: TerrainSettings) =>
+    points.flatMap((p, i) => {
+        if (typeof p.z !== 'number') return [];
+        if (settings.pointFilter === 'all') return [i];
+        if (settings.pointFilter === 'none') return p.categoryId ? [] : [i];
+        return p.categoryId === settings.pointFilter ? [i] : [];
+    });
+
+// TIN of the saved points with an elevation. Points at the position of an earlier one are
+// left out, so the model never has two heights at the same place.
+export const buildTin = (points: Point[], settings: TerrainSettings): Tin => {
+    const vertices: TinVertex[] = [];
+    const pointIndices: number[] = [];
+    terrainPointIndices(points, settings).forEach(i => {
+        const { x, y } = points[i].realCoords;
+        if (vertices.some(v => Math.hypot(v.x - x, v.y - y) < DUPLICATE_DISTANCE)) return;
+        vertices.push({ x, y, z: points[i].z as number });
+        pointIndices.push(i);
+    });
+    return { vertices, triangles: delaunay(vertices), pointIndices };
+};
+
+// Elevation in metres with at most two decimals, e.g. "105 m" or "12.35 m"
+export const formatElevation = (z: number) => `${Number(z.toFixed(2))} m`;
+
+export const elevationRange = (tin: Tin) => tin.vertices.length === 0
+    ? null
+    : { min: Math.min(...tin.vertices.map(v => v.z)), max: Math.max(...tin.vertices.map(v => v.z)) };
+
+// Multiples of `interval` within the elevations of the model, null when there would be more
+// than MAX_CONTOUR_LEVELS
+export const contourLevels = (tin: Tin, interval: number): number[] | null => {
+    const range = elevationRange(tin);
+    if (!range || !(interval > 0)) return [];
+    const first = Math.ceil(range.min / interval);
+    const count = Math.max(0, Math.floor(range.max / interval) - first + 1);
+    if (count > MAX_CONTOUR_LEVELS) return null;
+    return Array.from({ length: count }, (_, k) => (first + k) * interval);
+};
+
+// Contour lines of the model every `interval` metres. Segments crossing the triangles are
+// joined through the edges they share into open lines ending on the border of the model,
+// or closed rings around hills and hollows. A vertex exactly at a level counts as above it.
+export const contourLines = (tin: Tin, interval: number): ContourLine[] => {
+    const { vertices } = tin;
+    const lines: ContourLine[] = [];
+    (contourLevels(tin, interval) ?? []).forEach(level => {
+        // Crossing point of each edge, keyed by its vertex indices, and the segments between them
+        const crossings = new Map<string, RealCoords>();
+        const segments: [string, string][] = [];
+        const crossingOf = (a: number, b: number) => {
+            const key = a < b ? `${a},${b}` : `${b},${a}`;
+            if (!crossings.has(key)) {
+                const va = vertices[a], vb = vertices[b];
+                const t = (level - va.z) / (vb.z - va.z);
+                crossings.set(key, { x: va.x + t * (vb.x - va.x), y: va.y + t * (vb.y - va.y) });
+            }
+            return key;
+        };
+        tin.triangles.forEach(triangle => {
+            const crossed = [0, 1, 2].flatMap(k => {
+                const a = triangle[k], b = triangle[(k + 1) % 3];
+                return (vertices[a].z >= level) !== (vertices[b].z >= level) ? [crossingOf(a, b)] : [];
+            });
+            if (crossed.length === 2) segments.push([crossed[0], crossed[1]]);
+        });
+
+        // Each edge is shared by at most two triangles, hence at most two segments
+        const byEdge = new Map<string, number[]>();
+        segments.forEach(([a, b], s) => [a, b].forEach(key => byEdge.set(key, [...(byEdge.get(key) ?? []), s])));
+        const used = new Set<number>();
+        const trace = (start: string, closed: boolean) => {
+            const keys = [start];
+            let key = start;
+            for (;;) {
+                const next = (byEdge.get(key) ?? []).find(s => !used.has(s));
+                if (next === undefined) break;
+                used.add(next);
+                key = segments[next][0] === key ? segments[next][1] : segments[next][0];
+                if (closed && key === start) break;
+                keys.push(key);
+            }
+            const coords = keys.map(k => crossings.get(k) as RealCoords);
+            // A summit or pit vertex exactly at the level leaves a line shrunk to that vertex
+            const length = coords.reduce((sum, c, i) => i === 0 ? 0 : sum + Math.hypot(c.x - coords[i - 1].x, c.y - coords[i - 1].y), 0);
+            if (length > DUPLICATE_DISTANCE) {
+                lines.push({ elevation: level, index: Math.round(level / interval) % 5 === 0, coords, closed });
+            }
+        };
+        // Open lines first, from their ends on the border, then the rings left over
+        byEdge.forEach((list, key) => { if (list.length === 1 && !used.has(list[0])) trace(key, false); });
+        segments.forEach(([a], s) => { if (!used.has(s)) trace(a, true); });
+    });
+    return lines;
+};
+
+// Linear function a·x + b·y + c, non-negative on the kept side of a clipping half-plane
+type Linear = { a: number; b: number; c: number };
+const evaluate = (f: Linear, p: RealCoords) => f.a * p.x + f.b * p.y + f.c;
+
+// Part of a ring inside a half-plane (Sutherland-Hodgman). The ring may be concave: the
+// result may then have edges folded back on themselves, which add nothing to the integrals.
+const clipRing = (ring: RealCoords[], f: Linear): RealCoords[] => {
+    const out: RealCoords[] = [];
+    ring.forEach((p, i) => {
+        const q = ring[(i + 1) % ring.length];
+        const fp = evaluate(f, p), fq = evaluate(f, q);
+        if (fp >= 0) out.push(p);
+        if ((fp >= 0) !== (fq >= 0)) {
+            const t = fp / (fp - fq);
+            out.push({ x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) });
+        }
+    });
+    return out;
+};
+
+// Signed area and first moments (∫x, ∫y) of a ring
+const ringMoments = (ring: RealCoords[]) => {
+    let area = 0, mx = 0, my = 0;
+    ring.forEach((p, i) => {
+        const q = ring[(i + 1) % ring.length];
+        const c = p.x * q.y - q.x * p.y;
+        area += c / 2;
+        mx += (p.x + q.x) * c / 6;
+        my += (p.y + q.y) * c / 6;
+    });
+    return { area, mx, my };
+};
+
+// Cut and fill of the model over an area (outer ring minus holes) against `referenceLevel`.
+// Each triangle is split by the reference plane; the area is clipped to each part, where
+// the height above the reference is linear, so its integral follows from area and moments.
+export const cutFillVolume = (tin: Tin, area: Area, referenceLevel: number): CutFill => {
+    const result: CutFill = { cut: 0, fill: 0, coveredArea: 0 };
+    const rings = [area.points, ...area.holes].map(ring => ring.map(p => p.realCoords));
+    // Outer ring counted positively and holes negatively, whatever their orientation
+    const ringSigns = rings.map((ring, r) => Math.sign(ringMoments(ring).area) * (r === 0 ? 1 : -1));
+
+    tin.triangles.forEach(([i, j, k]) => {
+        const [p, q, s] = [tin.vertices[i], tin.vertices[j], tin.vertices[k]];
+        const det = cross(p, q, s);
+        if (det <= 0) return;
+        // Height above the reference as a·x + b·y + c over the triangle
+        const a = ((q.z - p.z) * (s.y - p.y) - (s.z - p.z) * (q.y - p.y)) / det;
+        const b = ((s.z - p.z) * (q.x - p.x) - (q.z - p.z) * (s.x - p.x)) / det;
+        const height: Linear = { a, b, c: p.z - referenceLevel - a * p.x - b * p.y };
+        // Inside of each edge of the counter-clockwise triangle
+        const sides: Linear[] = [[p, q], [q, s], [s, p]].map(([u, v]) => ({ a: u.y - v.y, b: v.x - u.x, c: u.x * v.y - v.x * u.y }));
+        const below: Linear = { a: -height.a, b: -height.b, c: -height.c };
+
+        rings.forEach((ring, r) => {
+            const inTriangle = sides.reduce(clipRing, ring);
+            if (inTriangle.length < 3) return;
+            const sign = ringSigns[r];
+            result.coveredArea += sign * ringMoments(inTriangle).area;
+            const integral = (part: RealCoords[]) => {
+                if (part.length < 3) return 0;
+                const m = ringMoments(part);
+                return sign * (height.a * m.mx + height.b * m.my + height.c * m.area);
+            };
+            result.cut += integral(clipRing(inTriangle, height));
+            result.fill -= integral(clipRing(inTriangle, below));
+        });
+    });
+    return result;
+};
+
+// Elevation of the model at a position, null outside the triangulated points
+export const elevationAt = (tin: Tin, position: RealCoords): number | null => {
+    for (const [i, j, k] of tin.triangles) {
+        const [p, q, s] = [tin.vertices[i], tin.vertices[j], tin.vertices[k]];
+        const det = cross(p, q, s);
+        const u = cross(position, q, s) / det;
+        const v = cross(p, position, s) / det;
+        const w = 1 - u - v;
+        if (u >= -1e-9 && v >= -1e-9 && w >= -1e-9) return u * p.z + v * q.z + w * s.z;
+    }
+    return null;
+};
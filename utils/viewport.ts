@@ -0,0 +1,66 @@
+import { PixelCoords, ViewTransform } from '../types';
+
+export const MIN_ZOOM = 0.02;
+export const MAX_ZOOM = 32;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Angle in (-180, 180] degrees
+export const normalizeRotation = (degrees: number) => {
+    const angle = ((degrees % 360) + 360) % 360;
+    return angle > 180 ? angle - 360 : angle;
+};
+
+const rotate = (point: PixelCoords, degrees: number): PixelCoords => {
+    if (degrees === 0) return point;
+    const rad = degrees * Math.PI / 180;
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+};
+
+// Returns the transform that fits the whole image inside the container, centred and upright.
+export const fitTransform = (
+    imageWidth: number,
+    imageHeight: number,
+    containerWidth: number,
+    containerHeight: number,
+    padding = 16
+): ViewTransform => {
+    const availableWidth = Math.max(1, containerWidth - padding * 2);
+    const availableHeight = Math.max(1, containerHeight - padding * 2);
+    const zoom = clampZoom(Math.min(availableWidth / imageWidth, availableHeight / imageHeight));
+    return {
+        zoom,
+        panX: (containerWidth - imageWidth * zoom) / 2,
+        panY: (containerHeight - imageHeight * zoom) / 2,
+        rotation: 0,
+    };
+};
+
+// Transform with the given zoom and rotation that shows the image point at the container position
+export const anchorTransform = (zoom: number, rotation: number, point: PixelCoords, screenX: number, screenY: number): ViewTransform => {
+    const turned = rotate({ x: point.x * zoom, y: point.y * zoom }, rotation);
+    return { zoom, panX: screenX - turned.x, panY: screenY - turned.y, rotation };
+};
+
+// Zooms by `factor` keeping the image point under the container position (anchorX, anchorY) fixed.
+export const zoomAt = (view: ViewTransform, factor: number, anchorX: number, anchorY: number): ViewTransform =>
+    anchorTransform(clampZoom(view.zoom * factor), view.rotation, screenToImage(view, anchorX, anchorY), anchorX, anchorY);
+
+// Turns the view to `rotation` degrees around the container position (anchorX, anchorY).
+export const rotateAt = (view: ViewTransform, rotation: number, anchorX: number, anchorY: number): ViewTransform =>
+    anchorTransform(view.zoom, normalizeRotation(rotation), screenToImage(view, anchorX, anchorY), anchorX, anchorY);
+
+export const screenToImage = (view: ViewTransform, screenX: number, screenY: number): PixelCoords => {
+    const unturned = rotate({ x: screenX - view.panX, y: screenY - view.panY }, -view.rotation);
+    return { x: unturned.x / view.zoom, y: unturned.y / view.zoom };
+};
+
+export const imageToScreen = (view: ViewTransform, point: PixelCoords): PixelCoords => {
+    const turned = rotate({ x: point.x * view.zoom, y: point.y * view.zoom }, view.rotation);
+    return { x: turned.x + view.panX, y: turned.y + view.panY };
+};
+
+// Pans the view so that the given image point ends up at the centre of the container.
+export const centerOn = (view: ViewTransform, point: PixelCoords, containerWidth: number, containerHeight: number): ViewTransform =>
+    anchorTransform(view.zoom, view.rotation, point, containerWidth / 2, containerHeight / 2);
@@ -1,7 +1,44 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js from its template with the files of the build to precache, so the app and
+// everything it loads work offline after the first visit. The cache version is a hash of
+// the build, hence it changes exactly when a file does.
+const serviceWorker = (): Plugin => ({
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+        const hash = createHash('sha256');
+        const files: string[] = [];
+        for (const file of Object.values(bundle)) {
+            if (file.fileName.endsWith('.map')) continue;
+            files.push(file.fileName);
+            hash.update(file.fileName);
+            hash.update(file.type === 'chunk' ? file.code : file.source);
+        }
+        const publicDir = path.resolve(__dirname, 'public');
+        for (const file of fs.readdirSync(publicDir, { recursive: true, encoding: 'utf8' })) {
+            const fullPath = path.join(publicDir, file);
+            if (!fs.statSync(fullPath).isFile()) continue;
+            files.push(file.split(path.sep).join('/'));
+            hash.update(fs.readFileSync(fullPath));
+        }
+        const urls = ['/', ...files.sort().map(file => `/${file}`)];
+        const template = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+        this.emitFile({
+            type: 'asset',
+            fileName: 'sw.js',
+            source: template
+                .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+                .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2)),
+        });
+    },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +46,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)